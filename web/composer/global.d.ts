@@ -4,9 +4,25 @@ declare module 'fastify' {
   interface FastifyInstance {
     platformatic: any
   }
+
+  interface FastifyRequest {
+    /** Server span for the request, set by the observability plugin */
+    trace: RequestTrace
+  }
 }
 
 declare global {
+  interface RequestTrace {
+    traceId: string
+    spanId: string
+    parentSpanId?: string
+    sampled: boolean
+    /** `traceparent` header naming this span as the parent */
+    traceparent: string
+    /** Start time (ms since the epoch) */
+    startTime: number
+  }
+
   namespace NodeJS {
     interface ProcessEnv {
       NODE_ENV: 'development' | 'production' | 'test'
@@ -19,6 +35,16 @@ declare global {
       WORDPRESS_URL?: string
       REMIX_APP_URL?: string
       COMPOSER_URL?: string
+      REMIX_APP_INTERNAL_URL?: string
+      WP_WEBHOOK_SECRET?: string
+      HTTP_CACHE_PURGE_URL?: string
+      HTTP_CACHE_PURGE_TOKEN?: string
+      METRICS_TOKEN?: string
+      HEALTH_DEGRADED_LATENCY_MS?: string
+      OTEL_SERVICE_NAME?: string
+      OTEL_EXPORTER_OTLP_ENDPOINT?: string
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT?: string
+      OTEL_EXPORTER_OTLP_HEADERS?: string
     }
   }
 }
\ No newline at end of file
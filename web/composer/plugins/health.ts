@@ -0,0 +1,191 @@
+/**
+ * Health Plugin
+ *
+ * Liveness and readiness endpoints with the schema the Remix app uses:
+ * an overall `status` of `ok`, `degraded` or `down`, and the status,
+ * latency and details of each dependency under `checks`.
+ *
+ * - `GET /health/live`: the process responds; no dependencies are checked
+ * - `GET /health/ready` (and `/health`): WordPress REST and the database
+ *   reachability WordPress reports; 503 when either is down, `degraded`
+ *   when slower than `HEALTH_DEGRADED_LATENCY_MS` (1000) or refusing
+ *   requests
+ */
+
+import { FastifyInstance, FastifyPluginOptions, FastifyReply, FastifyRequest } from 'fastify'
+
+const WORDPRESS_ORIGIN = 'http://wp.plt.local'
+
+type HealthStatus = 'ok' | 'degraded' | 'down'
+
+interface HealthCheck {
+  status: HealthStatus
+  latencyMs: number | null
+  message?: string
+  details?: Record<string, unknown>
+}
+
+interface Probe {
+  latencyMs: number
+  status?: number
+  body?: unknown
+  error?: string
+}
+
+/**
+ * A field of a JSON object, or undefined for anything else
+ */
+function field(value: unknown, name: string): unknown {
+  return value && typeof value === 'object' && name in value
+    ? (value as Record<string, unknown>)[name]
+    : undefined
+}
+
+/**
+ * The `message` of a WordPress REST response or error
+ */
+function bodyMessage(result: Probe): string | undefined {
+  const message = field(result.body, 'message')
+  return typeof message === 'string' ? message : undefined
+}
+
+/**
+ * GET a WordPress REST path with a 5 second timeout
+ */
+async function probe(path: string, traceparent?: string): Promise<Probe> {
+  const started = performance.now()
+
+  try {
+    const response = await fetch(`${WORDPRESS_ORIGIN}/wp-json${path}`, {
+      headers: { Accept: 'application/json', ...(traceparent ? { traceparent } : {}) },
+      signal: AbortSignal.timeout(5000)
+    })
+    const body = await response.json().catch(() => null)
+    return { latencyMs: Math.round(performance.now() - started), status: response.status, body }
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'TimeoutError'
+      ? 'Timed out after 5000ms'
+      : error instanceof Error ? error.message : 'Unknown error'
+    return { latencyMs: Math.round(performance.now() - started), error: message }
+  }
+}
+
+/**
+ * `degraded` for 4xx (WordPress is up but refuses the request), `down`
+ * for 5xx and network errors
+ */
+function failedStatus(result: Probe): HealthStatus {
+  return result.status && result.status < 500 ? 'degraded' : 'down'
+}
+
+function failedMessage(result: Probe): string {
+  return result.status
+    ? `WordPress API returned ${result.status}: ${bodyMessage(result) ?? 'no message'}`
+    : `WordPress API is not accessible: ${result.error}`
+}
+
+function wordpressCheck(root: Probe): HealthCheck {
+  if (root.status && root.status < 300) {
+    return { status: 'ok', latencyMs: root.latencyMs, message: 'WordPress API is accessible' }
+  }
+  return { status: failedStatus(root), latencyMs: root.latencyMs, message: failedMessage(root) }
+}
+
+/**
+ * Database status from the `wp-remix/v1/health` must-use plugin; without
+ * it, a working REST API means WordPress reached its database
+ */
+function databaseCheck(root: Probe, database: Probe): HealthCheck {
+  // WordPress answers every request with this while it cannot connect
+  if ([root, database].some(result => /database connection/i.test(bodyMessage(result) ?? ''))) {
+    return { status: 'down', latencyMs: null, message: 'WordPress cannot connect to its database' }
+  }
+
+  if (database.status === 200) {
+    const latency = field(field(database.body, 'database'), 'latency_ms')
+    return {
+      status: 'ok',
+      latencyMs: typeof latency === 'number' ? latency : null,
+      message: 'Database query answered'
+    }
+  }
+
+  const code = field(database.body, 'code')
+
+  if (code === 'database_unavailable') {
+    return { status: 'down', latencyMs: null, message: bodyMessage(database) }
+  }
+
+  if (!root.status || root.status >= 300) {
+    return { status: 'down', latencyMs: null, message: 'Unknown while WordPress is unavailable' }
+  }
+
+  if (code === 'rest_no_route') {
+    return { status: 'ok', latencyMs: null, message: 'WordPress is serving its REST API (health plugin not installed)' }
+  }
+
+  return { status: failedStatus(database), latencyMs: database.latencyMs, message: failedMessage(database) }
+}
+
+/**
+ * `check`, degraded when it took longer than `HEALTH_DEGRADED_LATENCY_MS`
+ */
+function withLatencyLimit(check: HealthCheck): HealthCheck {
+  const limit = parseInt(process.env.HEALTH_DEGRADED_LATENCY_MS || '1000')
+
+  if (check.status === 'ok' && check.latencyMs !== null && check.latencyMs > limit) {
+    return { ...check, status: 'degraded', message: `Slower than ${limit}ms` }
+  }
+  return check
+}
+
+function report(status: HealthStatus, checks: Record<string, HealthCheck>) {
+  return {
+    status,
+    service: 'composer',
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks
+  }
+}
+
+export default async function healthPlugin(
+  fastify: FastifyInstance,
+  opts: FastifyPluginOptions
+) {
+  async function readiness(request: FastifyRequest, reply: FastifyReply) {
+    // Rewritten with the Composer's span by the observability plugin
+    const traceparent = request.headers.traceparent as string | undefined
+    const [root, database] = await Promise.all([
+      probe('/wp/v2/', traceparent),
+      probe('/wp-remix/v1/health', traceparent)
+    ])
+    const checks = {
+      wordpress: withLatencyLimit(wordpressCheck(root)),
+      database: withLatencyLimit(databaseCheck(root, database))
+    }
+    const statuses = Object.values(checks).map(check => check.status)
+    const status: HealthStatus = statuses.includes('down')
+      ? 'down'
+      : statuses.every(value => value === 'ok') ? 'ok' : 'degraded'
+
+    if (status !== 'ok') {
+      request.log.warn({ checks }, `Composer readiness: ${status}`)
+    }
+
+    reply
+      .code(status === 'down' ? 503 : 200)
+      .header('Cache-Control', 'no-cache, no-store, must-revalidate')
+    return report(status, checks)
+  }
+
+  fastify.get('/health/live', async (request, reply) => {
+    reply.header('Cache-Control', 'no-cache, no-store, must-revalidate')
+    return report('ok', {})
+  })
+
+  fastify.get('/health/ready', readiness)
+
+  // Kept for existing monitors; the same report as /health/ready
+  fastify.get('/health', readiness)
+}
@@ -0,0 +1,273 @@
+/**
+ * Observability Plugin
+ *
+ * Traces, logs and measures every request through the Composer:
+ *
+ * - each request is a server span in the trace of its `traceparent`
+ *   header (or a new trace); the header is rewritten with the span so
+ *   the proxied WordPress request is its child
+ * - request logs carry `trace_id` and `span_id`, and WordPress API
+ *   responses are logged at a level matching their status
+ * - Prometheus metrics for request latency and status are served on
+ *   `/metrics`, behind `METRICS_TOKEN` when it is set
+ *
+ * Spans are exported as OTLP/HTTP JSON when `OTEL_EXPORTER_OTLP_ENDPOINT`
+ * (or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`) is set.
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto'
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify'
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+const DURATION_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+/**
+ * The server span for a request, parented by its incoming `traceparent`
+ */
+function startTrace(header: string | string[] | undefined): RequestTrace {
+  const match = typeof header === 'string' ? header.trim().toLowerCase().match(TRACEPARENT) : null
+  const valid = match && !/^0+$/.test(match[1]) && !/^0+$/.test(match[2])
+  const traceId = valid ? match[1] : randomBytes(16).toString('hex')
+  const spanId = randomBytes(8).toString('hex')
+  const sampled = valid ? (parseInt(match[3], 16) & 1) === 1 : true
+
+  return {
+    traceId,
+    spanId,
+    parentSpanId: valid ? match[2] : undefined,
+    sampled,
+    traceparent: `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`,
+    startTime: Date.now()
+  }
+}
+
+/**
+ * Buffered OTLP/HTTP JSON span export, or null without a collector
+ */
+function createSpanExporter(log: FastifyInstance['log']) {
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+  const url = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+    (base ? `${base.replace(/\/+$/, '')}/v1/traces` : '')
+
+  if (!url) {
+    return null
+  }
+
+  const headers = Object.fromEntries(
+    (process.env.OTEL_EXPORTER_OTLP_HEADERS || '')
+      .split(',')
+      .map(pair => pair.split('=').map(part => decodeURIComponent(part.trim())))
+      .filter(([key, value]) => key && value)
+  )
+  const resource = {
+    attributes: [{ key: 'service.name', value: { stringValue: process.env.OTEL_SERVICE_NAME || 'composer' } }]
+  }
+  let queue: object[] = []
+  let timer: NodeJS.Timeout | null = null
+
+  async function flush() {
+    timer = null
+    const spans = queue
+    queue = []
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({
+          resourceSpans: [{ resource, scopeSpans: [{ scope: { name: 'wp-remix-composer' }, spans }] }]
+        }),
+        signal: AbortSignal.timeout(5000)
+      })
+      if (!response.ok) {
+        log.warn({ status: response.status, spans: spans.length }, 'Trace export failed')
+      }
+    } catch (error) {
+      log.warn({ err: error, spans: spans.length }, 'Trace export failed')
+    }
+  }
+
+  return (span: object) => {
+    // Drop the oldest spans while the collector is unreachable
+    if (queue.length >= 2048) queue.shift()
+    queue.push(span)
+
+    if (queue.length >= 100) {
+      if (timer) clearTimeout(timer)
+      void flush()
+    } else if (!timer) {
+      timer = setTimeout(() => void flush(), 5000)
+      timer.unref()
+    }
+  }
+}
+
+/**
+ * Request counts and latency histograms by label set, in the Prometheus
+ * text format
+ */
+function createHistogram(name: string, help: string, labelNames: string[]) {
+  const series = new Map<string, { buckets: number[], sum: number, count: number }>()
+
+  const format = (values: string[], extra?: string) => {
+    const pairs = labelNames.map((label, index) =>
+      `${label}="${values[index].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    )
+    if (extra) pairs.push(extra)
+    return `{${pairs.join(',')}}`
+  }
+
+  return {
+    observe(labels: Record<string, string>, seconds: number) {
+      const key = JSON.stringify(labelNames.map(label => labels[label] ?? ''))
+      let entry = series.get(key)
+      if (!entry) {
+        entry = { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 }
+        series.set(key, entry)
+      }
+
+      const bucket = DURATION_BUCKETS.findIndex(bound => seconds <= bound)
+      if (bucket !== -1) entry.buckets[bucket]++
+      entry.sum += seconds
+      entry.count++
+    },
+
+    render(): string[] {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`]
+
+      for (const [key, entry] of series) {
+        const values: string[] = JSON.parse(key)
+        let cumulative = 0
+
+        DURATION_BUCKETS.forEach((bound, index) => {
+          cumulative += entry.buckets[index]
+          lines.push(`${name}_bucket${format(values, `le="${bound}"`)} ${cumulative}`)
+        })
+        lines.push(
+          `${name}_bucket${format(values, 'le="+Inf"')} ${entry.count}`,
+          `${name}_sum${format(values)} ${entry.sum}`,
+          `${name}_count${format(values)} ${entry.count}`
+        )
+      }
+
+      return lines
+    }
+  }
+}
+
+/**
+ * `endpoint` label for a WordPress REST path without its query and IDs,
+ * e.g. `/wp/wp-json/wp/v2/posts/12?_embed` is `/wp/v2/posts`
+ */
+function endpointLabel(url: string): string {
+  return url.split('?')[0]
+    .replace(/^\/wp\/wp-json/, '')
+    .split('/')
+    .slice(0, 4)
+    .filter(segment => !/^\d+$/.test(segment))
+    .join('/') || '/'
+}
+
+/**
+ * Whether a request may read `/metrics`
+ */
+function isAuthorized(request: FastifyRequest): boolean {
+  const token = process.env.METRICS_TOKEN
+  if (!token) {
+    return true
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const received = Buffer.from(request.headers.authorization ?? '')
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+async function observabilityPlugin(
+  fastify: FastifyInstance,
+  opts: FastifyPluginOptions
+) {
+  const exportSpan = createSpanExporter(fastify.log)
+  const requestDuration = createHistogram(
+    'composer_http_request_duration_seconds',
+    'Duration of requests to the Composer by route and status',
+    ['method', 'route', 'status_code']
+  )
+  const wordpressDuration = createHistogram(
+    'composer_wordpress_request_duration_seconds',
+    'Duration of WordPress REST API requests proxied under /wp/wp-json',
+    ['method', 'endpoint', 'status_code']
+  )
+
+  fastify.decorateRequest('trace', null)
+
+  fastify.addHook('onRequest', async (request) => {
+    const trace = startTrace(request.headers.traceparent)
+    request.trace = trace
+
+    // Forwarded by the proxy, so WordPress sees this span as its parent
+    request.headers.traceparent = trace.traceparent
+    request.log = request.log.child({ trace_id: trace.traceId, span_id: trace.spanId })
+  })
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const { trace } = request
+    const route = request.routeOptions.url ?? 'unmatched'
+    const statusCode = reply.statusCode
+    const seconds = reply.elapsedTime / 1000
+
+    requestDuration.observe({ method: request.method, route, status_code: statusCode.toString() }, seconds)
+
+    if (request.url.startsWith('/wp/wp-json/')) {
+      const endpoint = endpointLabel(request.url)
+      wordpressDuration.observe({ method: request.method, endpoint, status_code: statusCode.toString() }, seconds)
+
+      const level = statusCode >= 500 ? 'error' : statusCode >= 400 ? 'warn' : 'info'
+      request.log[level]({
+        method: request.method,
+        url: request.url,
+        endpoint,
+        statusCode,
+        responseTime: reply.elapsedTime
+      }, 'WordPress API request completed')
+    }
+
+    if (exportSpan && trace?.sampled) {
+      const endTime = trace.startTime + reply.elapsedTime
+      exportSpan({
+        traceId: trace.traceId,
+        spanId: trace.spanId,
+        ...(trace.parentSpanId ? { parentSpanId: trace.parentSpanId } : {}),
+        name: `${request.method} ${route}`,
+        kind: 2,
+        startTimeUnixNano: (BigInt(trace.startTime) * 1000000n).toString(),
+        endTimeUnixNano: (BigInt(Math.round(endTime * 1000)) * 1000n).toString(),
+        attributes: [
+          { key: 'http.request.method', value: { stringValue: request.method } },
+          { key: 'http.route', value: { stringValue: route } },
+          { key: 'url.path', value: { stringValue: request.url.split('?')[0] } },
+          { key: 'http.response.status_code', value: { intValue: statusCode.toString() } }
+        ],
+        status: statusCode >= 500 ? { code: 2, message: `HTTP ${statusCode}` } : { code: 0 }
+      })
+    }
+  })
+
+  // Prometheus metrics for this Composer worker
+  fastify.get('/metrics', async (request, reply) => {
+    if (!isAuthorized(request)) {
+      reply.code(401).header('WWW-Authenticate', 'Bearer')
+      return { error: 'Unauthorized' }
+    }
+
+    reply
+      .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      .header('Cache-Control', 'no-store')
+    return `${[...requestDuration.render(), ...wordpressDuration.render()].join('\n')}\n`
+  })
+}
+
+// Hooks and the `trace` decoration apply to every route, including the
+// WordPress proxy, rather than only to routes in this plugin
+Object.assign(observabilityPlugin, { [Symbol.for('skip-override')]: true })
+
+export default observabilityPlugin
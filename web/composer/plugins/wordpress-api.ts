@@ -5,8 +5,39 @@
  * communication in the Composer service
  */
 
+import { createHmac, timingSafeEqual } from 'node:crypto'
 import { FastifyInstance, FastifyPluginOptions } from 'fastify'
 
+const SIGNATURE_HEADER = 'x-wp-webhook-signature'
+const TIMESTAMP_HEADER = 'x-wp-webhook-timestamp'
+
+/**
+ * Verify a webhook signature: `sha256=` HMAC-SHA256 over `<timestamp>.<body>`
+ * with the shared secret, within a 5 minute window to prevent replays
+ */
+function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | undefined,
+  timestamp: string | undefined
+): boolean {
+  if (!signature || !timestamp) {
+    return false
+  }
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp))
+  if (!Number.isFinite(age) || age > 300) {
+    return false
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+  )
+  const received = Buffer.from(signature)
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
 export default async function wordpressApiPlugin(
   fastify: FastifyInstance,
   opts: FastifyPluginOptions
@@ -25,60 +56,91 @@ export default async function wordpressApiPlugin(
     }
   })
 
-  // Add WordPress API health check endpoint
-  fastify.get('/health', async (request, reply) => {
-    try {
-      // Try to reach the WordPress service
-      const response = await fetch('http://wp.plt.local/wp-json/wp/v2/', {
-        method: 'HEAD',
-        timeout: 5000
-      })
-      
-      if (response.ok) {
-        return {
-          status: 'healthy',
-          services: {
-            wordpress: 'connected',
-            composer: 'running'
+  // Authenticated webhook for WordPress content changes
+  fastify.register(async (instance) => {
+    // Keep the raw body: the signature covers the exact bytes WordPress sent
+    instance.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+      done(null, body)
+    })
+
+    instance.post('/invalidate', async (request, reply) => {
+      const secret = process.env.WP_WEBHOOK_SECRET
+      if (!secret) {
+        reply.code(503)
+        return { error: 'Cache invalidation is not configured' }
+      }
+
+      const body = typeof request.body === 'string' ? request.body : ''
+      const signature = request.headers[SIGNATURE_HEADER] as string | undefined
+      const timestamp = request.headers[TIMESTAMP_HEADER] as string | undefined
+
+      if (!verifyWebhookSignature(secret, body, signature, timestamp)) {
+        reply.code(401)
+        return { error: 'Invalid signature' }
+      }
+
+      try {
+        // The Remix app owns the response cache and maps events to cache tags;
+        // it verifies the same signature, so the request is forwarded as-is
+        const remixUrl = process.env.REMIX_APP_INTERNAL_URL || 'http://remix-app.plt.local'
+        const response = await fetch(`${remixUrl}/api/cache-invalidate`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            traceparent: request.trace.traceparent,
+            [SIGNATURE_HEADER]: signature as string,
+            [TIMESTAMP_HEADER]: timestamp as string
           },
-          timestamp: new Date().toISOString()
+          body,
+          signal: AbortSignal.timeout(5000)
+        })
+        const result = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          reply.code(response.status === 400 ? 400 : 502)
+          return { error: 'Remix cache invalidation failed', details: result }
         }
-      } else {
-        reply.code(503)
+
+        const tags: string[] = Array.isArray(result.tags) ? result.tags : []
+        let httpCache = 'skipped'
+
+        // Purge HTTP caches (CDN, Varnish) by the same tags the Remix app
+        // sends in its Surrogate-Key and Cache-Tag response headers
+        const purgeUrl = process.env.HTTP_CACHE_PURGE_URL
+        if (purgeUrl && tags.length > 0) {
+          const purge = await fetch(purgeUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Surrogate-Key': tags.join(' '),
+              'Cache-Tag': tags.join(','),
+              ...(process.env.HTTP_CACHE_PURGE_TOKEN
+                ? { Authorization: `Bearer ${process.env.HTTP_CACHE_PURGE_TOKEN}` }
+                : {})
+            },
+            body: JSON.stringify({ tags }),
+            signal: AbortSignal.timeout(5000)
+          })
+          httpCache = purge.ok ? 'purged' : `failed: HTTP ${purge.status}`
+        }
+
+        request.log.info({ event: result.event, tags, purged: result.purged, httpCache }, 'WordPress cache invalidated')
+
         return {
-          status: 'unhealthy',
-          services: {
-            wordpress: 'disconnected',
-            composer: 'running'
-          },
-          timestamp: new Date().toISOString()
+          status: 'ok',
+          tags,
+          purged: result.purged ?? 0,
+          httpCache
+        }
+      } catch (error) {
+        request.log.error({ err: error }, 'WordPress cache invalidation failed')
+        reply.code(502)
+        return {
+          error: 'Cache invalidation failed',
+          details: error instanceof Error ? error.message : 'Unknown error'
         }
       }
-    } catch (error) {
-      reply.code(503)
-      return {
-        status: 'unhealthy',
-        services: {
-          wordpress: 'error',
-          composer: 'running'
-        },
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString()
-      }
-    }
-  })
-
-  // Add WordPress API proxy enhancement
-  fastify.addHook('onResponse', async (request, reply) => {
-    // Log WordPress API requests for debugging
-    if (request.url.startsWith('/wp/wp-json/')) {
-      fastify.log.info({
-        method: request.method,
-        url: request.url,
-        statusCode: reply.statusCode,
-        responseTime: reply.elapsedTime
-      }, 'WordPress API request completed')
-    }
+    })
   })
 
   // Add custom WordPress endpoints
@@ -86,7 +148,8 @@ export default async function wordpressApiPlugin(
     try {
       // Get WordPress site info
       const response = await fetch('http://wp.plt.local/wp-json/wp/v2/', {
-        timeout: 5000
+        headers: { traceparent: request.trace.traceparent },
+        signal: AbortSignal.timeout(5000)
       })
       
       if (!response.ok) {
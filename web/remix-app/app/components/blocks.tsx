@@ -0,0 +1,583 @@
+/**
+ * Block renderer
+ *
+ * Renders parsed WordPress blocks, mapping the core blocks that benefit
+ * from it to React components; every other block renders its saved HTML.
+ * Links to this site navigate client-side.
+ */
+import { createElement, type MouseEvent, type ReactNode } from "react";
+import { Link, useNavigate } from "@remix-run/react";
+import { numberAttr, serializeBlock, stringAttr, type Block } from "~/lib/blocks";
+import type { FeaturedImage } from "~/lib/embedded";
+import { WpImage } from "~/components/wp-image";
+
+/**
+ * Media items for image and gallery blocks, keyed by ID
+ */
+export type BlockMedia = Record<number, FeaturedImage>;
+
+interface BlockProps {
+  block: Block;
+  media: BlockMedia;
+}
+
+/**
+ * Grid classes per gallery column count (literal for Tailwind)
+ */
+const GALLERY_COLUMNS: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+  5: 'md:grid-cols-5',
+  6: 'md:grid-cols-6',
+};
+
+const JUSTIFY: Record<string, string> = {
+  left: 'justify-start',
+  center: 'justify-center',
+  right: 'justify-end',
+  'space-between': 'justify-between',
+};
+
+const ALIGN_ITEMS: Record<string, string> = {
+  top: 'md:items-start',
+  center: 'md:items-center',
+  bottom: 'md:items-end',
+};
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * A CSS length for inline styles (e.g. column widths); WordPress before
+ * 5.x saved widths as bare percentages
+ */
+function toCssLength(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return `${value}%`;
+  }
+
+  if (typeof value === 'string' && /^\d+(\.\d+)?(px|em|rem|%|vw|vh|ch)$/.test(value.trim())) {
+    return value.trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * An attribute of the first `tag` element in `html`
+ */
+function getAttribute(html: string, tag: string, name: string): string | undefined {
+  const element = html.match(new RegExp(`<${tag}\\b[^>]*>`, 'i'))?.[0];
+  const value = element?.match(new RegExp(`\\s${name}="([^"]*)"`, 'i'))?.[1];
+
+  return value === undefined ? undefined : decodeAttribute(value);
+}
+
+/**
+ * The contents of the first `tag` element in `html`
+ */
+function getInnerHTML(html: string, tag: string): string | undefined {
+  return html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'))?.[1];
+}
+
+/**
+ * The local path for links to this site, `null` for other links
+ */
+export function toInternalPath(href: string | null | undefined): string | null {
+  if (!href || href.startsWith('//')) {
+    return null;
+  }
+
+  if (href.startsWith('/')) {
+    return href;
+  }
+
+  if (typeof window !== 'undefined' && /^https?:/i.test(href)) {
+    try {
+      const url = new URL(href);
+      if (url.origin === window.location.origin) {
+        return `${url.pathname}${url.search}${url.hash}`;
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Click handler turning plain links inside rendered HTML into client-side
+ * navigation; modified clicks and links to other tabs keep their default
+ */
+function useInternalLinkClicks() {
+  const navigate = useNavigate();
+
+  return (event: MouseEvent<HTMLElement>) => {
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey || event.ctrlKey || event.shiftKey || event.altKey
+    ) {
+      return;
+    }
+
+    const anchor = (event.target as HTMLElement).closest('a');
+    if (!anchor || (anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download')) {
+      return;
+    }
+
+    const path = toInternalPath(anchor.getAttribute('href'));
+    if (path) {
+      event.preventDefault();
+      navigate(path);
+    }
+  };
+}
+
+interface BlockLinkProps {
+  href: string;
+  target?: string;
+  rel?: string;
+  className?: string;
+  children: ReactNode;
+}
+
+function BlockLink({ href, target, rel, className, children }: BlockLinkProps) {
+  const path = toInternalPath(href);
+
+  if (path && !target) {
+    return (
+      <Link to={path} prefetch="intent" className={className}>
+        {children}
+      </Link>
+    );
+  }
+
+  return (
+    <a href={href} target={target} rel={rel} className={className}>
+      {children}
+    </a>
+  );
+}
+
+function Caption({ html }: { html?: string }) {
+  if (!html?.trim()) {
+    return null;
+  }
+
+  return (
+    <figcaption
+      className="mt-2 text-sm text-gray-500 text-center"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+function ImageBlock({ block, media }: BlockProps) {
+  const html = serializeBlock(block);
+  const id = numberAttr(block, 'id');
+  const sizeSlug = stringAttr(block, 'sizeSlug');
+  const align = stringAttr(block, 'align');
+  const image = id !== undefined ? media[id] : undefined;
+  const src = getAttribute(html, 'img', 'src');
+  const alt = getAttribute(html, 'img', 'alt') ?? image?.alt ?? '';
+  const href = getAttribute(html, 'a', 'href');
+
+  if (!image && !src) {
+    return null;
+  }
+
+  // Images inserted at a smaller size are never rendered wider than it
+  const rendition = image?.sizes.find(size => size.name === sizeSlug);
+  const sizes = rendition && sizeSlug !== 'full' && sizeSlug !== 'large'
+    ? `(min-width: ${rendition.width}px) ${rendition.width}px, 100vw`
+    : "(min-width: 896px) 896px, 100vw";
+
+  const img = image ? (
+    <WpImage image={{ ...image, alt }} sizes={sizes} className="rounded-lg" />
+  ) : (
+    <img
+      src={src}
+      alt={alt}
+      width={Number(getAttribute(html, 'img', 'width')) || undefined}
+      height={Number(getAttribute(html, 'img', 'height')) || undefined}
+      loading="lazy"
+      decoding="async"
+      className="rounded-lg"
+    />
+  );
+
+  return (
+    <figure className={`wp-block-image ${align ? `align${align}` : ''}`}>
+      {href ? (
+        <BlockLink
+          href={href}
+          target={getAttribute(html, 'a', 'target')}
+          rel={getAttribute(html, 'a', 'rel')}
+        >
+          {img}
+        </BlockLink>
+      ) : img}
+      <Caption html={getInnerHTML(html, 'figcaption')} />
+    </figure>
+  );
+}
+
+function GalleryBlock({ block, media }: BlockProps) {
+  const { ids } = block.attrs;
+  const legacyImages = block.innerBlocks.length === 0 && Array.isArray(ids)
+    ? ids.filter((id): id is number => typeof id === 'number').map(id => media[id]).filter(Boolean)
+    : [];
+
+  // Legacy galleries whose media could not be loaded keep their HTML
+  if (block.innerBlocks.length === 0 && legacyImages.length === 0) {
+    return <HtmlBlock block={block} media={media} />;
+  }
+
+  const count = block.innerBlocks.length || legacyImages.length;
+  const columns = Math.min(numberAttr(block, 'columns') ?? Math.min(count, 3), 6);
+  const captionHTML = block.innerContent
+    .filter((chunk): chunk is string => chunk !== null)
+    .map(chunk => getInnerHTML(chunk, 'figcaption'))
+    .find(Boolean);
+
+  return (
+    <figure className="wp-block-gallery not-prose my-8">
+      <ul className={`grid grid-cols-2 gap-4 ${GALLERY_COLUMNS[columns] ?? ''}`}>
+        {block.innerBlocks.length > 0
+          ? block.innerBlocks.map((image, index) => (
+              <li key={index}>
+                <ImageBlock block={image} media={media} />
+              </li>
+            ))
+          : legacyImages.map(image => (
+              <li key={image.id}>
+                <WpImage
+                  image={image}
+                  sizes={`(min-width: 896px) ${Math.round(896 / columns)}px, 50vw`}
+                  className="w-full h-full object-cover rounded-lg"
+                />
+              </li>
+            ))}
+      </ul>
+      <Caption html={captionHTML} />
+    </figure>
+  );
+}
+
+/**
+ * Whether `url` is an absolute `http:` or `https:` URL
+ */
+function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Player URL for the video providers embedded inline
+ */
+function toEmbedSrc(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^www\./, '');
+
+  if (host === 'youtube.com' || host === 'm.youtube.com') {
+    const id = parsed.searchParams.get('v');
+    return id ? `https://www.youtube-nocookie.com/embed/${encodeURIComponent(id)}` : null;
+  }
+
+  if (host === 'youtu.be') {
+    const id = parsed.pathname.slice(1);
+    return id ? `https://www.youtube-nocookie.com/embed/${encodeURIComponent(id)}` : null;
+  }
+
+  if (host === 'vimeo.com') {
+    const id = parsed.pathname.split('/').filter(Boolean).find(segment => /^\d+$/.test(segment));
+    return id ? `https://player.vimeo.com/video/${id}` : null;
+  }
+
+  return null;
+}
+
+function EmbedBlock({ block }: BlockProps) {
+  const url = stringAttr(block, 'url') ?? '';
+  const src = toEmbedSrc(url);
+  const caption = getInnerHTML(serializeBlock(block), 'figcaption');
+  const aspect = (stringAttr(block, 'className') ?? '').match(/wp-embed-aspect-(\d+)-(\d+)/);
+
+  // The URL comes from the block's attributes, not the sanitized HTML
+  if (!isHttpUrl(url)) {
+    return null;
+  }
+
+  return (
+    <figure className="wp-block-embed my-8">
+      {src ? (
+        <div
+          className="relative w-full overflow-hidden rounded-lg bg-gray-100"
+          style={{ aspectRatio: aspect ? `${aspect[1]} / ${aspect[2]}` : '16 / 9' }}
+        >
+          <iframe
+            src={src}
+            title={`${stringAttr(block, 'providerNameSlug') || 'Embedded'} content`}
+            loading="lazy"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+            className="absolute inset-0 w-full h-full border-0"
+          />
+        </div>
+      ) : (
+        <a href={url} target="_blank" rel="noopener noreferrer" className="break-all">
+          {url}
+        </a>
+      )}
+      <Caption html={caption} />
+    </figure>
+  );
+}
+
+function CodeBlock({ block }: BlockProps) {
+  const html = serializeBlock(block);
+  const code = getInnerHTML(html, 'code') ?? getInnerHTML(html, 'pre') ?? '';
+
+  return (
+    <pre className={`wp-block-code overflow-x-auto ${stringAttr(block, 'className') ?? ''}`}>
+      <code dangerouslySetInnerHTML={{ __html: code }} />
+    </pre>
+  );
+}
+
+function QuoteBlock({ block, media }: BlockProps) {
+  // Quotes before WordPress 6.2 keep their paragraphs in the block HTML
+  if (block.innerBlocks.length === 0) {
+    return (
+      <blockquote
+        className="wp-block-quote"
+        dangerouslySetInnerHTML={{ __html: getInnerHTML(serializeBlock(block), 'blockquote') ?? '' }}
+      />
+    );
+  }
+
+  const citation = block.innerContent
+    .filter((chunk): chunk is string => chunk !== null)
+    .map(chunk => getInnerHTML(chunk, 'cite'))
+    .find(Boolean);
+
+  return (
+    <blockquote className="wp-block-quote">
+      <Blocks blocks={block.innerBlocks} media={media} />
+      {citation && <cite dangerouslySetInnerHTML={{ __html: citation }} />}
+    </blockquote>
+  );
+}
+
+function TableBlock({ block }: BlockProps) {
+  const html = serializeBlock(block);
+  const table = getInnerHTML(html, 'table');
+
+  if (table === undefined) {
+    return <HtmlBlock block={block} media={{}} />;
+  }
+
+  return (
+    <figure className="wp-block-table my-8">
+      <div className="overflow-x-auto">
+        <table dangerouslySetInnerHTML={{ __html: table }} />
+      </div>
+      <Caption html={getInnerHTML(html, 'figcaption')} />
+    </figure>
+  );
+}
+
+function ColumnsBlock({ block, media }: BlockProps) {
+  const align = ALIGN_ITEMS[stringAttr(block, 'verticalAlignment') ?? ''] ?? '';
+
+  return (
+    <div className={`wp-block-columns flex flex-col gap-8 md:flex-row my-8 ${align}`}>
+      {block.innerBlocks.map((column, index) => {
+        const width = toCssLength(column.attrs.width);
+
+        return (
+          <div
+            key={index}
+            className={`wp-block-column min-w-0 ${width ? 'md:flex-none md:basis-[var(--column-width)]' : 'md:flex-1'}`}
+            style={width ? { '--column-width': width } as React.CSSProperties : undefined}
+          >
+            <Blocks blocks={column.innerBlocks} media={media} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ButtonsBlock({ block }: BlockProps) {
+  const { layout } = block.attrs;
+  const justifyContent = layout && typeof layout === 'object' && 'justifyContent' in layout
+    ? layout.justifyContent
+    : undefined;
+  const justify = typeof justifyContent === 'string' ? JUSTIFY[justifyContent] ?? '' : '';
+
+  return (
+    <div className={`wp-block-buttons not-prose flex flex-wrap gap-4 my-8 ${justify}`}>
+      {block.innerBlocks.map((button, index) => {
+        const html = serializeBlock(button);
+        const href = getAttribute(html, 'a', 'href');
+        const label = getInnerHTML(html, 'a') ?? getInnerHTML(html, 'button') ?? '';
+        const className = (stringAttr(button, 'className') ?? '').includes('is-style-outline')
+          ? 'btn btn-secondary'
+          : 'btn';
+        const content = <span dangerouslySetInnerHTML={{ __html: label }} />;
+
+        return href ? (
+          <BlockLink
+            key={index}
+            href={href}
+            target={getAttribute(html, 'a', 'target')}
+            rel={getAttribute(html, 'a', 'rel')}
+            className={className}
+          >
+            {content}
+          </BlockLink>
+        ) : (
+          <span key={index} className={className}>{content}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * The opening tag around a block's inner blocks, when the rest of its
+ * HTML is only the matching closing tag (e.g. `core/group`)
+ */
+function getWrapper(block: Block): { tag: string; className?: string } | null {
+  const chunks = block.innerContent;
+  const opening = chunks[0]?.match(/^\s*<([a-z][a-z0-9]*)\b([^>]*)>\s*$/i);
+
+  if (!opening) {
+    return null;
+  }
+
+  const [, tag, attributes] = opening;
+  const closing = new RegExp(`^\\s*</${tag}>\\s*$`, 'i');
+  const last = chunks[chunks.length - 1];
+  const between = chunks.slice(1, -1).every(chunk => chunk === null || !chunk.trim());
+
+  if (typeof last !== 'string' || !closing.test(last) || !between) {
+    return null;
+  }
+
+  const className = attributes.match(/\sclass="([^"]*)"/i)?.[1];
+
+  return { tag: tag.toLowerCase(), className: className && decodeAttribute(className) };
+}
+
+/**
+ * Fallback for blocks without a component: container blocks keep
+ * rendering their inner blocks, anything else renders its HTML
+ */
+function HtmlBlock({ block, media }: BlockProps) {
+  if (block.rendered === undefined && block.innerBlocks.length > 0) {
+    const wrapper = getWrapper(block);
+
+    if (wrapper) {
+      return createElement(
+        wrapper.tag,
+        { className: wrapper.className },
+        <Blocks blocks={block.innerBlocks} media={media} />
+      );
+    }
+  }
+
+  const html = serializeBlock(block);
+
+  if (!html.trim()) {
+    return null;
+  }
+
+  return <div className="contents" dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+function BlockRenderer({ block, media }: BlockProps) {
+  switch (block.blockName) {
+    case 'core/image':
+      return <ImageBlock block={block} media={media} />;
+    case 'core/gallery':
+      return <GalleryBlock block={block} media={media} />;
+    case 'core/embed':
+      return <EmbedBlock block={block} media={media} />;
+    case 'core/code':
+      return <CodeBlock block={block} media={media} />;
+    case 'core/quote':
+      return <QuoteBlock block={block} media={media} />;
+    case 'core/table':
+      return <TableBlock block={block} media={media} />;
+    case 'core/columns':
+      return <ColumnsBlock block={block} media={media} />;
+    case 'core/buttons':
+      return <ButtonsBlock block={block} media={media} />;
+    default:
+      return <HtmlBlock block={block} media={media} />;
+  }
+}
+
+export function Blocks({ blocks, media }: { blocks: Block[]; media: BlockMedia }) {
+  return (
+    <>
+      {blocks.map((block, index) => (
+        <BlockRenderer key={index} block={block} media={media} />
+      ))}
+    </>
+  );
+}
+
+interface BlockContentProps {
+  /** Parsed blocks; `null` renders `html` instead */
+  blocks: Block[] | null;
+  /** Rendered HTML, for content without block data */
+  html: string;
+  media?: BlockMedia;
+  className?: string;
+}
+
+/**
+ * Post or page content, rendered from blocks when they are available
+ */
+export function BlockContent({ blocks, html, media = {}, className = "" }: BlockContentProps) {
+  const onClick = useInternalLinkClicks();
+
+  if (!blocks) {
+    return (
+      <div
+        className={className}
+        onClick={onClick}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  }
+
+  return (
+    <div className={className} onClick={onClick}>
+      <Blocks blocks={blocks} media={media} />
+    </div>
+  );
+}
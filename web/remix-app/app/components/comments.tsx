@@ -0,0 +1,345 @@
+/**
+ * Post comments
+ * Threaded comment list and the comment form, which submits through a
+ * fetcher and still works as a plain form without JavaScript
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useActionData, useFetcher, useLocation } from "@remix-run/react";
+import type { CommentNode, CommentThreads } from "~/lib/comments";
+import { HONEYPOT_FIELD, type CommentActionResult, type CommentFormErrors } from "~/lib/comment-form";
+
+const INPUT_CLASS = "w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+function findComment(comments: CommentNode[], id: number): CommentNode | null {
+  for (const comment of comments) {
+    if (comment.id === id) return comment;
+    const found = findComment(comment.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Link to the comment form, replying to `commentId`; keeps the comment page
+ */
+function replyHref(commentId: number, page: number): string {
+  const params = new URLSearchParams();
+  if (page > 1) params.set('cpage', page.toString());
+  params.set('replytocom', commentId.toString());
+  return `?${params}#respond`;
+}
+
+interface CommentItemProps {
+  comment: CommentNode;
+  page: number;
+  open: boolean;
+  onReply: (commentId: number) => void;
+}
+
+function CommentItem({ comment, page, open, onReply }: CommentItemProps) {
+  const authorUrl = /^https?:\/\//i.test(comment.authorUrl) ? comment.authorUrl : '';
+
+  return (
+    <li id={`comment-${comment.id}`}>
+      <article className="flex gap-4 py-4">
+        {comment.avatar ? (
+          <img
+            src={comment.avatar}
+            alt=""
+            width={48}
+            height={48}
+            loading="lazy"
+            className="w-12 h-12 rounded-full flex-shrink-0"
+          />
+        ) : (
+          <div className="w-12 h-12 rounded-full bg-gray-200 flex-shrink-0" />
+        )}
+
+        <div className="flex-1 min-w-0">
+          <header className="flex items-center gap-3 text-sm mb-2">
+            {authorUrl ? (
+              <a
+                href={authorUrl}
+                rel="external nofollow ugc"
+                className="font-semibold text-gray-900 hover:text-blue-600"
+              >
+                {comment.authorName}
+              </a>
+            ) : (
+              <span className="font-semibold text-gray-900">{comment.authorName}</span>
+            )}
+            <a href={`#comment-${comment.id}`} className="text-gray-500 hover:text-gray-700">
+              <time dateTime={comment.date}>
+                {new Date(comment.date).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric'
+                })}
+              </time>
+            </a>
+          </header>
+
+          <div
+            className="prose max-w-none text-gray-700"
+            dangerouslySetInnerHTML={{ __html: comment.content }}
+          />
+
+          {open && (
+            <a
+              href={replyHref(comment.id, page)}
+              onClick={(event) => {
+                event.preventDefault();
+                onReply(comment.id);
+                document.getElementById('respond')?.scrollIntoView({ behavior: 'smooth' });
+              }}
+              className="inline-block mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              Reply
+            </a>
+          )}
+        </div>
+      </article>
+
+      {comment.children.length > 0 && (
+        <ol className="ml-8 pl-4 border-l-2 border-gray-100">
+          {comment.children.map(child => (
+            <CommentItem key={child.id} comment={child} page={page} open={open} onReply={onReply} />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+}
+
+function FieldError({ errors, field }: { errors?: CommentFormErrors; field: keyof CommentFormErrors }) {
+  return errors?.[field] ? (
+    <p id={`comment-${field}-error`} className="mt-1 text-sm text-red-600">{errors[field]}</p>
+  ) : null;
+}
+
+interface CommentFormProps {
+  /** Comment being replied to; 0 for a top-level comment */
+  replyTo: number;
+  /** Author of that comment, when it is on this page */
+  replyToName?: string;
+  onCancelReply: () => void;
+}
+
+function CommentForm({ replyTo, replyToName, onCancelReply }: CommentFormProps) {
+  const fetcher = useFetcher<CommentActionResult>();
+  const actionData = useActionData<CommentActionResult>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const result = fetcher.data ?? actionData;
+  const errors = result && !result.ok ? result.errors : undefined;
+  const values = result && !result.ok ? result.values : undefined;
+  const submitting = fetcher.state !== 'idle';
+
+  // Clear the form once a comment went through
+  useEffect(() => {
+    if (fetcher.state === 'idle' && fetcher.data?.ok) {
+      formRef.current?.reset();
+      onCancelReply();
+    }
+  }, [fetcher.state, fetcher.data, onCancelReply]);
+
+  const describedBy = (field: keyof CommentFormErrors) =>
+    errors?.[field] ? `comment-${field}-error` : undefined;
+
+  return (
+    <div id="respond" className="mt-8">
+      <h3 className="text-xl font-semibold text-gray-900 mb-4">
+        {replyTo ? `Reply to ${replyToName ?? 'comment'}` : 'Leave a comment'}
+      </h3>
+
+      {replyTo > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          <a
+            href="#respond"
+            onClick={(event) => {
+              event.preventDefault();
+              onCancelReply();
+            }}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Cancel reply
+          </a>
+        </p>
+      )}
+
+      {result?.ok && (
+        <div role="status" className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+          {result.status === 'approved'
+            ? 'Thanks, your comment has been posted.'
+            : 'Thanks, your comment is awaiting moderation and will appear once it is approved.'}
+        </div>
+      )}
+
+      {errors?.form && (
+        <div role="alert" className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          {errors.form}
+        </div>
+      )}
+
+      <fetcher.Form ref={formRef} method="post" preventScrollReset className="space-y-4">
+        <input type="hidden" name="parent" value={replyTo} />
+
+        {/* Left empty by people; bots that fill it in are ignored */}
+        <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+          <label htmlFor={`comment-${HONEYPOT_FIELD}`}>Leave this field empty</label>
+          <input
+            type="text"
+            id={`comment-${HONEYPOT_FIELD}`}
+            name={HONEYPOT_FIELD}
+            tabIndex={-1}
+            autoComplete="off"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="comment-content" className="block text-sm font-medium text-gray-700 mb-1">
+            Comment
+          </label>
+          <textarea
+            id="comment-content"
+            name="content"
+            rows={6}
+            required
+            defaultValue={values?.content}
+            aria-invalid={errors?.content ? true : undefined}
+            aria-describedby={describedBy('content')}
+            className={INPUT_CLASS}
+          />
+          <FieldError errors={errors} field="content" />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <label htmlFor="comment-name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              id="comment-name"
+              name="name"
+              required
+              maxLength={245}
+              autoComplete="name"
+              defaultValue={values?.name}
+              aria-invalid={errors?.name ? true : undefined}
+              aria-describedby={describedBy('name')}
+              className={INPUT_CLASS}
+            />
+            <FieldError errors={errors} field="name" />
+          </div>
+
+          <div>
+            <label htmlFor="comment-email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email <span className="font-normal text-gray-500">(not published)</span>
+            </label>
+            <input
+              type="email"
+              id="comment-email"
+              name="email"
+              required
+              maxLength={100}
+              autoComplete="email"
+              defaultValue={values?.email}
+              aria-invalid={errors?.email ? true : undefined}
+              aria-describedby={describedBy('email')}
+              className={INPUT_CLASS}
+            />
+            <FieldError errors={errors} field="email" />
+          </div>
+
+          <div>
+            <label htmlFor="comment-url" className="block text-sm font-medium text-gray-700 mb-1">
+              Website <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <input
+              type="url"
+              id="comment-url"
+              name="url"
+              maxLength={200}
+              autoComplete="url"
+              defaultValue={values?.url}
+              aria-invalid={errors?.url ? true : undefined}
+              aria-describedby={describedBy('url')}
+              className={INPUT_CLASS}
+            />
+            <FieldError errors={errors} field="url" />
+          </div>
+        </div>
+
+        <button type="submit" className="btn" disabled={submitting}>
+          {submitting ? 'Submitting...' : 'Post Comment'}
+        </button>
+      </fetcher.Form>
+    </div>
+  );
+}
+
+interface CommentsProps {
+  threads: CommentThreads;
+  /** Whether the post accepts new comments */
+  open: boolean;
+  /** Comment to reply to, from `?replytocom=` */
+  replyTo?: number;
+}
+
+export function Comments({ threads, open, replyTo = 0 }: CommentsProps) {
+  const [replyToId, setReplyToId] = useState(replyTo);
+  const cancelReply = useCallback(() => setReplyToId(0), []);
+  const { pathname } = useLocation();
+  const { comments, total, page, totalPages } = threads;
+  const pageHref = (target: number) => `${pathname}${target > 1 ? `?cpage=${target}` : ''}#comments`;
+
+  useEffect(() => {
+    setReplyToId(replyTo);
+  }, [replyTo]);
+
+  return (
+    <section id="comments" className="bg-white rounded-lg shadow-lg p-8 mt-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4">
+        {total === 0 ? 'Comments' : `${total} ${total === 1 ? 'Comment' : 'Comments'}`}
+      </h2>
+
+      {comments.length > 0 ? (
+        <ol className="divide-y divide-gray-100">
+          {comments.map(comment => (
+            <CommentItem key={comment.id} comment={comment} page={page} open={open} onReply={setReplyToId} />
+          ))}
+        </ol>
+      ) : (
+        <p className="text-gray-500">
+          {open ? 'No comments yet. Be the first to share your thoughts.' : 'There are no comments.'}
+        </p>
+      )}
+
+      {totalPages > 1 && (
+        <nav aria-label="Comment pages" className="flex justify-between items-center mt-6">
+          {page > 1 ? (
+            <a href={pageHref(page - 1)} className="btn btn-secondary">
+              ← Older Comments
+            </a>
+          ) : <span />}
+          <span className="text-gray-600">Page {page} of {totalPages}</span>
+          {page < totalPages ? (
+            <a href={pageHref(page + 1)} className="btn btn-secondary">
+              Newer Comments →
+            </a>
+          ) : <span />}
+        </nav>
+      )}
+
+      {open ? (
+        <CommentForm
+          replyTo={replyToId}
+          replyToName={findComment(comments, replyToId)?.authorName}
+          onCancelReply={cancelReply}
+        />
+      ) : (
+        <p className="mt-8 text-gray-500">Comments are closed.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * Custom post type templates
+ * Each post type with a template here renders its ACF fields around the
+ * content; other types use the default template
+ */
+import type { ReactNode } from "react";
+import type { AcfFields, WordPressEntry } from "~/lib/wordpress-api";
+import type { FeaturedImage } from "~/lib/embedded";
+import type { Block } from "~/lib/blocks";
+import "~/lib/acf-fields";
+import { toPlainText } from "~/lib/sanitize";
+import { WpImage } from "~/components/wp-image";
+import { BlockContent, type BlockMedia } from "~/components/blocks";
+
+export interface EntryTemplateProps<TType extends string = string> {
+  entry: WordPressEntry<TType>;
+  image?: FeaturedImage | null;
+  blocks?: Block[] | null;
+  media?: BlockMedia;
+}
+
+type EntryTemplate<TType extends string> = (props: EntryTemplateProps<TType>) => JSX.Element;
+
+function formatDateTime(value: string): string {
+  // ACF's `Y-m-d H:i:s` format, in the site's time zone
+  const date = new Date(value.replace(' ', 'T'));
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'short' });
+}
+
+/**
+ * Featured image, title and content, with template-specific details
+ * between the title and the content
+ */
+function EntryArticle({ entry, image, blocks = null, media, children }: EntryTemplateProps & { children?: ReactNode }) {
+  const title = toPlainText(entry.title?.rendered) || 'Untitled';
+  const content = entry.content?.rendered || '';
+
+  return (
+    <article className="bg-white rounded-lg shadow-lg overflow-hidden">
+      {image && (
+        <WpImage
+          image={image}
+          sizes="(min-width: 896px) 896px, 100vw"
+          priority
+          className="w-full max-h-[32rem] object-cover"
+        />
+      )}
+
+      <header className="p-8 border-b border-gray-200">
+        <h1 className="text-4xl font-bold text-gray-900">
+          {title}
+        </h1>
+        {children && <div className="mt-6">{children}</div>}
+      </header>
+
+      <div className="p-8">
+        {content || blocks ? (
+          <BlockContent
+            blocks={blocks}
+            html={content}
+            media={media}
+            className="prose prose-lg max-w-none"
+          />
+        ) : (
+          <p className="text-center py-12 text-gray-500">No content available.</p>
+        )}
+      </div>
+    </article>
+  );
+}
+
+function DefaultEntryTemplate(props: EntryTemplateProps) {
+  return <EntryArticle {...props} />;
+}
+
+function EventTemplate(props: EntryTemplateProps<'event'>) {
+  const fields = props.entry.acf;
+
+  return (
+    <EntryArticle {...props}>
+      {fields?.start_date && (
+        <dl className="grid gap-4 md:grid-cols-2 text-gray-700">
+          <div>
+            <dt className="text-sm font-medium text-gray-500">When</dt>
+            <dd>
+              <time dateTime={fields.start_date.replace(' ', 'T')}>{formatDateTime(fields.start_date)}</time>
+              {fields.end_date && (
+                <>
+                  {' – '}
+                  <time dateTime={fields.end_date.replace(' ', 'T')}>{formatDateTime(fields.end_date)}</time>
+                </>
+              )}
+            </dd>
+          </div>
+          {fields.venue && (
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Where</dt>
+              <dd>{fields.venue}</dd>
+            </div>
+          )}
+          {fields.registration_url && /^https?:\/\//i.test(fields.registration_url) && (
+            <div className="md:col-span-2">
+              <a href={fields.registration_url} className="btn" rel="noopener noreferrer">
+                Register
+              </a>
+            </div>
+          )}
+        </dl>
+      )}
+    </EntryArticle>
+  );
+}
+
+function CaseStudyTemplate(props: EntryTemplateProps<'case_study'>) {
+  const fields = props.entry.acf;
+
+  return (
+    <EntryArticle {...props}>
+      {fields?.client && (
+        <div className="space-y-6">
+          <p className="text-gray-600">
+            <span className="font-semibold text-gray-900">{fields.client}</span>
+            {fields.industry && <> · {fields.industry}</>}
+          </p>
+
+          {fields.results && fields.results.length > 0 && (
+            <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {fields.results.map((result, index) => (
+                <div key={index} className="flex flex-col-reverse bg-gray-50 rounded-lg p-4">
+                  <dt className="text-sm text-gray-600">{result.metric}</dt>
+                  <dd className="text-2xl font-bold text-blue-600">{result.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          {fields.testimonial && (
+            <blockquote className="border-l-4 border-blue-600 pl-4 italic text-gray-700">
+              {fields.testimonial}
+            </blockquote>
+          )}
+        </div>
+      )}
+    </EntryArticle>
+  );
+}
+
+/**
+ * Templates by post type slug
+ */
+const ENTRY_TEMPLATES: { [TType in keyof AcfFields]?: EntryTemplate<TType> } = {
+  event: EventTemplate,
+  case_study: CaseStudyTemplate,
+};
+
+/**
+ * An entry rendered with its post type's template
+ */
+export function EntryContent(props: EntryTemplateProps) {
+  const Template = (ENTRY_TEMPLATES as Record<string, EntryTemplate<string> | undefined>)[props.entry.type]
+    ?? DefaultEntryTemplate;
+
+  return <Template {...props} />;
+}
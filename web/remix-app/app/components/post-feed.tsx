@@ -0,0 +1,105 @@
+/**
+ * Post listing that loads further pages in place
+ * "Load more" fetches the next page of the current route through a
+ * fetcher, appends its posts and moves the URL to that page, so reloading
+ * or sharing the link lands on the same listing. Without JavaScript the
+ * button is a link to the next page.
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFetcher, useFormAction, useLocation } from "@remix-run/react";
+import type { WordPressPost } from "~/lib/wordpress-api";
+import { pageHref } from "~/lib/pagination";
+import { Pagination, PostGrid } from "~/components/wordpress";
+
+/**
+ * The part of a listing loader's data the feed reads
+ */
+interface PostPageData {
+  posts: WordPressPost[];
+  currentPage: number;
+  totalPages: number;
+}
+
+interface PostFeedProps extends PostPageData {
+  /** Load the next page when the end of the list scrolls into view */
+  infinite?: boolean;
+}
+
+export function PostFeed({ posts: initialPosts, currentPage, totalPages, infinite = false }: PostFeedProps) {
+  const fetcher = useFetcher<PostPageData>();
+  const { pathname, search } = useLocation();
+  // The route's own URL with the current filters; index routes need
+  // `?index` for fetcher loads
+  const routeAction = useFormAction();
+  const [posts, setPosts] = useState(initialPosts);
+  const [lastPage, setLastPage] = useState(currentPage);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  const nextPage = lastPage < totalPages ? lastPage + 1 : null;
+  const loading = fetcher.state === "loading";
+
+  const loadMore = useCallback(() => {
+    if (!nextPage || fetcher.state !== "idle") return;
+
+    const url = new URL(routeAction, window.location.origin);
+    url.searchParams.set("page", nextPage.toString());
+    fetcher.load(`${url.pathname}${url.search}`);
+  }, [fetcher, nextPage, routeAction]);
+
+  // Append each page once, skipping posts that moved between pages
+  useEffect(() => {
+    const data = fetcher.data;
+    if (fetcher.state !== "idle" || !data || data.currentPage !== lastPage + 1) return;
+
+    setPosts(current => {
+      const seen = new Set(current.map(post => post.id));
+      return [...current, ...data.posts.filter(post => !seen.has(post.id))];
+    });
+    setLastPage(data.currentPage);
+
+    // Outside the router, so the listing isn't loaded again
+    window.history.replaceState(window.history.state, "", pageHref(pathname, search, data.currentPage));
+  }, [fetcher.state, fetcher.data, lastPage, pathname, search]);
+
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!infinite || !element || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [infinite, loadMore]);
+
+  return (
+    <>
+      <div className="mb-12">
+        <PostGrid posts={posts} />
+      </div>
+
+      {nextPage && (
+        <div ref={sentinel} className="flex justify-center mb-8">
+          <a
+            href={pageHref(pathname, search, nextPage)}
+            onClick={event => {
+              event.preventDefault();
+              loadMore();
+            }}
+            aria-disabled={loading || undefined}
+            className={`btn ${loading ? "opacity-50 cursor-wait" : ""}`}
+          >
+            {loading ? "Loading..." : "Load more posts"}
+          </a>
+        </div>
+      )}
+
+      <p className="sr-only" role="status">
+        {lastPage > currentPage ? `Showing ${posts.length} posts, up to page ${lastPage} of ${totalPages}` : ""}
+      </p>
+
+      <Pagination currentPage={lastPage} totalPages={totalPages} />
+    </>
+  );
+}
@@ -2,7 +2,18 @@
  * WordPress component library
  * Reusable components for displaying WordPress content
  */
-import type { WordPressPost, WordPressPage } from "~/lib/wordpress";
+import { useState } from "react";
+import { useLocation } from "@remix-run/react";
+import type { WordPressPost, WordPressPage } from "~/lib/wordpress-api";
+import type { WordPressCategory, WordPressTag } from "~/lib/wordpress-api";
+import { getEmbeddedAuthor, getEmbeddedTerms, getFeaturedImage, type FeaturedImage } from "~/lib/embedded";
+import type { MenuItem } from "~/lib/menus";
+import type { PageLink } from "~/lib/page-tree";
+import type { Block } from "~/lib/blocks";
+import { toPlainText } from "~/lib/sanitize";
+import { ELLIPSIS, pageHref, pageRange } from "~/lib/pagination";
+import { WpImage } from "~/components/wp-image";
+import { BlockContent, type BlockMedia } from "~/components/blocks";
 
 interface PostCardProps {
   post: WordPressPost;
@@ -10,14 +21,31 @@ interface PostCardProps {
 }
 
 export function PostCard({ post, featured = false }: PostCardProps) {
-  const title = post.title?.rendered || 'Untitled';
-  const excerpt = post.excerpt?.rendered?.replace(/<[^>]*>/g, '') || '';
+  const title = toPlainText(post.title?.rendered) || 'Untitled';
+  const excerpt = toPlainText(post.excerpt?.rendered);
+  const image = getFeaturedImage(post);
+  const author = getEmbeddedAuthor(post);
+  const { categories } = getEmbeddedTerms(post);
   
   return (
     <article className={`bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow ${
       featured ? 'md:col-span-2 lg:col-span-2' : ''
     }`}>
+      {image && (
+        <a href={`/posts/${post.slug}`} className="block">
+          <WpImage
+            image={image}
+            sizes={featured ? "(min-width: 1024px) 640px, 100vw" : "(min-width: 1024px) 320px, (min-width: 768px) 50vw, 100vw"}
+            className="w-full h-48 object-cover"
+          />
+        </a>
+      )}
+
       <div className="p-6">
+        {categories.length > 0 && (
+          <TermChips terms={categories} basePath="/category" className="mb-3" />
+        )}
+
         <h3 className={`font-semibold text-gray-900 mb-3 ${
           featured ? 'text-2xl' : 'text-xl'
         }`}>
@@ -38,13 +66,23 @@ export function PostCard({ post, featured = false }: PostCardProps) {
         )}
         
         <div className="flex justify-between items-center text-sm text-gray-500">
-          <time dateTime={post.date}>
-            {new Date(post.date).toLocaleDateString('en-US', {
-              year: 'numeric',
-              month: 'long',
-              day: 'numeric'
-            })}
-          </time>
+          <span>
+            <time dateTime={post.date}>
+              {new Date(post.date).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+              })}
+            </time>
+            {author && (
+              <>
+                {' · '}
+                <a href={`/authors/${author.slug}`} className="hover:text-blue-600">
+                  {author.name}
+                </a>
+              </>
+            )}
+          </span>
           <a 
             href={`/posts/${post.slug}`}
             className="text-blue-600 hover:text-blue-800 font-medium"
@@ -57,6 +95,29 @@ export function PostCard({ post, featured = false }: PostCardProps) {
   );
 }
 
+interface TermChipsProps {
+  terms: Array<WordPressCategory | WordPressTag>;
+  basePath: '/category' | '/tag';
+  className?: string;
+}
+
+export function TermChips({ terms, basePath, className = "" }: TermChipsProps) {
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`}>
+      {terms.map((term) => (
+        <li key={term.id}>
+          <a
+            href={`${basePath}/${term.slug}`}
+            className="inline-block px-3 py-1 text-xs font-medium rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors"
+          >
+            {basePath === '/tag' ? `#${term.name}` : term.name}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface PostGridProps {
   posts: WordPressPost[];
   featuredFirst?: boolean;
@@ -85,16 +146,164 @@ export function PostGrid({ posts, featuredFirst = false }: PostGridProps) {
   );
 }
 
+interface TermHeaderProps {
+  label: string;
+  name: string;
+  description?: string;
+  count: number;
+}
+
+export function TermHeader({ label, name, description, count }: TermHeaderProps) {
+  return (
+    <header className="mb-12">
+      <p className="text-sm font-semibold uppercase tracking-wide text-blue-600 mb-2">
+        {label}
+      </p>
+      <h1 className="text-4xl font-bold text-gray-900 mb-4">
+        {name}
+      </h1>
+      {description && (
+        <p className="text-xl text-gray-600 mb-4">
+          {description}
+        </p>
+      )}
+      <p className="text-sm text-gray-500">
+        {count === 1 ? '1 post' : `${count} posts`}
+      </p>
+    </header>
+  );
+}
+
+interface PreviewBannerProps {
+  status: string;
+  modified: string;
+  exitTo?: string;
+}
+
+export function PreviewBanner({ status, modified, exitTo = "/" }: PreviewBannerProps) {
+  return (
+    <div className="bg-amber-100 border border-amber-400 text-amber-900 px-4 py-3 rounded mb-8 flex items-center justify-between" role="status">
+      <p>
+        <strong className="uppercase tracking-wide mr-2">Preview</strong>
+        {status === 'publish' ? 'Unpublished changes' : `Status: ${status}`}
+        {' · '}last saved{' '}
+        <time dateTime={modified}>
+          {new Date(modified).toLocaleString('en-US', {
+            dateStyle: 'medium',
+            timeStyle: 'short'
+          })}
+        </time>
+      </p>
+      <a
+        href={`/preview?exit=1&to=${encodeURIComponent(exitTo)}`}
+        className="font-medium underline hover:text-amber-700"
+      >
+        Exit preview
+      </a>
+    </div>
+  );
+}
+
+interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+}
+
+/**
+ * Numbered page links for the current listing, keeping its other query
+ * parameters
+ */
+export function Pagination({ currentPage, totalPages }: PaginationProps) {
+  const { pathname, search } = useLocation();
+
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const prevPage = currentPage > 1 ? currentPage - 1 : null;
+  const nextPage = currentPage < totalPages ? currentPage + 1 : null;
+
+  return (
+    <nav aria-label="Pagination" className="flex flex-wrap justify-center items-center gap-2">
+      {prevPage ? (
+        <a
+          href={pageHref(pathname, search, prevPage)}
+          rel="prev"
+          className="btn btn-secondary"
+        >
+          ← Previous
+        </a>
+      ) : (
+        <span className="btn btn-secondary opacity-50 cursor-not-allowed">
+          ← Previous
+        </span>
+      )}
+
+      <ol className="flex items-center gap-1">
+        {pageRange(currentPage, totalPages).map((page, index) => (
+          <li key={page === ELLIPSIS ? `ellipsis-${index}` : page}>
+            {page === ELLIPSIS ? (
+              <span className="px-2 text-gray-500" aria-hidden="true">…</span>
+            ) : page === currentPage ? (
+              <span
+                aria-current="page"
+                className="inline-block min-w-[2.5rem] px-3 py-2 rounded-md bg-blue-600 text-white text-center font-medium"
+              >
+                {page}
+              </span>
+            ) : (
+              <a
+                href={pageHref(pathname, search, page)}
+                aria-label={`Page ${page}`}
+                className="inline-block min-w-[2.5rem] px-3 py-2 rounded-md text-center text-gray-700 hover:bg-gray-200"
+              >
+                {page}
+              </a>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {nextPage ? (
+        <a
+          href={pageHref(pathname, search, nextPage)}
+          rel="next"
+          className="btn btn-secondary"
+        >
+          Next →
+        </a>
+      ) : (
+        <span className="btn btn-secondary opacity-50 cursor-not-allowed">
+          Next →
+        </span>
+      )}
+    </nav>
+  );
+}
+
 interface PageContentProps {
   page: WordPressPage;
+  /** Featured image resolved by the loader; defaults to the embedded one */
+  image?: FeaturedImage | null;
+  /** Parsed content blocks; without them the rendered HTML is shown */
+  blocks?: Block[] | null;
+  media?: BlockMedia;
 }
 
-export function PageContent({ page }: PageContentProps) {
-  const title = page.title?.rendered || 'Untitled';
+export function PageContent({ page, image = getFeaturedImage(page), blocks = null, media }: PageContentProps) {
+  const title = toPlainText(page.title?.rendered) || 'Untitled';
   const content = page.content?.rendered || '';
 
   return (
     <article className="bg-white rounded-lg shadow-lg overflow-hidden">
+      {image && (
+        <WpImage
+          image={image}
+          priority
+          className="w-full max-h-96 object-cover"
+        />
+      )}
+
       <header className="p-8 border-b border-gray-200">
         <h1 className="text-4xl font-bold text-gray-900 mb-4">
           {title}
@@ -124,10 +333,12 @@ export function PageContent({ page }: PageContentProps) {
       </header>
 
       <div className="p-8">
-        {content ? (
-          <div 
+        {content || blocks ? (
+          <BlockContent
+            blocks={blocks}
+            html={content}
+            media={media}
             className="prose prose-lg max-w-none"
-            dangerouslySetInnerHTML={{ __html: content }}
           />
         ) : (
           <div className="text-center py-12">
@@ -139,55 +350,199 @@ export function PageContent({ page }: PageContentProps) {
   );
 }
 
+interface BreadcrumbsProps {
+  /** Ancestors, root first */
+  items: PageLink[];
+  current: string;
+  className?: string;
+}
+
+export function Breadcrumbs({ items, current, className = "" }: BreadcrumbsProps) {
+  return (
+    <nav aria-label="Breadcrumb" className={className}>
+      <ol className="flex flex-wrap items-center text-sm text-gray-500">
+        {[{ id: 0, title: 'Home', path: '/' }, ...items].map((item) => (
+          <li key={item.id} className="flex items-center">
+            <a
+              href={item.path}
+              className="text-blue-600 hover:text-blue-800 font-medium"
+            >
+              {item.title}
+            </a>
+            <span className="mx-2" aria-hidden="true">/</span>
+          </li>
+        ))}
+        <li aria-current="page" className="text-gray-700">
+          {current}
+        </li>
+      </ol>
+    </nav>
+  );
+}
+
+interface ChildPagesProps {
+  pages: PageLink[];
+  className?: string;
+}
+
+export function ChildPages({ pages, className = "" }: ChildPagesProps) {
+  return (
+    <section className={className}>
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">
+        In this section
+      </h2>
+      <ul className="grid gap-4 md:grid-cols-2">
+        {pages.map((page) => (
+          <li key={page.id}>
+            <a
+              href={page.path}
+              className="block bg-white rounded-lg shadow-md p-6 font-semibold text-gray-900 hover:text-blue-600 hover:shadow-lg transition-shadow"
+            >
+              {page.title} →
+            </a>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+interface MenuLinkProps {
+  item: MenuItem;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+function MenuLink({ item, className = "", children }: MenuLinkProps) {
+  return (
+    <a
+      href={item.url}
+      target={item.target}
+      rel={item.target === '_blank' ? 'noopener noreferrer' : undefined}
+      className={className}
+    >
+      {children ?? item.label}
+    </a>
+  );
+}
+
+function MobileMenuItems({ items, depth = 0 }: { items: MenuItem[]; depth?: number }) {
+  return (
+    <ul className={depth > 0 ? 'pl-4 border-l border-gray-200 ml-3' : 'space-y-1'}>
+      {items.map((item) => (
+        <li key={item.id}>
+          <MenuLink
+            item={item}
+            className="block py-2 px-3 rounded-md text-gray-600 hover:text-blue-600 hover:bg-gray-100"
+          />
+          {item.children.length > 0 && (
+            <MobileMenuItems items={item.children} depth={depth + 1} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface NavigationProps {
+  items: MenuItem[];
   className?: string;
 }
 
-export function Navigation({ className = "" }: NavigationProps) {
-  const navItems = [
-    { label: 'Home', href: '/' },
-    { label: 'Blog', href: '/posts' },
-    { label: 'About', href: '/about' },
-    { label: 'Contact', href: '/contact' }
-  ];
+export function Navigation({ items, className = "" }: NavigationProps) {
+  const [mobileOpen, setMobileOpen] = useState(false);
 
   return (
-    <nav className={`bg-white shadow-lg ${className}`}>
+    <nav className={`bg-white shadow-lg ${className}`} aria-label="Main">
       <div className="container">
         <div className="flex justify-between items-center py-4">
           <a href="/" className="text-2xl font-bold text-gray-900">
             WP Remix
           </a>
           
-          <div className="hidden md:flex space-x-6">
-            {navItems.map((item) => (
-              <a
-                key={item.href}
-                href={item.href}
-                className="text-gray-600 hover:text-blue-600 transition-colors"
-              >
-                {item.label}
-              </a>
+          <ul className="hidden md:flex space-x-6">
+            {items.map((item) => (
+              <li key={item.id} className="relative group">
+                <MenuLink
+                  item={item}
+                  className="inline-flex items-center py-2 text-gray-600 hover:text-blue-600 transition-colors"
+                >
+                  {item.label}
+                  {item.children.length > 0 && (
+                    <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  )}
+                </MenuLink>
+
+                {/* Dropdown, opened on hover or keyboard focus */}
+                {item.children.length > 0 && (
+                  <ul className="absolute left-0 top-full z-20 hidden min-w-48 rounded-md bg-white py-2 shadow-lg group-hover:block group-focus-within:block">
+                    {item.children.map((child) => (
+                      <li key={child.id}>
+                        <MenuLink
+                          item={child}
+                          className="block px-4 py-2 text-gray-600 hover:text-blue-600 hover:bg-gray-50 whitespace-nowrap"
+                        />
+                        {child.children.length > 0 && (
+                          <ul className="pl-4">
+                            {child.children.map((grandchild) => (
+                              <li key={grandchild.id}>
+                                <MenuLink
+                                  item={grandchild}
+                                  className="block px-4 py-1 text-sm text-gray-500 hover:text-blue-600 whitespace-nowrap"
+                                />
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
             ))}
-          </div>
+          </ul>
           
           {/* Mobile menu button */}
-          <button className="md:hidden p-2 rounded-md text-gray-600 hover:text-blue-600 hover:bg-gray-100">
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+          <button
+            type="button"
+            className="md:hidden p-2 rounded-md text-gray-600 hover:text-blue-600 hover:bg-gray-100"
+            aria-controls="mobile-menu"
+            aria-expanded={mobileOpen}
+            onClick={() => setMobileOpen(open => !open)}
+          >
+            <span className="sr-only">{mobileOpen ? 'Close menu' : 'Open menu'}</span>
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              {mobileOpen ? (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              ) : (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+              )}
             </svg>
           </button>
         </div>
+
+        {/* Mobile menu */}
+        {mobileOpen && (
+          <div id="mobile-menu" className="md:hidden pb-4">
+            <MobileMenuItems items={items} />
+          </div>
+        )}
       </div>
     </nav>
   );
 }
 
 interface FooterProps {
+  /** Top-level links, usually the primary menu */
+  quickLinks: MenuItem[];
+  /** The footer menu */
+  menu: { title: string; items: MenuItem[] };
   className?: string;
 }
 
-export function Footer({ className = "" }: FooterProps) {
+export function Footer({ quickLinks, menu, className = "" }: FooterProps) {
   return (
     <footer className={`bg-gray-900 text-white ${className}`}>
       <div className="container py-12">
@@ -202,19 +557,22 @@ export function Footer({ className = "" }: FooterProps) {
           <div>
             <h4 className="font-semibold mb-4">Quick Links</h4>
             <ul className="space-y-2 text-gray-300">
-              <li><a href="/" className="hover:text-white transition-colors">Home</a></li>
-              <li><a href="/posts" className="hover:text-white transition-colors">Blog</a></li>
-              <li><a href="/about" className="hover:text-white transition-colors">About</a></li>
-              <li><a href="/contact" className="hover:text-white transition-colors">Contact</a></li>
+              {quickLinks.map((item) => (
+                <li key={item.id}>
+                  <MenuLink item={item} className="hover:text-white transition-colors" />
+                </li>
+              ))}
             </ul>
           </div>
           
           <div>
-            <h4 className="font-semibold mb-4">Categories</h4>
+            <h4 className="font-semibold mb-4">{menu.title}</h4>
             <ul className="space-y-2 text-gray-300">
-              <li><a href="/posts?category=tech" className="hover:text-white transition-colors">Technology</a></li>
-              <li><a href="/posts?category=design" className="hover:text-white transition-colors">Design</a></li>
-              <li><a href="/posts?category=business" className="hover:text-white transition-colors">Business</a></li>
+              {menu.items.map((item) => (
+                <li key={item.id}>
+                  <MenuLink item={item} className="hover:text-white transition-colors" />
+                </li>
+              ))}
             </ul>
           </div>
           
@@ -296,4 +654,49 @@ export function LoadingSpinner({ message = "Loading..." }: LoadingSpinnerProps)
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface HierarchicalPageProps extends PageContentProps {
+  /** Ancestor pages, root first */
+  breadcrumbs: PageLink[];
+  childPages: PageLink[];
+  preview?: boolean;
+  /** Where to go when leaving a preview of a published page */
+  path: string;
+}
+
+/**
+ * A page at its hierarchical path, with breadcrumbs and child pages
+ */
+export function HierarchicalPage({ page, image, blocks, media, breadcrumbs, childPages, preview = false, path }: HierarchicalPageProps) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container py-16">
+        <div className="max-w-4xl mx-auto">
+          {/* Breadcrumbs */}
+          <Breadcrumbs
+            items={breadcrumbs}
+            current={toPlainText(page.title?.rendered) || "Untitled"}
+            className="mb-8"
+          />
+
+          {preview && (
+            <PreviewBanner
+              status={page.status}
+              modified={page.modified}
+              exitTo={page.status === 'publish' ? path : "/"}
+            />
+          )}
+
+          {/* Page Content */}
+          <PageContent page={page} image={image} blocks={blocks} media={media} />
+
+          {/* Child Pages */}
+          {childPages.length > 0 && (
+            <ChildPages pages={childPages} className="mt-12" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
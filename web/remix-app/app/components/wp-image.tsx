@@ -0,0 +1,62 @@
+/**
+ * Responsive images built from WordPress media renditions
+ */
+import type { FeaturedImage } from "~/lib/embedded";
+
+interface WpImageProps {
+  image: FeaturedImage;
+  /** Value for the `sizes` attribute describing the rendered width */
+  sizes?: string;
+  /** Load eagerly for above-the-fold images */
+  priority?: boolean;
+  className?: string;
+}
+
+/**
+ * Build a `srcset` from the renditions that share the original's aspect
+ * ratio. Cropped sizes such as `thumbnail` would otherwise distort.
+ */
+export function buildSrcSet(image: FeaturedImage): string {
+  if (!image.width || !image.height) {
+    return '';
+  }
+
+  const ratio = image.width / image.height;
+  const candidates = new Map<number, string>();
+
+  for (const size of image.sizes) {
+    if (!size.width || !size.height) continue;
+    if (Math.abs(size.width / size.height - ratio) > 0.01) continue;
+    candidates.set(size.width, size.url);
+  }
+
+  candidates.set(image.width, image.url);
+
+  return Array.from(candidates.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([width, url]) => `${url} ${width}w`)
+    .join(', ');
+}
+
+export function WpImage({
+  image,
+  sizes = "(min-width: 1024px) 1024px, 100vw",
+  priority = false,
+  className = "",
+}: WpImageProps) {
+  const srcSet = buildSrcSet(image);
+
+  return (
+    <img
+      src={image.url}
+      srcSet={srcSet || undefined}
+      sizes={srcSet ? sizes : undefined}
+      alt={image.alt}
+      width={image.width || undefined}
+      height={image.height || undefined}
+      loading={priority ? "eager" : "lazy"}
+      decoding={priority ? "auto" : "async"}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * ACF field groups of the site's custom post types
+ *
+ * Registering them with `AcfFields` types the `acf` field of entries
+ * returned by `getCollection()` and `getItem()`. Date fields use the
+ * `Y-m-d H:i:s` return format.
+ */
+
+export interface EventFields {
+  start_date: string;
+  end_date?: string;
+  venue?: string;
+  registration_url?: string;
+}
+
+export interface CaseStudyFields {
+  client: string;
+  industry?: string;
+  /** Repeater rows */
+  results?: Array<{ metric: string; value: string }>;
+  testimonial?: string;
+}
+
+declare module './wordpress-types' {
+  interface AcfFields {
+    event: EventFields;
+    case_study: CaseStudyFields;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Request coalescing and batching
+ *
+ * Concurrent renders often need the same WordPress data:
+ *
+ * - `RequestCoalescer` shares one in-flight request between callers
+ *   asking for the same thing at the same time
+ * - `BatchLoader` collects the IDs asked for during one tick and loads
+ *   them with a single request, e.g. `/wp/v2/media?include=1,2,3`
+ */
+
+/**
+ * The same request with its query parameters in a fixed order, so
+ * `?a=1&b=2` and `?b=2&a=1` share a key
+ */
+export function normalizeRequestKey(path: string): string {
+  const queryStart = path.indexOf('?');
+  if (queryStart === -1) {
+    return path;
+  }
+
+  const params = new URLSearchParams(path.slice(queryStart + 1));
+  params.sort();
+  const query = params.toString();
+
+  return query ? `${path.slice(0, queryStart)}?${query}` : path.slice(0, queryStart);
+}
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when none are left */
+  waiting: number;
+}
+
+/**
+ * Shares in-flight requests between concurrent callers with the same key
+ *
+ * The shared request has its own signal: a caller whose signal aborts
+ * stops waiting, and the request itself is aborted once every caller
+ * has stopped waiting.
+ */
+export class RequestCoalescer {
+  private inflight = new Map<string, InflightRequest>();
+
+  run<T>(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+
+    let request = this.inflight.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const entry: InflightRequest = {
+        controller,
+        waiting: 0,
+        promise: load(controller.signal).finally(() => {
+          if (this.inflight.get(key) === entry) this.inflight.delete(key);
+        }),
+      };
+      // Rejections reach every waiting caller; this one may have none left
+      entry.promise.catch(() => {});
+      this.inflight.set(key, entry);
+      request = entry;
+    }
+
+    const shared = request;
+    shared.waiting++;
+
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        if (--shared.waiting === 0) {
+          this.inflight.delete(key);
+          shared.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      (shared.promise as Promise<T>).then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  /**
+   * Requests currently in flight
+   */
+  get size(): number {
+    return this.inflight.size;
+  }
+}
+
+export interface BatchLoaderOptions {
+  /** Most keys in one batch; larger batches are split */
+  maxBatchSize?: number;
+}
+
+/**
+ * DataLoader-style batching: `load(key)` calls made during one tick are
+ * answered by a single call to `batch` with every distinct key
+ *
+ * `batch` returns the values it found; keys it leaves out reject with
+ * the error from `missing`.
+ */
+export class BatchLoader<K, V> {
+  private queue = new Map<K, Array<{ resolve: (value: V) => void; reject: (error: unknown) => void }>>();
+  private scheduled = false;
+  private maxBatchSize: number;
+
+  constructor(
+    private batch: (keys: K[]) => Promise<Map<K, V>>,
+    private missing: (key: K) => Error,
+    options: BatchLoaderOptions = {}
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+  }
+
+  load(key: K): Promise<V> {
+    return new Promise<V>((resolve, reject) => {
+      const waiting = this.queue.get(key);
+      if (waiting) {
+        waiting.push({ resolve, reject });
+      } else {
+        this.queue.set(key, [{ resolve, reject }]);
+      }
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setImmediate(() => this.dispatch());
+      }
+    });
+  }
+
+  private dispatch(): void {
+    const queue = this.queue;
+    this.queue = new Map();
+    this.scheduled = false;
+
+    const keys = Array.from(queue.keys());
+    for (let start = 0; start < keys.length; start += this.maxBatchSize) {
+      const chunk = keys.slice(start, start + this.maxBatchSize);
+
+      this.batch(chunk).then(
+        (values) => {
+          for (const key of chunk) {
+            const value = values.get(key);
+            for (const { resolve, reject } of queue.get(key) ?? []) {
+              if (value === undefined) {
+                reject(this.missing(key));
+              } else {
+                resolve(value);
+              }
+            }
+          }
+        },
+        (error) => {
+          for (const key of chunk) {
+            for (const { reject } of queue.get(key) ?? []) reject(error);
+          }
+        }
+      );
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getContentBlocks, parseBlocks } from './blocks';
+
+const markup = '<!-- wp:paragraph --><p>Hello</p><!-- /wp:paragraph -->';
+
+describe('getContentBlocks', () => {
+  it('prefers the blocks REST field', () => {
+    const blocks = parseBlocks('<!-- wp:heading --><h2>Title</h2><!-- /wp:heading -->');
+
+    expect(getContentBlocks({ content: { raw: markup }, blocks })).toBe(blocks);
+  });
+
+  it('parses the raw content of previews', () => {
+    expect(getContentBlocks({ content: { raw: markup } })).toMatchObject([
+      { blockName: 'core/paragraph', innerHTML: '<p>Hello</p>' },
+    ]);
+  });
+
+  it('falls back to rendered HTML without either', () => {
+    expect(getContentBlocks({ content: {} })).toBeNull();
+    expect(getContentBlocks({ content: {}, blocks: [] })).toBeNull();
+    expect(getContentBlocks({ content: { raw: '<p>Classic</p>' } })).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * WordPress block markup parser
+ *
+ * Parses serialized block markup (`<!-- wp:paragraph {"align":"center"} -->`)
+ * into a block tree, like WordPress's default block parser. HTML outside
+ * any block becomes a freeform block with a `null` name.
+ */
+
+import type { WordPressBlock } from './wordpress-types';
+
+export type Block = WordPressBlock;
+
+/**
+ * Block delimiter comment: closer slash, name, JSON attributes and the
+ * self-closing slash. WordPress escapes `--` inside attributes, so the
+ * attributes end at the first `}` followed by the comment end.
+ */
+const DELIMITER = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*(?:\/[a-z][a-z0-9_-]*)?)\s+(?:(\{[\s\S]*?\})\s+)?(\/)?-->/g;
+
+function createBlock(blockName: string | null, attrs: Record<string, unknown>, html: string = ''): Block {
+  return {
+    blockName,
+    attrs,
+    innerBlocks: [],
+    innerHTML: html,
+    innerContent: html ? [html] : [],
+  };
+}
+
+function parseAttrs(json: string | undefined): Record<string, unknown> {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const attrs = JSON.parse(json);
+    return attrs && typeof attrs === 'object' && !Array.isArray(attrs) ? attrs : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * A string attribute; attributes are unvalidated JSON, so other types are
+ * `undefined`
+ */
+export function stringAttr(block: Block, name: string): string | undefined {
+  const value = block.attrs[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * A number attribute, or `undefined`
+ */
+export function numberAttr(block: Block, name: string): number | undefined {
+  const value = block.attrs[name];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * A URL attribute, when it is an `http:` or `https:` URL or a path;
+ * anything else (e.g. `javascript:`) is `undefined`
+ */
+export function urlAttr(block: Block, name: string): string | undefined {
+  const value = stringAttr(block, name)?.trim();
+
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const { protocol } = new URL(value, 'http://localhost');
+    return protocol === 'http:' || protocol === 'https:' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse block markup (e.g. `content.raw`) into top-level blocks
+ *
+ * Whitespace between top-level blocks is dropped. Unclosed blocks end
+ * with the document, and stray closing delimiters are ignored.
+ */
+export function parseBlocks(markup: string): Block[] {
+  const root = createBlock(null, {});
+  const stack: Block[] = [root];
+  let offset = 0;
+
+  const appendHTML = (html: string) => {
+    if (!html) {
+      return;
+    }
+
+    const parent = stack[stack.length - 1];
+
+    if (parent === root) {
+      if (html.trim()) {
+        root.innerBlocks.push(createBlock(null, {}, html));
+      }
+      return;
+    }
+
+    parent.innerHTML += html;
+    parent.innerContent.push(html);
+  };
+
+  for (const match of markup.matchAll(DELIMITER)) {
+    const [delimiter, closer, name, json, selfClosing] = match;
+    const blockName = name.includes('/') ? name : `core/${name}`;
+
+    appendHTML(markup.slice(offset, match.index));
+    offset = (match.index ?? 0) + delimiter.length;
+
+    if (closer) {
+      const openIndex = stack.map(block => block.blockName).lastIndexOf(blockName);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    const block = createBlock(blockName, parseAttrs(json));
+    const parent = stack[stack.length - 1];
+
+    parent.innerBlocks.push(block);
+    if (parent !== root) {
+      parent.innerContent.push(null);
+    }
+
+    if (!selfClosing) {
+      stack.push(block);
+    }
+  }
+
+  appendHTML(markup.slice(offset));
+
+  return root.innerBlocks;
+}
+
+/**
+ * The blocks of a post or page: the `blocks` REST field, or its parsed
+ * `content.raw` (edit context, so previews only). `null` when only
+ * rendered HTML is available, or when the content was written without the
+ * block editor.
+ */
+export function getContentBlocks(item: {
+  content: { raw?: string };
+  blocks?: Block[];
+}): Block[] | null {
+  if (item.blocks?.length) {
+    return item.blocks;
+  }
+
+  const raw = item.content.raw;
+  if (!raw || !raw.includes('<!-- wp:')) {
+    return null;
+  }
+
+  return parseBlocks(raw);
+}
+
+/**
+ * A block's HTML, with its inner blocks in place; server-rendered HTML
+ * wins when the API provides it
+ */
+export function serializeBlock(block: Block): string {
+  if (block.rendered !== undefined) {
+    return block.rendered;
+  }
+
+  let index = 0;
+
+  return block.innerContent
+    .map(chunk => chunk ?? serializeBlock(block.innerBlocks[index++]))
+    .join('');
+}
+
+/**
+ * Media IDs referenced by image and gallery blocks, for responsive images
+ */
+export function collectMediaIds(blocks: Block[]): number[] {
+  const ids = new Set<number>();
+
+  const visit = (block: Block) => {
+    const { id, ids: galleryIds } = block.attrs;
+
+    if (block.blockName === 'core/image' && typeof id === 'number') {
+      ids.add(id);
+    }
+    // Galleries before WordPress 5.9 list their images as attributes
+    if (block.blockName === 'core/gallery' && Array.isArray(galleryIds)) {
+      galleryIds.forEach((galleryId: unknown) => typeof galleryId === 'number' && ids.add(galleryId));
+    }
+    block.innerBlocks.forEach(visit);
+  };
+
+  blocks.forEach(visit);
+
+  return Array.from(ids);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cacheTagsForEvent,
+  cacheTagsForResponse,
+  parseInvalidationEvent,
+  signWebhook,
+  verifyWebhookSignature,
+} from './cache-invalidation';
+
+const secret = 'webhook-secret';
+const body = '{"action":"save_post","id":12,"post_type":"post"}';
+const now = () => Math.floor(Date.now() / 1000).toString();
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a body signed with the secret', () => {
+    const timestamp = now();
+
+    expect(verifyWebhookSignature({ secret, body, timestamp, signature: signWebhook(secret, timestamp, body) }))
+      .toBe(true);
+  });
+
+  it('rejects a changed body, timestamp or secret', () => {
+    const timestamp = now();
+    const signature = signWebhook(secret, timestamp, body);
+
+    expect(verifyWebhookSignature({ secret, body: body.replace('12', '13'), timestamp, signature })).toBe(false);
+    expect(verifyWebhookSignature({ secret, body, timestamp: String(Number(timestamp) - 1), signature }))
+      .toBe(false);
+    expect(verifyWebhookSignature({ secret: 'other', body, timestamp, signature })).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - 301);
+    const signature = signWebhook(secret, timestamp, body);
+
+    expect(verifyWebhookSignature({ secret, body, timestamp, signature })).toBe(false);
+    expect(verifyWebhookSignature({ secret, body, timestamp, signature, toleranceSeconds: 600 })).toBe(true);
+  });
+
+  it('rejects missing or malformed signatures and an unset secret', () => {
+    const timestamp = now();
+    const signature = signWebhook(secret, timestamp, body);
+
+    expect(verifyWebhookSignature({ secret, body, timestamp, signature: null })).toBe(false);
+    expect(verifyWebhookSignature({ secret, body, timestamp: null, signature })).toBe(false);
+    expect(verifyWebhookSignature({ secret, body, timestamp: 'soon', signature })).toBe(false);
+    expect(verifyWebhookSignature({ secret, body, timestamp, signature: signature.slice(0, -1) })).toBe(false);
+    expect(verifyWebhookSignature({ secret: '', body, timestamp, signature: signWebhook('', timestamp, body) }))
+      .toBe(false);
+  });
+});
+
+describe('parseInvalidationEvent', () => {
+  it('keeps known fields of a valid event', () => {
+    expect(parseInvalidationEvent({ action: 'edited_term', id: 3, taxonomy: 'category', extra: true }))
+      .toEqual({ action: 'edited_term', id: 3, post_type: undefined, taxonomy: 'category' });
+  });
+
+  it('rejects unknown actions and non-integer ids', () => {
+    expect(() => parseInvalidationEvent(null)).toThrow('JSON object');
+    expect(() => parseInvalidationEvent({ action: 'drop_table', id: 1 })).toThrow('Unsupported');
+    expect(() => parseInvalidationEvent({ action: 'save_post', id: '1' })).toThrow('numeric id');
+  });
+});
+
+describe('cache tags', () => {
+  it('tags responses by collection and object', () => {
+    expect(cacheTagsForResponse('posts', [{ id: 1 }, { id: 2 }])).toEqual(['list:posts', 'post:1', 'post:2']);
+    expect(cacheTagsForResponse('pages', { id: 5 })).toEqual(['post:5']);
+    expect(cacheTagsForResponse('books', [{ id: 7 }], 'posts')).toEqual(['list:books', 'post:7']);
+  });
+
+  it('maps events to the tags they make stale', () => {
+    expect(cacheTagsForEvent({ action: 'save_post', id: 12, post_type: 'page' }))
+      .toEqual(['post:12', 'list:pages', 'list:search']);
+    expect(cacheTagsForEvent({ action: 'delete_term', id: 4, taxonomy: 'post_tag' }))
+      .toEqual(['term:4', 'list:tags', 'list:posts', 'list:search']);
+    expect(cacheTagsForEvent({ action: 'update_comment', id: 9 })).toEqual(['list:comments']);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Cache invalidation
+ *
+ * Cached WordPress responses are tagged by what they contain, and
+ * WordPress change events (forwarded by the Composer `/invalidate`
+ * endpoint) map to the tags they make stale:
+ *
+ * - `post:<id>` / `term:<id>` / `media:<id>` / `user:<id>` for objects.
+ *   Posts, pages and custom post types share one ID space in WordPress,
+ *   as do categories and tags.
+ * - `list:<collection>` for collection and search responses
+ *   (including `list:comments`). Custom post type collections are also
+ *   tagged `list:<post type>`, the tag their `save_post` events carry.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Tag prefix for the objects in each REST collection
+ */
+const OBJECT_TAGS: Record<string, string> = {
+  posts: 'post',
+  pages: 'post',
+  categories: 'term',
+  tags: 'term',
+  media: 'media',
+  users: 'user',
+};
+
+/**
+ * Tags for a cached response from `collection` (e.g. `posts`), whose
+ * objects are tagged like those of `objectsLike` (custom post type
+ * entries are tagged like `posts`)
+ */
+export function cacheTagsForResponse(collection: string, data: unknown, objectsLike: string = collection): string[] {
+  const tags = new Set<string>();
+  const prefix = OBJECT_TAGS[objectsLike];
+  const items = Array.isArray(data) ? data : [data];
+
+  // Menu locations are keyed by location rather than a list
+  if (Array.isArray(data) || collection === 'search' || collection === 'menu-locations') {
+    tags.add(`list:${collection}`);
+  }
+
+  if (prefix) {
+    for (const item of items) {
+      if (item && typeof item === 'object' && typeof (item as { id?: unknown }).id === 'number') {
+        tags.add(`${prefix}:${(item as { id: number }).id}`);
+      }
+    }
+  }
+
+  return Array.from(tags);
+}
+
+/**
+ * Response headers naming a page's cache tags, so HTTP caches in front of
+ * the app (CDNs, Varnish) can purge by the same tags
+ */
+export function surrogateKeyHeaders(tags: string[]): Record<string, string> {
+  return {
+    'Surrogate-Key': tags.join(' '),
+    'Cache-Tag': tags.join(','),
+  };
+}
+
+/**
+ * The `names` headers that `headers` carries, for a route's `headers`
+ * export to pass on loader and action headers without empty values
+ */
+export function pickHeaders(headers: Headers, names: string[]): Record<string, string> {
+  return Object.fromEntries(
+    names.filter((name) => headers.has(name)).map((name) => [name, headers.get(name) as string])
+  );
+}
+
+export type InvalidationAction =
+  | 'save_post'
+  | 'delete_post'
+  | 'created_term'
+  | 'edited_term'
+  | 'delete_term'
+  | 'update_menu'
+  | 'update_comment';
+
+/**
+ * A change event sent by the WordPress webhook
+ */
+export interface InvalidationEvent {
+  action: InvalidationAction;
+  id: number;
+  /** Post type for post events, e.g. `post`, `page` */
+  post_type?: string;
+  /** Taxonomy for term events, e.g. `category`, `post_tag` */
+  taxonomy?: string;
+}
+
+const ACTIONS: InvalidationAction[] = [
+  'save_post',
+  'delete_post',
+  'created_term',
+  'edited_term',
+  'delete_term',
+  'update_menu',
+  'update_comment',
+];
+
+/**
+ * REST collection for each post type whose name differs from it
+ */
+const POST_TYPE_COLLECTIONS: Record<string, string> = {
+  post: 'posts',
+  page: 'pages',
+  wp_navigation: 'navigation',
+  nav_menu_item: 'menu-items',
+};
+
+/**
+ * Validate an untrusted webhook payload
+ */
+export function parseInvalidationEvent(payload: unknown): InvalidationEvent {
+  const event = payload as Partial<InvalidationEvent> | null;
+
+  if (!event || typeof event !== 'object') {
+    throw new Error('Invalidation payload must be a JSON object');
+  }
+  if (!ACTIONS.includes(event.action as InvalidationAction)) {
+    throw new Error(`Unsupported invalidation action: ${String(event.action)}`);
+  }
+  if (typeof event.id !== 'number' || !Number.isInteger(event.id)) {
+    throw new Error('Invalidation payload needs a numeric id');
+  }
+
+  return {
+    action: event.action as InvalidationAction,
+    id: event.id,
+    post_type: typeof event.post_type === 'string' ? event.post_type : undefined,
+    taxonomy: typeof event.taxonomy === 'string' ? event.taxonomy : undefined,
+  };
+}
+
+/**
+ * Tags made stale by a WordPress change event
+ */
+export function cacheTagsForEvent(event: InvalidationEvent): string[] {
+  // Classic menus: `id` is the menu, whose items and locations may change
+  if (event.action === 'update_menu') {
+    return ['list:menu-items', 'list:menu-locations'];
+  }
+
+  // Comments: `id` is the comment, approved, edited or removed
+  if (event.action === 'update_comment') {
+    return ['list:comments'];
+  }
+
+  if (event.action === 'save_post' || event.action === 'delete_post') {
+    const postType = event.post_type || 'post';
+    const collection = POST_TYPE_COLLECTIONS[postType] ?? postType;
+
+    return [`post:${event.id}`, `list:${collection}`, 'list:search'];
+  }
+
+  const collection = event.taxonomy === 'post_tag' ? 'tags' : event.taxonomy === 'category' ? 'categories' : event.taxonomy;
+
+  // Post listings filter and embed terms, so they go stale with them
+  return [`term:${event.id}`, `list:${collection}`, 'list:posts', 'list:search'];
+}
+
+export const SIGNATURE_HEADER = 'x-wp-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-wp-webhook-timestamp';
+
+/**
+ * Sign a webhook body: HMAC-SHA256 over `<timestamp>.<body>`
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Verify a webhook signature, rejecting timestamps outside the tolerance
+ * window to prevent replays
+ */
+export function verifyWebhookSignature(params: {
+  secret: string;
+  body: string;
+  signature: string | null;
+  timestamp: string | null;
+  toleranceSeconds?: number;
+}): boolean {
+  const { secret, body, signature, timestamp, toleranceSeconds = 300 } = params;
+
+  if (!secret || !signature || !timestamp) {
+    return false;
+  }
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp));
+  if (!Number.isFinite(age) || age > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError, type CircuitTransition } from './circuit-breaker';
+import { WordPressApiError } from './wordpress-transport';
+
+const ok = () => Promise.resolve('ok');
+const serverError = () => Promise.reject(new WordPressApiError('Bad gateway', 502));
+const notFound = () => Promise.reject(new WordPressApiError('Not found', 404));
+
+/**
+ * Run `request` through `breaker`, ignoring its rejection
+ */
+async function attempt(breaker: CircuitBreaker, request: () => Promise<unknown>) {
+  await breaker.execute(request).catch(() => undefined);
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive upstream failures and fails fast', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+    const request = vi.fn(ok);
+
+    await attempt(breaker, serverError);
+    expect(breaker.getState()).toBe('closed');
+    await attempt(breaker, serverError);
+
+    const error = await breaker.execute(request).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ status: 503, retryAt: 1000 });
+    expect(request).not.toHaveBeenCalled();
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', failures: 2, lastError: 'Bad gateway' });
+  });
+
+  it('does not count client errors or cancelled requests as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const abort = () => Promise.reject(new DOMException('Aborted', 'AbortError'));
+
+    await attempt(breaker, serverError);
+    await attempt(breaker, abort);
+    expect(breaker.getSnapshot().failures).toBe(1);
+
+    await attempt(breaker, notFound);
+    await attempt(breaker, serverError);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('closes after a successful trial request once the reset timeout passes', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    const transitions: string[] = [];
+    breaker.on('transition', ({ from, to }: CircuitTransition) => transitions.push(`${from}>${to}`));
+
+    await attempt(breaker, serverError);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+
+    await expect(breaker.execute(ok)).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+    expect(transitions).toEqual(['closed>open', 'open>half-open', 'half-open>closed']);
+  });
+
+  it('opens again when a trial request fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+    await attempt(breaker, serverError);
+    vi.advanceTimersByTime(1000);
+    await attempt(breaker, serverError);
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', openedAt: 1000, retryAt: 2000 });
+  });
+
+  it('limits concurrent trial requests while half-open', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, successThreshold: 2 });
+    const rejected = vi.fn();
+    breaker.on('reject', rejected);
+
+    await attempt(breaker, serverError);
+    vi.advanceTimersByTime(1000);
+
+    let finish: (value: string) => void = () => undefined;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => { finish = resolve; }));
+    await expect(breaker.execute(ok)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(rejected).toHaveBeenCalledTimes(1);
+
+    finish('ok');
+    await trial;
+    expect(breaker.getState()).toBe('half-open');
+    await breaker.execute(ok);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('closes when reset', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await attempt(breaker, serverError);
+    breaker.reset();
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', failures: 0, retryAt: null });
+  });
+});
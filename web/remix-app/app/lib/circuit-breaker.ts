@@ -0,0 +1,214 @@
+/**
+ * Circuit breaker for WordPress requests
+ *
+ * Every request the client sends passes through the breaker:
+ *
+ * - `closed`: requests go through; `failureThreshold` consecutive upstream
+ *   failures (network errors, timeouts, 5xx) open the circuit
+ * - `open`: requests fail at once with `CircuitOpenError`, so pages fall
+ *   back to stale cached content without waiting on timeouts
+ * - `half-open`: after `resetTimeout`, up to `halfOpenRequests` trial
+ *   requests go through; `successThreshold` successes close the circuit,
+ *   a failure opens it again
+ *
+ * 4xx responses mean WordPress is up and never count as failures, and
+ * requests cancelled by the caller are not counted at all.
+ */
+
+import { EventEmitter } from 'node:events';
+import { isAbortError, isUpstreamFailure, WordPressApiError } from './wordpress-transport';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open before trial requests (ms) */
+  resetTimeout?: number;
+  /** Concurrent trial requests while half-open */
+  halfOpenRequests?: number;
+  /** Successful trial requests that close the circuit */
+  successThreshold?: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  /** Consecutive failures while closed */
+  failures: number;
+  /** When the circuit last opened (ms since the epoch) */
+  openedAt: number | null;
+  /** When an open circuit lets trial requests through */
+  retryAt: number | null;
+  lastError: string | null;
+}
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  snapshot: CircuitSnapshot;
+}
+
+interface CircuitBreakerEvents {
+  /** Any state change */
+  transition: [CircuitTransition];
+  open: [CircuitTransition];
+  'half-open': [CircuitTransition];
+  close: [CircuitTransition];
+  /** A request refused while the circuit is open */
+  reject: [CircuitSnapshot];
+}
+
+/**
+ * Thrown instead of sending a request while the circuit is open
+ *
+ * A 503 `WordPressApiError`, so the cache serves stale entries for it and
+ * loaders handle it like WordPress being down.
+ */
+export class CircuitOpenError extends WordPressApiError {
+  constructor(public retryAt: number) {
+    super('WordPress is temporarily unavailable', 503, 'circuit_open');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEvents> {
+  private options: Required<CircuitBreakerOptions>;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private successes = 0;
+  private trials = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      resetTimeout: options.resetTimeout ?? 30000,
+      halfOpenRequests: options.halfOpenRequests ?? 1,
+      successThreshold: options.successThreshold ?? 1,
+    };
+  }
+
+  /**
+   * Run `request` unless the circuit is open, recording its outcome
+   */
+  async execute<T>(request: () => Promise<T>): Promise<T> {
+    if (this.state === 'open' && Date.now() >= this.retryAt()) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.trials >= this.options.halfOpenRequests)) {
+      const snapshot = this.getSnapshot();
+      this.emit('reject', snapshot);
+      throw new CircuitOpenError(snapshot.retryAt ?? Date.now());
+    }
+
+    const trial = this.state === 'half-open';
+    if (trial) this.trials++;
+
+    try {
+      const result = await request();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      // A cancelled request says nothing about WordPress
+      if (isAbortError(error)) {
+        throw error;
+      }
+      if (isUpstreamFailure(error)) {
+        this.onFailure(error);
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (trial) this.trials = Math.max(0, this.trials - 1);
+    }
+  }
+
+  getState(): CircuitState {
+    // Report a circuit due for trial requests as half-open
+    return this.state === 'open' && Date.now() >= this.retryAt() ? 'half-open' : this.state;
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      state: this.getState(),
+      failures: this.failures,
+      openedAt: this.openedAt,
+      retryAt: this.state === 'open' ? this.retryAt() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Close the circuit, e.g. after WordPress is known to be back
+   */
+  reset(): void {
+    this.failures = 0;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  private retryAt(): number {
+    return (this.openedAt ?? 0) + this.options.resetTimeout;
+  }
+
+  private onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.successes++;
+      if (this.successes >= this.options.successThreshold) {
+        this.failures = 0;
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.failures = 0;
+  }
+
+  private onFailure(error: unknown): void {
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half-open') {
+      this.transition('open');
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'closed' && this.failures >= this.options.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    this.successes = 0;
+    if (to === 'open') this.openedAt = Date.now();
+    if (to === 'closed') this.openedAt = null;
+
+    const event = { from, to, snapshot: this.getSnapshot() };
+    this.emit('transition', event);
+    this.emit(to === 'closed' ? 'close' : to, event);
+  }
+}
+
+/**
+ * Breaker settings from the environment
+ *
+ * - `WORDPRESS_BREAKER_FAILURES`: consecutive failures that open it (5)
+ * - `WORDPRESS_BREAKER_RESET_MS`: how long it stays open (30000)
+ * - `WORDPRESS_BREAKER_HALF_OPEN_REQUESTS`: concurrent trial requests (1)
+ * - `WORDPRESS_BREAKER_SUCCESSES`: trial successes that close it (1)
+ */
+export function createCircuitBreakerFromEnv(): CircuitBreaker {
+  const number = (value: string | undefined) => (value ? parseInt(value) || undefined : undefined);
+
+  return new CircuitBreaker({
+    failureThreshold: number(process.env.WORDPRESS_BREAKER_FAILURES),
+    resetTimeout: number(process.env.WORDPRESS_BREAKER_RESET_MS),
+    halfOpenRequests: number(process.env.WORDPRESS_BREAKER_HALF_OPEN_REQUESTS),
+    successThreshold: number(process.env.WORDPRESS_BREAKER_SUCCESSES),
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Comment form fields and validation
+ *
+ * Shared by the post route's `action` and the comment form component, so
+ * this module has no server dependencies.
+ */
+
+/**
+ * Hidden form field that only bots fill in
+ */
+export const HONEYPOT_FIELD = 'website';
+
+export interface CommentFormValues {
+  name: string;
+  email: string;
+  url: string;
+  content: string;
+  /** Comment being replied to; 0 for a top-level comment */
+  parent: number;
+}
+
+export type CommentFormErrors = Partial<Record<keyof CommentFormValues | 'form', string>>;
+
+export type CommentActionResult =
+  | { ok: true; status: 'approved' | 'hold' }
+  | { ok: false; errors: CommentFormErrors; values: CommentFormValues };
+
+/**
+ * Read and validate a submitted comment form, using WordPress's field
+ * length limits
+ */
+export function parseCommentForm(formData: FormData): {
+  values: CommentFormValues;
+  errors: CommentFormErrors;
+  spam: boolean;
+} {
+  const field = (name: string) => String(formData.get(name) ?? '').trim();
+  const values: CommentFormValues = {
+    name: field('name'),
+    email: field('email'),
+    url: field('url'),
+    content: field('content'),
+    parent: parseInt(field('parent')) || 0,
+  };
+  const errors: CommentFormErrors = {};
+
+  if (!values.name) {
+    errors.name = 'Please enter your name.';
+  } else if (values.name.length > 245) {
+    errors.name = 'Your name is too long.';
+  }
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email) || values.email.length > 100) {
+    errors.email = 'Please enter a valid email address.';
+  }
+
+  if (values.url && (!/^https?:\/\/\S+$/i.test(values.url) || values.url.length > 200)) {
+    errors.url = 'Please enter a website address starting with http:// or https://.';
+  }
+
+  if (!values.content) {
+    errors.content = 'Please write a comment.';
+  } else if (values.content.length > 65525) {
+    errors.content = 'Your comment is too long.';
+  }
+
+  return { values, errors, spam: field(HONEYPOT_FIELD) !== '' };
+}
@@ -0,0 +1,164 @@
+/**
+ * Post comments
+ *
+ * Comments are listed as threads: a page of top-level comments from
+ * `/wp/v2/comments?parent=0`, with the replies to them fetched level by
+ * level. New comments are submitted as anonymous visitors, and WordPress
+ * usually holds them for moderation.
+ */
+
+import type { CommentActionResult, CommentFormValues } from './comment-form';
+import { RateLimiter } from './rate-limit';
+import {
+  wordpressApi,
+  WordPressApiError,
+  type WordPressComment,
+} from './wordpress-api';
+
+/**
+ * Top-level comments per page
+ */
+export const COMMENTS_PER_PAGE = 10;
+
+/**
+ * Reply levels fetched below top-level comments (WordPress's default
+ * `thread_comments_depth` is 5 including the top level)
+ */
+const MAX_REPLY_DEPTH = 4;
+
+/**
+ * Replies requested per call (the REST maximum)
+ */
+const REPLIES_PAGE_SIZE = 100;
+
+export interface CommentNode {
+  id: number;
+  parent: number;
+  authorName: string;
+  authorUrl: string;
+  avatar?: string;
+  date: string;
+  /** Sanitized HTML */
+  content: string;
+  children: CommentNode[];
+}
+
+export interface CommentThreads {
+  comments: CommentNode[];
+  /** Top-level comments across all pages */
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Five comments per client every ten minutes
+ */
+export const commentRateLimiter = new RateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+function toCommentNode(comment: WordPressComment): CommentNode {
+  return {
+    id: comment.id,
+    parent: comment.parent,
+    authorName: comment.author_name || 'Anonymous',
+    authorUrl: comment.author_url,
+    avatar: comment.author_avatar_urls?.['48'],
+    date: comment.date,
+    content: comment.content.rendered,
+    children: [],
+  };
+}
+
+/**
+ * Load a page of comment threads for a post
+ */
+export async function getCommentThreads(postId: number, page: number = 1): Promise<CommentThreads> {
+  const topLevel = await wordpressApi.getComments({
+    post: postId,
+    parent: 0,
+    page,
+    perPage: COMMENTS_PER_PAGE,
+  });
+
+  const nodes = new Map<number, CommentNode>();
+  topLevel.data.forEach(comment => nodes.set(comment.id, toCommentNode(comment)));
+
+  let parents = topLevel.data.map(comment => comment.id);
+
+  for (let depth = 0; depth < MAX_REPLY_DEPTH && parents.length > 0; depth++) {
+    const replies: WordPressComment[] = [];
+    let replyPage = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await wordpressApi.getComments({
+        post: postId,
+        parent: parents,
+        page: replyPage,
+        perPage: REPLIES_PAGE_SIZE,
+      });
+      replies.push(...response.data);
+      totalPages = response.totalPages;
+      replyPage++;
+    } while (replyPage <= totalPages);
+
+    for (const reply of replies) {
+      const node = toCommentNode(reply);
+      nodes.set(reply.id, node);
+      nodes.get(reply.parent)?.children.push(node);
+    }
+
+    parents = replies.map(reply => reply.id);
+  }
+
+  return {
+    comments: topLevel.data.map(comment => nodes.get(comment.id) as CommentNode),
+    total: topLevel.total,
+    page,
+    totalPages: topLevel.totalPages,
+  };
+}
+
+/**
+ * WordPress rejections that are the visitor's to fix, by error code
+ */
+const REJECTIONS: Record<string, string> = {
+  comment_duplicate: 'It looks like you have already posted this comment.',
+  comment_flood: 'You are posting comments too quickly. Please slow down.',
+  rest_comment_closed: 'Comments are closed for this post.',
+  rest_comment_login_required: 'You need an account on this site to comment.',
+  rest_comment_invalid_author_email: 'Please enter a valid email address.',
+  rest_comment_content_invalid: 'Please write a comment.',
+  rest_comment_invalid_post_id: 'Comments are closed for this post.',
+};
+
+/**
+ * Submit a validated comment; WordPress rejections become form errors
+ */
+export async function submitComment(
+  postId: number,
+  values: CommentFormValues,
+  userAgent?: string
+): Promise<CommentActionResult> {
+  try {
+    const comment = await wordpressApi.createComment({
+      post: postId,
+      parent: values.parent || undefined,
+      author_name: values.name,
+      author_email: values.email,
+      author_url: values.url || undefined,
+      content: values.content,
+      author_user_agent: userAgent,
+    });
+
+    return { ok: true, status: comment.status === 'approved' ? 'approved' : 'hold' };
+  } catch (error) {
+    const message = error instanceof WordPressApiError && error.code ? REJECTIONS[error.code] : undefined;
+
+    if (message) {
+      return { ok: false, errors: { form: message }, values };
+    }
+
+    throw error;
+  }
+}
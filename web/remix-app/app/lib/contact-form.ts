@@ -0,0 +1,77 @@
+/**
+ * Contact form schema and validation
+ *
+ * The schema drives both the server-side validation in the `/contact`
+ * action and the form's HTML constraints, so this module has no server
+ * dependencies.
+ */
+
+export interface ContactFieldRule {
+  label: string;
+  required?: boolean;
+  type?: 'text' | 'email';
+  /** Single-line fields end up in mail headers, so they reject line breaks */
+  multiline?: boolean;
+  minLength?: number;
+  maxLength: number;
+}
+
+export const CONTACT_SCHEMA = {
+  name: { label: 'Name', required: true, maxLength: 100 },
+  email: { label: 'Email', required: true, type: 'email', maxLength: 100 },
+  subject: { label: 'Subject', maxLength: 200 },
+  message: { label: 'Message', required: true, multiline: true, minLength: 10, maxLength: 5000 },
+} satisfies Record<string, ContactFieldRule>;
+
+export type ContactField = keyof typeof CONTACT_SCHEMA;
+
+export type ContactFormValues = Record<ContactField, string>;
+
+export type ContactFormErrors = Partial<Record<ContactField | 'form', string>>;
+
+/**
+ * Hidden form field that only bots fill in
+ */
+export const CONTACT_HONEYPOT_FIELD = 'company';
+
+/**
+ * Hidden form field carrying the CSRF token
+ */
+export const CSRF_FIELD = 'csrf';
+
+export type ContactActionResult =
+  | { ok: true; status: 'sent' | 'queued' }
+  | { ok: false; errors: ContactFormErrors; values: ContactFormValues };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Read the contact fields from a submission and check them against the
+ * schema
+ */
+export function validateContactForm(formData: FormData): {
+  values: ContactFormValues;
+  errors: ContactFormErrors;
+} {
+  const values = {} as ContactFormValues;
+  const errors: ContactFormErrors = {};
+
+  for (const [field, rule] of Object.entries(CONTACT_SCHEMA) as Array<[ContactField, ContactFieldRule]>) {
+    const value = String(formData.get(field) ?? '').trim();
+    values[field] = value;
+
+    if (!value) {
+      if (rule.required) errors[field] = `${rule.label} is required.`;
+    } else if (rule.minLength && value.length < rule.minLength) {
+      errors[field] = `${rule.label} must be at least ${rule.minLength} characters.`;
+    } else if (value.length > rule.maxLength) {
+      errors[field] = `${rule.label} must be at most ${rule.maxLength} characters.`;
+    } else if (rule.type === 'email' && !EMAIL_PATTERN.test(value)) {
+      errors[field] = 'Please enter a valid email address.';
+    } else if (!rule.multiline && /[\r\n]/.test(value)) {
+      errors[field] = `${rule.label} must be a single line.`;
+    }
+  }
+
+  return { values, errors };
+}
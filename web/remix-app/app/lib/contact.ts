@@ -0,0 +1,410 @@
+/**
+ * Contact message delivery
+ *
+ * The `/contact` action hands validated messages to a `ContactDelivery`
+ * adapter, selected by `CONTACT_DELIVERY`:
+ *
+ * - `file` (default): one JSON file per message in `CONTACT_OUTBOX_DIR`,
+ *   a queue another process can consume
+ * - `cf7`: submitted to Contact Form 7 form `CONTACT_CF7_FORM_ID` through
+ *   the WordPress REST API, which mails it with the site's settings
+ * - `smtp`: mailed to `CONTACT_MAIL_TO` through a plain SMTP server at
+ *   `CONTACT_SMTP_HOST`, meant for a local stand-in such as Mailpit
+ *
+ * Messages that fail to deliver are kept in `CONTACT_FAILED_DIR` and sent
+ * again by `retryFailedContactDeliveries()`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { createConnection, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import type { ContactFormValues } from './contact-form';
+import { logger } from './logger';
+import { RateLimiter } from './rate-limit';
+import { wordpressApi } from './wordpress-api';
+
+export interface ContactMessage extends ContactFormValues {
+  id: string;
+  /** ISO 8601 submission time */
+  submittedAt: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Moves a contact message to whoever reads it; throws when it could not
+ */
+export interface ContactDelivery {
+  readonly name: string;
+  deliver(message: ContactMessage): Promise<void>;
+}
+
+export function createContactMessage(
+  values: ContactFormValues,
+  meta: { ip?: string; userAgent?: string } = {}
+): ContactMessage {
+  return {
+    id: randomUUID(),
+    submittedAt: new Date().toISOString(),
+    ...values,
+    ...meta,
+  };
+}
+
+/**
+ * Three messages per client every ten minutes
+ */
+export const contactRateLimiter = new RateLimiter({ limit: 3, windowMs: 10 * 60 * 1000 });
+
+/**
+ * Whether a message looks like link spam
+ */
+export function looksLikeSpam(message: Pick<ContactFormValues, 'message'>): boolean {
+  return (message.message.match(/https?:\/\//gi) || []).length > 3
+    || /\[url=|<a\s+href=/i.test(message.message);
+}
+
+/**
+ * Write `data` as JSON without readers ever seeing a partial file
+ */
+async function writeJson(directory: string, file: string, data: unknown): Promise<void> {
+  await mkdir(directory, { recursive: true });
+  const path = join(directory, file);
+  // Unique per write: Watt workers are threads sharing one process ID
+  const temporary = `${path}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(temporary, JSON.stringify(data, null, 2));
+    await rename(temporary, path);
+  } catch (error) {
+    await rm(temporary, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Writes each message to a directory as `<id>.json`
+ */
+export class FileDelivery implements ContactDelivery {
+  readonly name = 'file';
+  private directory: string;
+
+  constructor(config: { directory: string }) {
+    this.directory = config.directory;
+  }
+
+  async deliver(message: ContactMessage): Promise<void> {
+    await writeJson(this.directory, `${message.id}.json`, message);
+  }
+}
+
+/**
+ * Submits messages to a Contact Form 7 form with the default field names
+ * (`your-name`, `your-email`, `your-subject`, `your-message`)
+ */
+export class ContactForm7Delivery implements ContactDelivery {
+  readonly name = 'cf7';
+  private formId: number;
+
+  constructor(config: { formId: number }) {
+    this.formId = config.formId;
+  }
+
+  async deliver(message: ContactMessage): Promise<void> {
+    const feedback = await wordpressApi.submitContactForm7(this.formId, {
+      'your-name': message.name,
+      'your-email': message.email,
+      'your-subject': message.subject || 'Contact form',
+      'your-message': message.message,
+    });
+
+    if (feedback.status !== 'mail_sent') {
+      throw new Error(`Contact Form 7 answered ${feedback.status}: ${feedback.message}`);
+    }
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Read SMTP replies from a socket, one complete (possibly multiline) reply
+ * per call
+ */
+function smtpReader(socket: Socket): () => Promise<SmtpReply> {
+  let buffer = '';
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let match;
+    while ((match = /^(?:\d{3}-.*\r\n)*(\d{3})(?: .*)?\r\n/.exec(buffer))) {
+      buffer = buffer.slice(match[0].length);
+      const reply = { code: parseInt(match[1]), text: match[0].trim() };
+      const waiter = waiting.shift();
+      if (waiter) waiter.resolve(reply);
+      else replies.push(reply);
+    }
+  });
+
+  const fail = (error: Error) => {
+    failure ??= error;
+    waiting.splice(0).forEach(waiter => waiter.reject(error));
+  };
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+  socket.on('timeout', () => socket.destroy(new Error('SMTP server timed out')));
+
+  return () => new Promise((resolve, reject) => {
+    const reply = replies.shift();
+    if (reply) resolve(reply);
+    else if (failure) reject(failure);
+    else waiting.push({ resolve, reject });
+  });
+}
+
+/**
+ * RFC 2047 encoding for header values that are not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Mails messages through an SMTP server without TLS or authentication
+ */
+export class SmtpDelivery implements ContactDelivery {
+  readonly name = 'smtp';
+  private host: string;
+  private port: number;
+  private from: string;
+  private to: string[];
+  private timeout: number;
+
+  constructor(config: { host: string; port: number; from: string; to: string[]; timeout?: number }) {
+    this.host = config.host;
+    this.port = config.port;
+    this.from = config.from;
+    this.to = config.to;
+    this.timeout = config.timeout ?? 10000;
+  }
+
+  async deliver(message: ContactMessage): Promise<void> {
+    const socket = createConnection({ host: this.host, port: this.port, timeout: this.timeout });
+    const read = smtpReader(socket);
+
+    const expect = async (codes: number[], command?: string) => {
+      if (command !== undefined) socket.write(`${command}\r\n`);
+      const reply = await read();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP server answered ${reply.text}`);
+      }
+    };
+
+    try {
+      await expect([220]);
+      await expect([250], `EHLO ${hostname()}`);
+      await expect([250], `MAIL FROM:<${this.from}>`);
+      for (const recipient of this.to) {
+        await expect([250, 251], `RCPT TO:<${recipient}>`);
+      }
+      await expect([354], 'DATA');
+      await expect([250], `${this.format(message)}\r\n.`);
+      await expect([221], 'QUIT');
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  /**
+   * The message as RFC 5322 text; the base64 body needs no dot-stuffing
+   */
+  private format(message: ContactMessage): string {
+    const body = Buffer.from([
+      `Name: ${message.name}`,
+      `Email: ${message.email}`,
+      `Submitted: ${message.submittedAt}`,
+      ...(message.ip ? [`IP: ${message.ip}`] : []),
+      '',
+      message.message,
+    ].join('\r\n')).toString('base64');
+
+    return [
+      `From: ${this.from}`,
+      `To: ${this.to.join(', ')}`,
+      `Reply-To: ${encodeHeader(message.name)} <${message.email}>`,
+      `Subject: ${encodeHeader(`[Contact] ${message.subject || `Message from ${message.name}`}`)}`,
+      `Date: ${new Date(message.submittedAt).toUTCString()}`,
+      `Message-ID: <${message.id}@${hostname()}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      ...(body.match(/.{1,76}/g) || []),
+    ].join('\r\n');
+  }
+}
+
+/**
+ * A message that could not be delivered
+ */
+export interface FailedDelivery {
+  message: ContactMessage;
+  /** Name of the delivery that failed */
+  delivery: string;
+  attempts: number;
+  lastError: string;
+  lastAttemptAt: string;
+}
+
+/**
+ * Failed deliveries kept as `<message id>.json` files until they go through
+ */
+export class FailedDeliveryStore {
+  private directory: string;
+
+  constructor(config: { directory: string }) {
+    this.directory = config.directory;
+  }
+
+  async save(failure: FailedDelivery): Promise<void> {
+    await writeJson(this.directory, `${failure.message.id}.json`, failure);
+  }
+
+  async list(): Promise<FailedDelivery[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const failures = await Promise.all(files.map(async (file) => {
+      try {
+        return JSON.parse(await readFile(join(this.directory, file), 'utf8')) as FailedDelivery;
+      } catch {
+        // Files removed by a concurrent retry are skipped
+        return null;
+      }
+    }));
+
+    return failures
+      .filter((failure): failure is FailedDelivery => failure !== null)
+      .sort((a, b) => a.message.submittedAt.localeCompare(b.message.submittedAt));
+  }
+
+  async remove(id: string): Promise<void> {
+    await rm(join(this.directory, `${id}.json`), { force: true });
+  }
+}
+
+/**
+ * Build the delivery selected by `CONTACT_DELIVERY`
+ */
+export function createContactDeliveryFromEnv(): ContactDelivery {
+  switch (process.env.CONTACT_DELIVERY || 'file') {
+    case 'cf7': {
+      const formId = parseInt(process.env.CONTACT_CF7_FORM_ID || '');
+      if (!formId) {
+        throw new Error('CONTACT_DELIVERY=cf7 needs CONTACT_CF7_FORM_ID');
+      }
+      return new ContactForm7Delivery({ formId });
+    }
+    case 'smtp':
+      return new SmtpDelivery({
+        host: process.env.CONTACT_SMTP_HOST || 'localhost',
+        port: parseInt(process.env.CONTACT_SMTP_PORT || '1025'),
+        from: process.env.CONTACT_MAIL_FROM || 'wp-remix@localhost',
+        to: (process.env.CONTACT_MAIL_TO || 'admin@localhost').split(',').map(address => address.trim()),
+      });
+    case 'file':
+      return new FileDelivery({ directory: process.env.CONTACT_OUTBOX_DIR || './.data/contact/outbox' });
+    default:
+      throw new Error(`Unknown CONTACT_DELIVERY: ${process.env.CONTACT_DELIVERY}`);
+  }
+}
+
+let defaultDelivery: ContactDelivery | null = null;
+let defaultFailures: FailedDeliveryStore | null = null;
+
+function getContactDelivery(): ContactDelivery {
+  defaultDelivery ??= createContactDeliveryFromEnv();
+  return defaultDelivery;
+}
+
+function getFailedDeliveryStore(): FailedDeliveryStore {
+  defaultFailures ??= new FailedDeliveryStore({
+    directory: process.env.CONTACT_FAILED_DIR || './.data/contact/failed',
+  });
+  return defaultFailures;
+}
+
+/**
+ * Deliver a message, keeping it for a retry when delivery fails
+ */
+export async function deliverContactMessage(message: ContactMessage): Promise<'sent' | 'queued'> {
+  const delivery = getContactDelivery();
+
+  try {
+    await delivery.deliver(message);
+    return 'sent';
+  } catch (error) {
+    logger.error('Contact message failed to deliver', { id: message.id, delivery: delivery.name, err: error });
+
+    await getFailedDeliveryStore().save({
+      message,
+      delivery: delivery.name,
+      attempts: 1,
+      lastError: error instanceof Error ? error.message : String(error),
+      lastAttemptAt: new Date().toISOString(),
+    });
+    return 'queued';
+  }
+}
+
+/**
+ * Deliver failed messages again, oldest first; messages that failed
+ * `maxAttempts` times are left for someone to look at
+ */
+export async function retryFailedContactDeliveries(maxAttempts: number = 10): Promise<{
+  delivered: number;
+  failed: number;
+  skipped: number;
+}> {
+  const delivery = getContactDelivery();
+  const store = getFailedDeliveryStore();
+  const result = { delivered: 0, failed: 0, skipped: 0 };
+
+  for (const failure of await store.list()) {
+    if (failure.attempts >= maxAttempts) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      await delivery.deliver(failure.message);
+      await store.remove(failure.message.id);
+      result.delivered++;
+    } catch (error) {
+      await store.save({
+        ...failure,
+        delivery: delivery.name,
+        attempts: failure.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+        lastAttemptAt: new Date().toISOString(),
+      });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
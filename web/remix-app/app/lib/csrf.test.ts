@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { issueCsrfToken, verifyCsrfToken } from './csrf';
+
+const url = 'https://app.example.com/contact';
+
+/**
+ * A form token and the cookie the browser would send back with it
+ */
+async function renderForm(cookie?: string) {
+  const { token, setCookie } = await issueCsrfToken(
+    new Request(url, { headers: cookie ? { Cookie: cookie } : {} })
+  );
+  return { token, cookie: setCookie ? setCookie.split(';')[0] : cookie };
+}
+
+function submission(headers: Record<string, string>) {
+  return new Request(url, { method: 'POST', headers });
+}
+
+describe('CSRF tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('CSRF_SECRET', 'csrf-secret');
+    vi.stubEnv('SITE_URL', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('accepts a token with its cookie and reports the form age', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') });
+    const { token, cookie } = await renderForm();
+    vi.advanceTimersByTime(30_000);
+
+    expect(await verifyCsrfToken(submission({ Cookie: cookie! }), token)).toEqual({ valid: true, age: 30 });
+  });
+
+  it('reuses the nonce of an existing cookie', async () => {
+    const first = await renderForm();
+    const { token } = await issueCsrfToken(new Request(url, { headers: { Cookie: first.cookie! } }));
+    const second = await issueCsrfToken(new Request(url, { headers: { Cookie: first.cookie! } }));
+
+    expect(second.setCookie).toBeNull();
+    expect(await verifyCsrfToken(submission({ Cookie: first.cookie! }), token)).toMatchObject({ valid: true });
+  });
+
+  it('rejects a missing token or cookie', async () => {
+    const { token, cookie } = await renderForm();
+
+    expect(await verifyCsrfToken(submission({ Cookie: cookie! }), null))
+      .toEqual({ valid: false, reason: 'missing' });
+    expect(await verifyCsrfToken(submission({}), token)).toEqual({ valid: false, reason: 'missing' });
+  });
+
+  it("rejects a token issued for another visitor's cookie", async () => {
+    const mine = await renderForm();
+    const theirs = await renderForm();
+
+    expect(await verifyCsrfToken(submission({ Cookie: mine.cookie! }), theirs.token))
+      .toEqual({ valid: false, reason: 'signature' });
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const { token, cookie } = await renderForm();
+    vi.stubEnv('CSRF_SECRET', 'rotated');
+
+    expect(await verifyCsrfToken(submission({ Cookie: cookie! }), token)).toMatchObject({ valid: false });
+  });
+
+  it('rejects forms older than two hours', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') });
+    const { token, cookie } = await renderForm();
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000 + 1000);
+
+    expect(await verifyCsrfToken(submission({ Cookie: cookie! }), token))
+      .toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('checks the Origin header against the site', async () => {
+    const { token, cookie } = await renderForm();
+
+    expect(await verifyCsrfToken(submission({ Cookie: cookie!, Origin: 'https://evil.example' }), token))
+      .toEqual({ valid: false, reason: 'origin' });
+    expect(await verifyCsrfToken(submission({ Cookie: cookie!, Origin: 'https://app.example.com' }), token))
+      .toMatchObject({ valid: true });
+
+    vi.stubEnv('SITE_URL', 'https://www.example.com/');
+    expect(await verifyCsrfToken(submission({ Cookie: cookie!, Origin: 'https://www.example.com' }), token))
+      .toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Accessors for `_embed` data
+ *
+ * WordPress inlines linked resources under `_embedded` when a request
+ * asks for `_embed`. These helpers pull typed values out of that
+ * structure so components don't need extra requests.
+ */
+
+import { toPlainText } from './sanitize';
+import type {
+  WordPressCategory,
+  WordPressEmbedError,
+  WordPressMedia,
+  WordPressPage,
+  WordPressPost,
+  WordPressTag,
+  WordPressUser,
+} from './wordpress-types';
+
+export type EmbeddingItem = Pick<WordPressPost | WordPressPage, '_embedded'>;
+
+export interface ImageSize {
+  name: string;
+  url: string;
+  width: number;
+  height: number;
+  mimeType: string;
+}
+
+export interface FeaturedImage {
+  id: number;
+  url: string;
+  alt: string;
+  caption: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  /** Bytes, when WordPress reports it */
+  fileSize?: number;
+  sizes: ImageSize[];
+}
+
+export interface EmbeddedTerms {
+  categories: WordPressCategory[];
+  tags: WordPressTag[];
+}
+
+/**
+ * Whether an embedded entry is an error placeholder (e.g. `rest_forbidden`)
+ */
+export function isEmbedError(value: unknown): value is WordPressEmbedError {
+  return typeof value === 'object'
+    && value !== null
+    && 'code' in value
+    && !('id' in value);
+}
+
+/**
+ * Normalize a media item into a featured image with its renditions
+ * ordered from smallest to largest
+ */
+export function toFeaturedImage(media: WordPressMedia): FeaturedImage | null {
+  if (!media.source_url) {
+    return null;
+  }
+
+  const details = media.media_details;
+  const sizes = Object.entries(details?.sizes || {})
+    .map(([name, size]) => ({
+      name,
+      url: size.source_url,
+      width: size.width,
+      height: size.height,
+      mimeType: size.mime_type,
+    }))
+    .sort((a, b) => a.width - b.width);
+
+  return {
+    id: media.id,
+    url: media.source_url,
+    alt: media.alt_text || toPlainText(media.title?.rendered),
+    caption: media.caption?.rendered || '',
+    width: details?.width || 0,
+    height: details?.height || 0,
+    mimeType: media.mime_type,
+    fileSize: details?.filesize,
+    sizes,
+  };
+}
+
+/**
+ * Get the embedded featured image of a post or page
+ */
+export function getFeaturedImage(item: EmbeddingItem): FeaturedImage | null {
+  const media = item._embedded?.['wp:featuredmedia']?.[0];
+
+  if (!media || isEmbedError(media)) {
+    return null;
+  }
+
+  return toFeaturedImage(media);
+}
+
+/**
+ * Get the embedded author of a post or page
+ */
+export function getEmbeddedAuthor(item: EmbeddingItem): WordPressUser | null {
+  const author = item._embedded?.author?.[0];
+
+  if (!author || isEmbedError(author)) {
+    return null;
+  }
+
+  return author;
+}
+
+/**
+ * Get the embedded terms of a post grouped by taxonomy
+ */
+export function getEmbeddedTerms(item: EmbeddingItem): EmbeddedTerms {
+  const terms = (item._embedded?.['wp:term'] || []).flat();
+
+  return {
+    categories: terms.filter(
+      (term): term is WordPressCategory => term.taxonomy === 'category'
+    ),
+    tags: terms.filter(
+      (term): term is WordPressTag => term.taxonomy === 'post_tag'
+    ),
+  };
+}
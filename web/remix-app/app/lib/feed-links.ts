@@ -0,0 +1,44 @@
+/**
+ * Feed autodiscovery
+ *
+ * Feeds are served next to the page they syndicate: `/feed.xml` for the
+ * site, `/category/news/feed.xml` for a category. This module has no
+ * server dependencies, so `links` and `meta` functions can use it.
+ */
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Feed file names and their formats; a `Map`, so looking up a name from
+ * the URL never finds an `Object.prototype` member like `constructor`
+ */
+export const FEED_FILES = new Map<string, FeedFormat>([
+  ['feed.xml', 'rss'],
+  ['atom.xml', 'atom'],
+  ['feed.json', 'json'],
+]);
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+const FEED_LABELS: Record<FeedFormat, string> = {
+  rss: 'RSS',
+  atom: 'Atom',
+  json: 'JSON Feed',
+};
+
+/**
+ * `<link rel="alternate">` attributes for the feeds under `basePath`
+ * (`''` for the site feeds)
+ */
+export function feedLinks(basePath: string, title: string) {
+  return Array.from(FEED_FILES, ([file, format]) => ({
+    rel: 'alternate',
+    type: FEED_CONTENT_TYPES[format],
+    title: `${title} (${FEED_LABELS[format]})`,
+    href: `${basePath}/${file}`,
+  }));
+}
@@ -0,0 +1,341 @@
+/**
+ * RSS 2.0, Atom and JSON Feed output
+ *
+ * Feeds list the latest published posts of the site, a category, a tag
+ * or an author, with the full content or only the excerpt, and the
+ * featured image as an enclosure. Responses carry an ETag and
+ * Last-Modified, so feed readers polling an unchanged feed get a 304.
+ */
+
+import { createHash } from 'node:crypto';
+import { surrogateKeyHeaders } from './cache-invalidation';
+import { getEmbeddedAuthor, getEmbeddedTerms, getFeaturedImage } from './embedded';
+import { FEED_CONTENT_TYPES, FEED_FILES, type FeedFormat } from './feed-links';
+import { logger } from './logger';
+import { toPlainText } from './sanitize';
+import { absoluteUrl, getSiteUrl, SITE_NAME } from './site';
+import { getTermBySlug } from './taxonomy';
+import { wordpressApi, WordPressApiError, type WordPressPost } from './wordpress-api';
+
+/**
+ * Posts per feed
+ */
+export const FEED_SIZE = 20;
+
+export type FeedContentMode = 'full' | 'excerpt';
+
+export interface FeedScope {
+  type: 'category' | 'tag' | 'author';
+  slug: string;
+}
+
+export interface FeedItem {
+  url: string;
+  title: string;
+  /** Plain-text excerpt */
+  summary: string;
+  /** HTML content in `full` mode, with absolute URLs */
+  content?: string;
+  published: Date;
+  updated: Date;
+  author?: { name: string; url: string };
+  categories: string[];
+  enclosure?: { url: string; type: string; length?: number };
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** The page the feed syndicates */
+  homeUrl: string;
+  /** Newest modification of any item; `null` for an empty feed */
+  updated: Date | null;
+  items: FeedItem[];
+  /** Cache tags the feed goes stale with */
+  tags: string[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Prefer the UTC date; site-local dates are read as UTC
+ */
+function parseDate(local: string, gmt?: string): Date {
+  return new Date(`${gmt || local}Z`);
+}
+
+/**
+ * Make root-relative URLs (e.g. rewritten WordPress links) absolute, as
+ * feed readers resolve them against the feed rather than the post
+ */
+function absolutizeHtml(html: string, siteUrl: string): string {
+  return html.replace(
+    /\b(href|src|poster)="(\/(?!\/)[^"]*)"/g,
+    (_, name: string, path: string) => `${name}="${absoluteUrl(siteUrl, path)}"`
+  );
+}
+
+function toFeedItem(post: WordPressPost, siteUrl: string, mode: FeedContentMode): FeedItem {
+  const author = getEmbeddedAuthor(post);
+  const image = getFeaturedImage(post);
+  const { categories, tags } = getEmbeddedTerms(post);
+
+  return {
+    url: absoluteUrl(siteUrl, `/posts/${post.slug}`),
+    title: toPlainText(post.title?.rendered) || 'Untitled',
+    summary: toPlainText(post.excerpt?.rendered),
+    content: mode === 'full' ? absolutizeHtml(post.content?.rendered || '', siteUrl) : undefined,
+    published: parseDate(post.date, post.date_gmt),
+    updated: parseDate(post.modified, post.modified_gmt),
+    author: author
+      ? { name: author.name, url: absoluteUrl(siteUrl, `/authors/${author.slug}`) }
+      : undefined,
+    categories: [...categories, ...tags].map(term => toPlainText(term.name)),
+    enclosure: image
+      ? { url: image.url, type: image.mimeType, length: image.fileSize }
+      : undefined,
+  };
+}
+
+/**
+ * Load the latest posts of the site or of a scope
+ */
+export async function loadFeed(
+  scope: FeedScope | null,
+  siteUrl: string,
+  mode: FeedContentMode
+): Promise<Feed> {
+  let filter: Parameters<typeof wordpressApi.getPosts>[0] = {};
+  let title = SITE_NAME;
+  let description = `Latest posts from ${SITE_NAME}`;
+  let homePath = '/posts';
+  let tags = ['list:posts'];
+
+  if (scope?.type === 'category' || scope?.type === 'tag') {
+    const term = await getTermBySlug(scope.type, scope.slug);
+    const name = toPlainText(term.name);
+
+    filter = scope.type === 'category' ? { categories: term.id.toString() } : { tags: term.id.toString() };
+    title = `${SITE_NAME} - ${name}`;
+    description = term.description || `Posts ${scope.type === 'category' ? 'filed under' : 'tagged'} ${name}`;
+    homePath = `/${scope.type}/${term.slug}`;
+    tags = [`term:${term.id}`, 'list:posts'];
+  } else if (scope?.type === 'author') {
+    const author = await wordpressApi.getUser(scope.slug);
+
+    filter = { author: author.id };
+    title = `${SITE_NAME} - ${author.name}`;
+    description = author.description || `Posts written by ${author.name}`;
+    homePath = `/authors/${author.slug}`;
+    tags = [`user:${author.id}`, 'list:posts'];
+  }
+
+  const posts = await wordpressApi.getPosts({
+    ...filter,
+    perPage: FEED_SIZE,
+    orderby: 'date',
+    order: 'desc',
+    status: 'publish',
+  });
+  const items = posts.data.map(post => toFeedItem(post, siteUrl, mode));
+  const updated = items.reduce<Date | null>(
+    (newest, item) => (!newest || item.updated > newest ? item.updated : newest),
+    null
+  );
+
+  return {
+    title,
+    description,
+    homeUrl: absoluteUrl(siteUrl, homePath),
+    updated,
+    items,
+    tags,
+  };
+}
+
+function renderRss(feed: Feed, feedUrl: string): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    ...(item.author ? [`      <dc:creator>${escapeXml(item.author.name)}</dc:creator>`] : []),
+    ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${escapeXml(item.summary)}</description>`,
+    ...(item.content !== undefined ? [`      <content:encoded>${escapeXml(item.content)}</content:encoded>`] : []),
+    ...(item.enclosure
+      ? [`      <enclosure url="${escapeXml(item.enclosure.url)}" length="${item.enclosure.length ?? 0}" type="${escapeXml(item.enclosure.type)}"/>`]
+      : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="${FEED_CONTENT_TYPES.rss}"/>`,
+    ...(feed.updated ? [`    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`] : []),
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function renderAtom(feed: Feed, feedUrl: string): string {
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <id>${escapeXml(item.url)}</id>`,
+    `    <title type="text">${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${item.updated.toISOString()}</updated>`,
+    ...(item.author
+      ? [`    <author><name>${escapeXml(item.author.name)}</name><uri>${escapeXml(item.author.url)}</uri></author>`]
+      : []),
+    ...item.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+    `    <summary type="text">${escapeXml(item.summary)}</summary>`,
+    ...(item.content !== undefined ? [`    <content type="html">${escapeXml(item.content)}</content>`] : []),
+    ...(item.enclosure
+      ? [`    <link rel="enclosure" href="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}"${item.enclosure.length ? ` length="${item.enclosure.length}"` : ''}/>`]
+      : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title type="text">${escapeXml(feed.title)}</title>`,
+    `  <subtitle type="text">${escapeXml(feed.description)}</subtitle>`,
+    `  <updated>${(feed.updated ?? new Date(0)).toISOString()}</updated>`,
+    `  <link rel="self" type="${FEED_CONTENT_TYPES.atom}" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    // Entries without an author inherit the feed's
+    `  <author><name>${escapeXml(SITE_NAME)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function renderJson(feed: Feed, feedUrl: string): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feedUrl,
+    description: feed.description,
+    items: feed.items.map(item => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      ...(item.content !== undefined ? { content_html: item.content } : { content_text: item.summary }),
+      summary: item.summary,
+      image: item.enclosure?.url,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: item.author ? [item.author] : undefined,
+      tags: item.categories.length ? item.categories : undefined,
+      attachments: item.enclosure
+        ? [{ url: item.enclosure.url, mime_type: item.enclosure.type, size_in_bytes: item.enclosure.length }]
+        : undefined,
+    })),
+  }, null, 2);
+}
+
+/**
+ * Serialize a feed in `format`
+ */
+export function renderFeed(feed: Feed, format: FeedFormat, feedUrl: string): string {
+  switch (format) {
+    case 'rss':
+      return renderRss(feed, feedUrl);
+    case 'atom':
+      return renderAtom(feed, feedUrl);
+    case 'json':
+      return renderJson(feed, feedUrl);
+  }
+}
+
+/**
+ * Whether the client's cached copy is current: `If-None-Match` wins over
+ * `If-Modified-Since`
+ */
+function isNotModified(request: Request, etag: string, updated: Date | null): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+
+  if (ifNoneMatch) {
+    return ifNoneMatch === '*' || ifNoneMatch
+      .split(',')
+      .some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+  }
+
+  const ifModifiedSince = Date.parse(request.headers.get('If-Modified-Since') || '');
+
+  // HTTP dates have second precision
+  return Boolean(updated) && !Number.isNaN(ifModifiedSince)
+    && Math.floor((updated as Date).getTime() / 1000) <= Math.floor(ifModifiedSince / 1000);
+}
+
+/**
+ * Answer a feed request: `file` picks the format (`feed.xml`, `atom.xml`,
+ * `feed.json`) and `?content=excerpt|full` overrides `FEED_CONTENT`
+ */
+export async function feedLoader(
+  request: Request,
+  file: string,
+  scope: FeedScope | null = null
+): Promise<Response> {
+  const format = FEED_FILES.get(file);
+
+  if (!format) {
+    throw new Response('Not Found', { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const requested = url.searchParams.get('content') || process.env.FEED_CONTENT;
+  const mode: FeedContentMode = requested === 'excerpt' ? 'excerpt' : 'full';
+  const siteUrl = getSiteUrl(request);
+  const feedUrl = absoluteUrl(siteUrl, `${url.pathname}${url.search}`);
+
+  let feed: Feed;
+  try {
+    feed = await loadFeed(scope, siteUrl, mode);
+  } catch (error) {
+    logger.forRequest(request).error('Error loading feed', { feed: scope, err: error });
+
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response('Not Found', { status: 404 });
+    }
+
+    throw new Response('Internal Server Error', { status: 500 });
+  }
+
+  const body = renderFeed(feed, format, feedUrl);
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+  const headers: Record<string, string> = {
+    'Content-Type': `${FEED_CONTENT_TYPES[format]}; charset=utf-8`,
+    'Cache-Control': 'public, max-age=300, s-maxage=900',
+    'ETag': etag,
+    ...(feed.updated ? { 'Last-Modified': feed.updated.toUTCString() } : {}),
+    ...surrogateKeyHeaders(feed.tags),
+  };
+
+  if (isNotModified(request, etag, feed.updated)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, { headers });
+}
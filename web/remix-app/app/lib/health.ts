@@ -0,0 +1,136 @@
+/**
+ * Liveness and readiness reports
+ *
+ * Every service answers its health endpoints with the same schema:
+ *
+ * - `status`: `ok`, `degraded` (serving, with a dependency slow or
+ *   failing) or `down` (a required dependency is unavailable)
+ * - `checks`: the status, latency and details of each dependency
+ *
+ * Liveness only says the process responds; readiness checks WordPress,
+ * its database, the response cache and the circuit breaker. WordPress and
+ * the database are required: without them pages can only come from stale
+ * cache entries, so readiness is `down` (503). Anything else failing, or
+ * a required dependency slower than `HEALTH_DEGRADED_LATENCY_MS` (1000),
+ * is `degraded` (200).
+ */
+
+import { json } from '@remix-run/node';
+import { wordpressApi, type CircuitSnapshot } from './wordpress-api';
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface HealthCheck {
+  status: HealthStatus;
+  /** Time the check took, or the latency WordPress measured (ms) */
+  latencyMs: number | null;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  service: string;
+  timestamp: string;
+  uptimeSeconds: number;
+  checks: Record<string, HealthCheck>;
+}
+
+const SERVICE = 'remix-app';
+
+/**
+ * Dependencies whose outage makes the service unavailable
+ */
+const REQUIRED_CHECKS = ['wordpress', 'database'];
+
+/**
+ * Overall status: `down` when a required check is down, `degraded` when
+ * any check is not `ok`
+ */
+export function summarize(checks: Record<string, HealthCheck>, required = REQUIRED_CHECKS): HealthStatus {
+  const entries = Object.entries(checks);
+
+  if (entries.some(([name, check]) => required.includes(name) && check.status === 'down')) {
+    return 'down';
+  }
+  return entries.every(([, check]) => check.status === 'ok') ? 'ok' : 'degraded';
+}
+
+/**
+ * `check`, degraded when it took longer than `HEALTH_DEGRADED_LATENCY_MS`
+ */
+function withLatencyLimit(check: HealthCheck): HealthCheck {
+  const limit = parseInt(process.env.HEALTH_DEGRADED_LATENCY_MS || '1000');
+
+  if (check.status === 'ok' && check.latencyMs !== null && check.latencyMs > limit) {
+    return { ...check, status: 'degraded', message: `Slower than ${limit}ms` };
+  }
+  return check;
+}
+
+function circuitCheck(snapshot: CircuitSnapshot): HealthCheck {
+  const details = {
+    state: snapshot.state,
+    failures: snapshot.failures,
+    retryAt: snapshot.retryAt ? new Date(snapshot.retryAt).toISOString() : null,
+    lastError: snapshot.lastError,
+  };
+
+  switch (snapshot.state) {
+    case 'closed':
+      return { status: 'ok', latencyMs: null, details };
+    case 'half-open':
+      return { status: 'degraded', latencyMs: null, message: 'Trial requests are testing WordPress', details };
+    case 'open':
+      return { status: 'down', latencyMs: null, message: 'Requests to WordPress are failing fast', details };
+  }
+}
+
+/**
+ * Liveness: the process is up and serving requests
+ */
+export function getLiveness(): HealthReport {
+  return {
+    status: 'ok',
+    service: SERVICE,
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks: {},
+  };
+}
+
+/**
+ * Readiness: every dependency checked at once
+ */
+export async function getReadiness(): Promise<HealthReport> {
+  const [{ wordpress, database }, cache] = await Promise.all([
+    wordpressApi.healthCheck(),
+    wordpressApi.checkCache(),
+  ]);
+  const checks = {
+    wordpress: withLatencyLimit(wordpress),
+    database: withLatencyLimit(database),
+    cache,
+    circuit: circuitCheck(wordpressApi.getCircuitState()),
+  };
+
+  return {
+    status: summarize(checks),
+    service: SERVICE,
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks,
+  };
+}
+
+/**
+ * A report as an uncached response: 503 when `down`, otherwise 200
+ */
+export function healthResponse(report: HealthReport): Response {
+  return json(report, {
+    status: report.status === 'down' ? 503 : 200,
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    },
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Structured logging
+ *
+ * One JSON object per line in pino's format, like the other Watt
+ * services, so logs can be filtered by level and fields and read with
+ * `pino-pretty`. Lines written while a trace is active, or through
+ * `logger.forRequest(request)`, carry its `trace_id` and `span_id`.
+ *
+ * `LOG_LEVEL` sets the lowest level written (`info`).
+ */
+
+import { hostname } from 'node:os';
+import { activeTrace, traceFromRequest } from './tracing';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown> & {
+  /** Serialized with its name, message, stack, status and code */
+  err?: unknown;
+};
+
+/**
+ * pino's numeric levels
+ */
+const LEVELS: Record<LogLevel, number> = { debug: 20, info: 30, warn: 40, error: 50 };
+
+export class Logger {
+  private threshold: number;
+
+  constructor(
+    private bindings: Record<string, unknown> = {},
+    level: LogLevel = 'info'
+  ) {
+    this.threshold = LEVELS[level] ?? LEVELS.info;
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  /**
+   * A logger adding `bindings` to every line, e.g. `{ module: 'cache' }`
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    const child = Object.create(this) as Logger;
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
+  }
+
+  /**
+   * A logger for lines about `request`, carrying its trace IDs outside
+   * WordPress calls too (e.g. in a loader's error handling)
+   */
+  forRequest(request: Request): Logger {
+    const trace = traceFromRequest(request);
+    return this.child({ trace_id: trace.traceId, ...(trace.spanId ? { span_id: trace.spanId } : {}) });
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < this.threshold) return;
+
+    const trace = activeTrace();
+    const { err, ...rest } = fields;
+    const line = JSON.stringify({
+      level: LEVELS[level],
+      time: Date.now(),
+      pid: process.pid,
+      hostname: hostname(),
+      ...this.bindings,
+      ...(trace ? { trace_id: trace.traceId, span_id: trace.spanId } : {}),
+      ...rest,
+      ...(err === undefined ? {} : { err: serializeError(err) }),
+      msg,
+    });
+
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+
+  const { status, code } = error as Error & { status?: number; code?: string };
+  return {
+    type: error.name,
+    message: error.message,
+    ...(status === undefined ? {} : { status }),
+    ...(code === undefined ? {} : { code }),
+    stack: error.stack,
+  };
+}
+
+/**
+ * The app's logger
+ */
+export const logger = new Logger(
+  { name: 'remix-app' },
+  (process.env.LOG_LEVEL as LogLevel | undefined) || 'info'
+);
@@ -0,0 +1,262 @@
+/**
+ * Navigation menus
+ *
+ * Menus are read by theme location from WordPress, so editors can change
+ * the site navigation without a deploy:
+ *
+ * 1. Classic menus: `/wp/v2/menu-locations` and `/wp/v2/menu-items`
+ *    (WordPress 5.9+, readable with the configured credentials)
+ * 2. Block themes: the `/wp/v2/navigation` menu whose slug is the
+ *    location, or the newest one for the primary location
+ *
+ * Links to WordPress posts, pages and terms are mapped to this app's
+ * routes. When neither source has a menu, a fallback is used.
+ */
+
+import { numberAttr, parseBlocks, stringAttr, urlAttr, type Block } from './blocks';
+import { logger } from './logger';
+import { getPageTree, type PageNode, type PageTree } from './page-tree';
+import { toPlainText } from './sanitize';
+import {
+  wordpressApi,
+  WordPressApiError,
+  type WordPressMenuItem,
+  type WordPressNavigation,
+} from './wordpress-api';
+
+export const PRIMARY_MENU_LOCATION = 'primary';
+export const FOOTER_MENU_LOCATION = 'footer';
+
+export interface MenuItem {
+  id: string;
+  label: string;
+  url: string;
+  /** `_blank` to open in a new tab */
+  target?: string;
+  children: MenuItem[];
+}
+
+export interface Menu {
+  location: string;
+  title: string;
+  source: 'menus' | 'navigation' | 'fallback';
+  items: MenuItem[];
+}
+
+/**
+ * What a menu entry links to, as WordPress describes it
+ */
+interface MenuLinkTarget {
+  url: string;
+  /** Post type or taxonomy: `page`, `post`, `category`, `post_tag`/`tag` */
+  object?: string;
+  objectId?: number;
+}
+
+/**
+ * Links to the main routes, for when WordPress has no primary menu
+ */
+export const DEFAULT_MENU_ITEMS: MenuItem[] = [
+  { id: 'home', label: 'Home', url: '/', children: [] },
+  { id: 'posts', label: 'Blog', url: '/posts', children: [] },
+  { id: 'about', label: 'About', url: '/about', children: [] },
+  { id: 'contact', label: 'Contact', url: '/contact', children: [] },
+];
+
+function lastPathSegment(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname.split('/').filter(Boolean).pop() || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Map a menu link to this app's route for the object it points at
+ */
+function toMenuUrl(target: MenuLinkTarget, tree: PageTree | null): string {
+  const slug = lastPathSegment(target.url);
+
+  switch (target.object) {
+    case 'page':
+      return (target.objectId && tree?.byId.get(target.objectId)?.path) || target.url;
+    case 'post':
+      return slug ? `/posts/${slug}` : target.url;
+    case 'category':
+      return slug ? `/category/${slug}` : target.url;
+    case 'post_tag':
+    case 'tag':
+      return slug ? `/tag/${slug}` : target.url;
+    default:
+      return target.url;
+  }
+}
+
+/**
+ * Menus are optional: WordPress answers 401/403 without credentials and
+ * 404 on versions or themes without menu endpoints
+ */
+function isUnavailable(error: unknown): boolean {
+  return error instanceof WordPressApiError
+    && (error.status === 401 || error.status === 403 || error.status === 404);
+}
+
+/**
+ * Nest classic menu items under their parents
+ */
+function buildMenuTree(items: WordPressMenuItem[], tree: PageTree | null): MenuItem[] {
+  const nodes = new Map<number, MenuItem>();
+  const roots: MenuItem[] = [];
+
+  const sorted = [...items].sort((a, b) => a.menu_order - b.menu_order);
+
+  for (const item of sorted) {
+    nodes.set(item.id, {
+      id: String(item.id),
+      label: toPlainText(item.title.rendered),
+      url: toMenuUrl({ url: item.url, object: item.object, objectId: item.object_id }, tree),
+      target: item.target || undefined,
+      children: [],
+    });
+  }
+
+  for (const item of sorted) {
+    const node = nodes.get(item.id) as MenuItem;
+    const parent = item.parent ? nodes.get(item.parent) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+}
+
+function pageNodeToMenuItem(node: PageNode): MenuItem {
+  return {
+    id: `page-${node.id}`,
+    label: node.title,
+    url: node.path,
+    children: node.children.map(pageNodeToMenuItem),
+  };
+}
+
+/**
+ * Menu items from the blocks of a navigation menu
+ */
+function navigationBlocksToItems(blocks: Block[], tree: PageTree | null, prefix: string = 'nav'): MenuItem[] {
+  return blocks.flatMap((block, index): MenuItem[] => {
+    const id = `${prefix}-${index}`;
+
+    switch (block.blockName) {
+      case 'core/navigation-link':
+      case 'core/navigation-submenu':
+        return [{
+          id,
+          label: toPlainText(stringAttr(block, 'label') ?? ''),
+          url: toMenuUrl({
+            url: urlAttr(block, 'url') ?? '#',
+            object: stringAttr(block, 'type'),
+            objectId: numberAttr(block, 'id'),
+          }, tree),
+          target: block.attrs.opensInNewTab === true ? '_blank' : undefined,
+          children: navigationBlocksToItems(block.innerBlocks, tree, id),
+        }];
+      case 'core/home-link':
+        return [{ id, label: toPlainText(stringAttr(block, 'label') || 'Home'), url: '/', children: [] }];
+      case 'core/page-list':
+        return tree ? tree.roots.map(pageNodeToMenuItem) : [];
+      default:
+        // Wrappers (e.g. core/navigation) contribute their inner links
+        return navigationBlocksToItems(block.innerBlocks, tree, id);
+    }
+  });
+}
+
+async function getClassicMenu(location: string, tree: PageTree | null): Promise<Menu | null> {
+  const locations = await wordpressApi.getMenuLocations().catch((error) => {
+    if (isUnavailable(error)) return null;
+    throw error;
+  });
+  const assigned = locations?.[location];
+
+  if (!assigned?.menu) {
+    return null;
+  }
+
+  const items = await wordpressApi.getMenuItems(assigned.menu);
+
+  return {
+    location,
+    title: assigned.description || assigned.name,
+    source: 'menus',
+    items: buildMenuTree(items, tree),
+  };
+}
+
+async function getNavigationMenu(location: string, tree: PageTree | null): Promise<Menu | null> {
+  const navigations: WordPressNavigation[] = await wordpressApi.getNavigations().catch((error) => {
+    if (isUnavailable(error)) return [];
+    throw error;
+  });
+
+  const navigation = navigations.find(candidate => candidate.slug === location)
+    ?? (location === PRIMARY_MENU_LOCATION ? navigations[0] : undefined);
+
+  // Without credentials only rendered HTML is returned, which has no links
+  const markup = navigation?.content.raw;
+  if (!navigation || !markup) {
+    return null;
+  }
+
+  return {
+    location,
+    title: toPlainText(navigation.title.rendered),
+    source: 'navigation',
+    items: navigationBlocksToItems(parseBlocks(markup), tree),
+  };
+}
+
+/**
+ * Load the menu for a theme location, using `fallback` when WordPress
+ * has none or is unreachable
+ */
+export async function getMenu(
+  location: string,
+  fallback: { title: string; items: () => MenuItem[] | Promise<MenuItem[]> }
+): Promise<Menu> {
+  try {
+    const tree = await getPageTree().catch(() => null);
+    const menu = await getClassicMenu(location, tree)
+      ?? await getNavigationMenu(location, tree);
+
+    if (menu) {
+      return menu;
+    }
+  } catch (error) {
+    logger.warn('Menu unavailable', { location, err: error });
+  }
+
+  return {
+    location,
+    title: fallback.title,
+    source: 'fallback',
+    items: await Promise.resolve(fallback.items()).catch(() => []),
+  };
+}
+
+/**
+ * The most used categories, as the footer menu fallback
+ */
+export async function getCategoryMenuItems(limit: number = 5): Promise<MenuItem[]> {
+  const categories = await wordpressApi.getCategories({
+    perPage: limit,
+    orderby: 'count',
+    order: 'desc',
+    hide_empty: true,
+  });
+
+  return categories.data.map(category => ({
+    id: `category-${category.id}`,
+    label: category.name,
+    url: `/category/${category.slug}`,
+    children: [],
+  }));
+}
@@ -0,0 +1,269 @@
+/**
+ * Prometheus metrics
+ *
+ * A small registry rendering the Prometheus text format for `/metrics`,
+ * and the metrics the WordPress client records:
+ *
+ * - upstream request latency and counts by endpoint and status, for each
+ *   HTTP attempt
+ * - retries by the failure that caused them
+ * - response cache lookups by result, and the hit ratio
+ * - circuit breaker state
+ *
+ * Values are per process: each Watt worker serves its own.
+ */
+
+import type { CircuitState } from './circuit-breaker';
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+function labelKey(names: string[], labels: Labels): string {
+  return JSON.stringify(names.map(name => labels[name] ?? ''));
+}
+
+function formatLabels(names: string[], values: string[], extra = ''): string {
+  const pairs = names.map((name, index) => `${name}="${escapeLabel(values[index])}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return value.toString();
+}
+
+/**
+ * A value that only goes up
+ */
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[] = []) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  /**
+   * Current value for `labels`, summed over labels left out
+   */
+  get(labels: Labels = {}): number {
+    let total = 0;
+    for (const [key, value] of this.values) {
+      const values: string[] = JSON.parse(key);
+      if (this.labelNames.every((name, index) => labels[name] === undefined || labels[name] === values[index])) {
+        total += value;
+      }
+    }
+    return total;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values, ([key, value]) =>
+        `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`
+      ),
+    ];
+  }
+}
+
+/**
+ * A value that goes up and down
+ */
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[] = []) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(this.labelNames, labels), value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...Array.from(this.values, ([key, value]) =>
+        `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Observations counted into cumulative buckets, e.g. request durations
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = [],
+    readonly buckets: number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) series.buckets[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const [key, series] of this.series) {
+      const values: string[] = JSON.parse(key);
+      let cumulative = 0;
+
+      this.buckets.forEach((bound, index) => {
+        cumulative += series.buckets[index];
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, `le="${bound}"`)} ${cumulative}`);
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels(this.labelNames, values, 'le="+Inf"')} ${series.count}`,
+        `${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(series.sum)}`,
+        `${this.name}_count${formatLabels(this.labelNames, values)} ${series.count}`
+      );
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Metrics rendered together, with hooks to update gauges when scraped
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames?: string[]): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Run `collect` before every render
+   */
+  onCollect(collect: () => void | Promise<void>): void {
+    this.collectors.push(collect);
+  }
+
+  /**
+   * Every metric in the Prometheus text format
+   */
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map(collect => collect()));
+    return `${this.metrics.flatMap(metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * `Content-Type` of `MetricsRegistry.render()` output
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
+
+export const upstreamDuration = metrics.histogram(
+  'wordpress_upstream_request_duration_seconds',
+  'Duration of HTTP attempts to WordPress',
+  ['method', 'endpoint', 'status'],
+  [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+export const upstreamRequests = metrics.counter(
+  'wordpress_upstream_requests_total',
+  'HTTP attempts to WordPress by status code, or timeout, error or aborted',
+  ['method', 'endpoint', 'status']
+);
+
+export const upstreamRetries = metrics.counter(
+  'wordpress_upstream_retries_total',
+  'WordPress requests retried, by the status or failure of the attempt before',
+  ['reason']
+);
+
+export const cacheLookups = metrics.counter(
+  'wordpress_cache_lookups_total',
+  'Response cache lookups by result: hit, stale or miss',
+  ['result']
+);
+
+export const cacheStaleIfError = metrics.counter(
+  'wordpress_cache_stale_if_error_total',
+  'Stale responses served because WordPress failed'
+);
+
+const cacheHitRatio = metrics.gauge(
+  'wordpress_cache_hit_ratio',
+  'Share of cache lookups answered from the cache, fresh or stale'
+);
+
+const circuitState = metrics.gauge(
+  'wordpress_circuit_state',
+  'Circuit breaker state, 1 for the current one',
+  ['state']
+);
+
+metrics.onCollect(() => {
+  const lookups = cacheLookups.get();
+  const answered = cacheLookups.get({ result: 'hit' }) + cacheLookups.get({ result: 'stale' });
+  cacheHitRatio.set({}, lookups ? answered / lookups : 0);
+});
+
+/**
+ * Record the breaker moving to `state`
+ */
+export function setCircuitState(state: CircuitState): void {
+  for (const candidate of ['closed', 'half-open', 'open'] satisfies CircuitState[]) {
+    circuitState.set({ state: candidate }, candidate === state ? 1 : 0);
+  }
+}
+
+setCircuitState('closed');
+
+/**
+ * `endpoint` label for a REST path: the route without query or IDs,
+ * e.g. `/wp/v2/posts?slug=hello` and `/wp/v2/posts/12` are `/wp/v2/posts`
+ */
+export function endpointLabel(path: string): string {
+  return path.split('?')[0]
+    .split('/')
+    .slice(0, 4)
+    .filter(segment => !/^\d+$/.test(segment))
+    .join('/') || '/';
+}
@@ -1,5 +1,13 @@
-// Mock WordPress data for testing the Remix application
-import type { WordPressPost, WordPressPage } from './wordpress';
+// Mock WordPress data served by MockTransport
+import type {
+  WordPressComment,
+  WordPressEntry,
+  WordPressMenuItem,
+  WordPressMenuLocation,
+  WordPressPage,
+  WordPressPost,
+  WordPressPostType,
+} from './wordpress-types';
 
 export const mockPosts: WordPressPost[] = [
   {
@@ -59,6 +67,8 @@ export const mockPages: WordPressPage[] = [
     date: '2024-01-10T12:00:00',
     modified: '2024-01-10T12:00:00',
     parent: 0,
+    menu_order: 0,
+    featured_media: 0,
     status: 'publish',
     _links: {
       self: [{ href: 'http://localhost/wp-json/wp/v2/pages/4' }]
@@ -73,28 +83,225 @@ export const mockPages: WordPressPage[] = [
     date: '2024-01-12T15:30:00',
     modified: '2024-01-12T15:30:00',
     parent: 0,
+    menu_order: 0,
+    featured_media: 0,
     status: 'publish',
     _links: {
       self: [{ href: 'http://localhost/wp-json/wp/v2/pages/5' }]
     }
+  },
+  {
+    id: 6,
+    title: { rendered: 'Our Team' },
+    content: { rendered: '<p>Meet the people behind our projects: designers, developers and content specialists working across React, Remix and WordPress.</p>' },
+    excerpt: { rendered: '<p>Meet the people behind our projects...</p>' },
+    slug: 'team',
+    date: '2024-01-14T09:00:00',
+    modified: '2024-01-14T09:00:00',
+    parent: 4,
+    menu_order: 1,
+    featured_media: 0,
+    status: 'publish',
+    _links: {
+      self: [{ href: 'http://localhost/wp-json/wp/v2/pages/6' }]
+    }
+  }
+];
+
+export const mockMenuLocations: Record<string, WordPressMenuLocation> = {
+  primary: { name: 'primary', description: 'Primary Menu', menu: 2 },
+  footer: { name: 'footer', description: 'Footer Menu', menu: 0 }
+};
+
+export const mockMenuItems: WordPressMenuItem[] = [
+  {
+    id: 10,
+    title: { rendered: 'Home' },
+    url: '/',
+    attr_title: '',
+    type: 'custom',
+    object: 'custom',
+    object_id: 10,
+    parent: 0,
+    menu_order: 1,
+    target: '',
+    classes: [],
+    menus: 2
+  },
+  {
+    id: 11,
+    title: { rendered: 'Blog' },
+    url: '/posts',
+    attr_title: '',
+    type: 'custom',
+    object: 'custom',
+    object_id: 11,
+    parent: 0,
+    menu_order: 2,
+    target: '',
+    classes: [],
+    menus: 2
+  },
+  {
+    id: 12,
+    title: { rendered: 'About Us' },
+    url: 'http://localhost/about/',
+    attr_title: '',
+    type: 'post_type',
+    object: 'page',
+    object_id: 4,
+    parent: 0,
+    menu_order: 3,
+    target: '',
+    classes: [],
+    menus: 2
+  },
+  {
+    id: 13,
+    title: { rendered: 'Our Team' },
+    url: 'http://localhost/about/team/',
+    attr_title: '',
+    type: 'post_type',
+    object: 'page',
+    object_id: 6,
+    parent: 12,
+    menu_order: 4,
+    target: '',
+    classes: [],
+    menus: 2
+  },
+  {
+    id: 14,
+    title: { rendered: 'Contact' },
+    url: 'http://localhost/contact/',
+    attr_title: '',
+    type: 'post_type',
+    object: 'page',
+    object_id: 5,
+    parent: 0,
+    menu_order: 5,
+    target: '',
+    classes: [],
+    menus: 2
   }
 ];
 
-// Mock WordPress API functions for testing
-export async function getMockPosts(): Promise<WordPressPost[]> {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  return mockPosts;
-}
+export const mockComments: WordPressComment[] = [
+  {
+    id: 1,
+    post: 1,
+    parent: 0,
+    author: 0,
+    author_name: 'A WordPress Commenter',
+    author_url: 'https://wordpress.org/',
+    date: '2024-01-15T12:00:00',
+    content: { rendered: '<p>Hi, this is a comment.</p>\n' },
+    link: 'http://localhost/welcome-to-wordpress/#comment-1',
+    status: 'approved',
+    type: 'comment',
+    _links: {}
+  },
+  {
+    id: 2,
+    post: 1,
+    parent: 1,
+    author: 1,
+    author_name: 'admin',
+    author_url: '',
+    date: '2024-01-15T13:30:00',
+    content: { rendered: '<p>Thanks for stopping by!</p>\n' },
+    link: 'http://localhost/welcome-to-wordpress/#comment-2',
+    status: 'approved',
+    type: 'comment',
+    _links: {}
+  },
+  {
+    id: 3,
+    post: 1,
+    parent: 0,
+    author: 0,
+    author_name: 'Jane Reader',
+    author_url: '',
+    date: '2024-01-16T09:15:00',
+    content: { rendered: '<p>Looking forward to more posts about Remix.</p>\n' },
+    link: 'http://localhost/welcome-to-wordpress/#comment-3',
+    status: 'approved',
+    type: 'comment',
+    _links: {}
+  }
+];
+
+const mockType = (
+  slug: string,
+  name: string,
+  restBase: string,
+  extra: Partial<WordPressPostType> = {}
+): WordPressPostType => ({
+  slug,
+  name,
+  description: '',
+  hierarchical: false,
+  has_archive: false,
+  taxonomies: [],
+  rest_base: restBase,
+  rest_namespace: 'wp/v2',
+  _links: {},
+  ...extra,
+});
 
-export async function getMockPost(slug: string): Promise<WordPressPost | null> {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  return mockPosts.find(post => post.slug === slug) || null;
-}
+export const mockTypes: Record<string, WordPressPostType> = {
+  post: mockType('post', 'Posts', 'posts', { taxonomies: ['category', 'post_tag'] }),
+  page: mockType('page', 'Pages', 'pages', { hierarchical: true }),
+  attachment: mockType('attachment', 'Media', 'media'),
+  event: mockType('event', 'Events', 'events', { has_archive: 'events' }),
+  case_study: mockType('case_study', 'Case Studies', 'case-studies', { has_archive: 'case-studies' }),
+};
 
-export async function getMockPageBySlug(slug: string): Promise<WordPressPage | null> {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  return mockPages.find(page => page.slug === slug) || null;
-}
\ No newline at end of file
+export const mockEvents: WordPressEntry[] = [
+  {
+    id: 20,
+    type: 'event',
+    title: { rendered: 'Remix &amp; WordPress Meetup' },
+    content: { rendered: '<p>An evening of talks about headless WordPress with Remix.</p>' },
+    excerpt: { rendered: '<p>Talks about headless WordPress with Remix.</p>' },
+    slug: 'remix-wordpress-meetup',
+    date: '2024-02-01T09:00:00',
+    modified: '2024-02-01T09:00:00',
+    featured_media: 0,
+    author: 1,
+    status: 'publish',
+    acf: {
+      start_date: '2024-03-14 18:00:00',
+      end_date: '2024-03-14 21:00:00',
+      venue: 'Oslo Science Park',
+      registration_url: 'https://example.com/register',
+    },
+    _links: {}
+  }
+];
+
+export const mockCaseStudies: WordPressEntry[] = [
+  {
+    id: 21,
+    type: 'case_study',
+    title: { rendered: 'Rebuilding a News Site' },
+    content: { rendered: '<p>How a newsroom moved its front end to Remix.</p>' },
+    excerpt: { rendered: '<p>How a newsroom moved its front end to Remix.</p>' },
+    slug: 'rebuilding-a-news-site',
+    date: '2024-02-10T09:00:00',
+    modified: '2024-02-10T09:00:00',
+    featured_media: 0,
+    author: 1,
+    status: 'publish',
+    acf: {
+      client: 'Example News',
+      industry: 'Media',
+      results: [
+        { metric: 'Time to first byte', value: '-60%' },
+        { metric: 'Editorial publishing time', value: '-25%' },
+      ],
+      testimonial: 'Our editors kept WordPress and our readers got a faster site.',
+    },
+    _links: {}
+  }
+];
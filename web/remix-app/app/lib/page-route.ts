@@ -0,0 +1,138 @@
+/**
+ * Page routes
+ *
+ * Loads a page at its hierarchical path for the splat route, and for
+ * `$type.$slug` when the first segment is not a custom post type.
+ */
+
+import { json, redirect } from '@remix-run/node';
+import { getContentBlocks } from './blocks';
+import { surrogateKeyHeaders } from './cache-invalidation';
+import { logger } from './logger';
+import {
+  findPageByPath,
+  getAncestors,
+  getPagePathBySlug,
+  getPageTree,
+  toPageLink,
+} from './page-tree';
+import { getPreviewSession, PREVIEW_HEADERS } from './preview';
+import { rewriteWordPressLink } from './sanitize';
+import { createSanitizePolicyFromEnv, wordpressApi, WordPressApiError } from './wordpress-api';
+
+type WordPressApi = ReturnType<typeof wordpressApi.forRequest>;
+
+/**
+ * Whether posts live at single-segment paths, i.e. WordPress uses "post
+ * name" permalinks (`/%postname%/`), judging by the newest post's link.
+ * The listing is cached, so on sites with other permalinks unknown paths
+ * 404 without a WordPress request each.
+ */
+async function hasPostNamePermalinks(api: WordPressApi): Promise<boolean> {
+  const { data: [post] } = await api.getPosts({ perPage: 1, fields: ['slug', 'link'] });
+
+  return !!post?.link && rewriteWordPressLink(post.link, createSanitizePolicyFromEnv().siteUrls) === `/${post.slug}`;
+}
+
+/**
+ * Loader data for the page at `segments`, with breadcrumbs and child pages
+ *
+ * Throws 301 redirects to a page's canonical path (and for the old
+ * `/pages/{slug}` and post-name URLs) and 404/500 responses.
+ */
+export async function loadPage(request: Request, segments: string[]) {
+  if (segments.length === 0) {
+    throw new Response('Not Found', { status: 404 });
+  }
+
+  try {
+    const api = wordpressApi.forRequest(request);
+    const tree = await getPageTree();
+    const slug = segments[segments.length - 1];
+
+    // Previews read the latest draft, autosave or revision, uncached
+    const preview = await getPreviewSession(request, 'page', slug);
+    if (preview) {
+      const page = await api.getPagePreview(preview.id);
+      const blocks = getContentBlocks(page);
+      const [image, media] = await Promise.all([
+        api.resolveFeaturedImage(page),
+        blocks ? api.resolveBlockMedia(blocks) : {},
+      ]);
+
+      return json({
+        kind: 'page' as const,
+        page,
+        image,
+        blocks,
+        media,
+        breadcrumbs: getAncestors(tree, page),
+        children: tree.byId.get(page.id)?.children.map(toPageLink) ?? [],
+        preview: true,
+      }, {
+        headers: PREVIEW_HEADERS,
+      });
+    }
+
+    const node = findPageByPath(tree, segments);
+
+    if (!node) {
+      // Pages used to live at /pages/{slug}
+      if (segments.length === 2 && segments[0] === 'pages') {
+        throw redirect(encodeURI(await getPagePathBySlug(slug)), 301);
+      }
+
+      // WordPress "post name" permalinks, e.g. rewritten content links
+      if (segments.length === 1 && await hasPostNamePermalinks(api)) {
+        const post = await api.getPost(slug).catch((error) => {
+          if (error instanceof WordPressApiError && error.status === 404) return null;
+          throw error;
+        });
+        if (post) {
+          throw redirect(`/posts/${encodeURIComponent(post.slug)}`, 301);
+        }
+      }
+
+      throw new Response('Page Not Found', { status: 404 });
+    }
+
+    // One URL per page: trailing slashes and ID segments redirect
+    if (new URL(request.url).pathname !== encodeURI(node.path)) {
+      throw redirect(encodeURI(node.path), 301);
+    }
+
+    // Stale cached content is served when WordPress is unreachable
+    const page = await api.getPage(node.id);
+
+    const blocks = getContentBlocks(page);
+    const [image, media] = await Promise.all([
+      api.resolveFeaturedImage(page),
+      blocks ? api.resolveBlockMedia(blocks) : {},
+    ]);
+
+    return json({
+      kind: 'page' as const,
+      page,
+      image,
+      blocks,
+      media,
+      breadcrumbs: getAncestors(tree, node),
+      children: node.children.map(toPageLink),
+      preview: false,
+    }, {
+      headers: surrogateKeyHeaders([`post:${page.id}`, 'list:pages']),
+    });
+  } catch (error) {
+    if (error instanceof Response) {
+      throw error;
+    }
+    
+    logger.forRequest(request).error('Error loading page', { path: segments.join('/'), err: error });
+    
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response('Page Not Found', { status: 404 });
+    }
+    
+    throw new Response('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Page hierarchy
+ *
+ * WordPress pages nest through `parent`, and their public paths are the
+ * slugs of the whole parent chain (`/about/team/leadership`). The tree is
+ * built from every published page, fetched with only the fields needed
+ * for routing, and shares the `pages` cache and invalidation tags.
+ */
+
+import { toPlainText } from './sanitize';
+import { wordpressApi, WordPressApiError, type WordPressPage } from './wordpress-api';
+
+export interface PageNode {
+  id: number;
+  slug: string;
+  title: string;
+  parent: number;
+  menuOrder: number;
+  /** Route path, e.g. `/about/team` */
+  path: string;
+  children: PageNode[];
+}
+
+/**
+ * A page as linked from breadcrumbs and child page lists
+ */
+export interface PageLink {
+  id: number;
+  title: string;
+  path: string;
+}
+
+export interface PageTree {
+  roots: PageNode[];
+  byId: Map<number, PageNode>;
+}
+
+/**
+ * Pages requested per call while building the tree (the REST maximum)
+ */
+const TREE_PAGE_SIZE = 100;
+
+/**
+ * WordPress stores non-ASCII slugs percent-encoded
+ */
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
+/**
+ * Build the tree from a flat list of pages
+ *
+ * Pages whose parent is not in the list (e.g. a private parent) become
+ * roots, so they stay reachable.
+ */
+export function buildPageTree(
+  pages: Array<Pick<WordPressPage, 'id' | 'slug' | 'title' | 'parent' | 'menu_order'>>
+): PageTree {
+  const byId = new Map<number, PageNode>();
+
+  for (const page of pages) {
+    byId.set(page.id, {
+      id: page.id,
+      slug: page.slug,
+      title: toPlainText(page.title?.rendered) || 'Untitled',
+      parent: page.parent,
+      menuOrder: page.menu_order ?? 0,
+      path: '',
+      children: [],
+    });
+  }
+
+  const roots: PageNode[] = [];
+
+  for (const node of byId.values()) {
+    const parent = node.parent ? byId.get(node.parent) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const assignPaths = (nodes: PageNode[], prefix: string) => {
+    nodes.sort((a, b) => a.menuOrder - b.menuOrder || a.title.localeCompare(b.title));
+
+    for (const node of nodes) {
+      node.path = `${prefix}/${decodeSlug(node.slug) || node.id}`;
+      assignPaths(node.children, node.path);
+    }
+  };
+
+  assignPaths(roots, '');
+
+  return { roots, byId };
+}
+
+/**
+ * Load every published page and build the tree
+ */
+export async function getPageTree(): Promise<PageTree> {
+  const pages: WordPressPage[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await wordpressApi.getPages({
+      page,
+      perPage: TREE_PAGE_SIZE,
+      orderby: 'menu_order',
+      order: 'asc',
+      fields: ['id', 'slug', 'title', 'parent', 'menu_order'],
+    });
+
+    pages.push(...response.data);
+    totalPages = response.totalPages;
+    page++;
+  } while (page <= totalPages);
+
+  return buildPageTree(pages);
+}
+
+/**
+ * Find the page at `segments`, checking each segment against the parent
+ * chain; `null` when any level does not match
+ */
+export function findPageByPath(tree: PageTree, segments: string[]): PageNode | null {
+  let level = tree.roots;
+  let match: PageNode | null = null;
+
+  for (const segment of segments) {
+    match = level.find(node => decodeSlug(node.slug) === segment || String(node.id) === segment) ?? null;
+
+    if (!match) {
+      return null;
+    }
+
+    level = match.children;
+  }
+
+  return match;
+}
+
+/**
+ * A page's ancestors, root first
+ */
+export function getAncestors(tree: PageTree, node: Pick<PageNode, 'parent'>): PageLink[] {
+  const ancestors: PageLink[] = [];
+  let parent = node.parent ? tree.byId.get(node.parent) : undefined;
+
+  while (parent && !ancestors.some(ancestor => ancestor.id === parent?.id)) {
+    ancestors.unshift(toPageLink(parent));
+    parent = parent.parent ? tree.byId.get(parent.parent) : undefined;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Route path for a page that may not be in the tree yet (e.g. a draft)
+ */
+export async function getPagePath(page: Pick<WordPressPage, 'id' | 'slug' | 'parent'>): Promise<string> {
+  const tree = await getPageTree();
+  const parent = page.parent ? tree.byId.get(page.parent) : undefined;
+
+  return `${parent ? parent.path : ''}/${decodeSlug(page.slug) || page.id}`;
+}
+
+/**
+ * Route path for the page with `slug`, for legacy `/pages/{slug}` links
+ */
+export async function getPagePathBySlug(slug: string): Promise<string> {
+  const tree = await getPageTree();
+
+  for (const node of tree.byId.values()) {
+    if (decodeSlug(node.slug) === slug) {
+      return node.path;
+    }
+  }
+
+  throw new WordPressApiError('Page not found', 404);
+}
+
+export function toPageLink(node: PageNode): PageLink {
+  return { id: node.id, title: node.title, path: node.path };
+}
@@ -0,0 +1,58 @@
+/**
+ * Listing pagination
+ *
+ * Page links keep every other query parameter (search terms, filters), so
+ * paging never resets a listing. No server dependencies.
+ */
+
+export const ELLIPSIS = 'ellipsis';
+
+export type PageRangeItem = number | typeof ELLIPSIS;
+
+/**
+ * Page numbers to link: the first and last pages, `siblings` pages either
+ * side of the current one, and ellipses for the gaps. A gap of a single
+ * page shows that page instead, so the number of items stays constant.
+ */
+export function pageRange(currentPage: number, totalPages: number, siblings = 1): PageRangeItem[] {
+  // First, last, current, siblings and two ellipses
+  const slots = siblings * 2 + 5;
+  if (totalPages <= slots) {
+    return Array.from({ length: totalPages }, (_, index) => index + 1);
+  }
+
+  const start = Math.max(3, Math.min(currentPage - siblings, totalPages - siblings * 2 - 2));
+  const end = Math.min(totalPages - 2, Math.max(currentPage + siblings, siblings * 2 + 3));
+  const items: PageRangeItem[] = [1, start > 3 ? ELLIPSIS : 2];
+
+  for (let page = start; page <= end; page++) {
+    items.push(page);
+  }
+  items.push(end < totalPages - 2 ? ELLIPSIS : totalPages - 1, totalPages);
+
+  return items;
+}
+
+/**
+ * Link to `page` of the listing at `pathname`, keeping the other
+ * parameters of `search`; page 1 has no `page` parameter
+ */
+export function pageHref(pathname: string, search: string | URLSearchParams, page: number): string {
+  const params = new URLSearchParams(search);
+  params.delete('index');
+  if (page > 1) {
+    params.set('page', page.toString());
+  } else {
+    params.delete('page');
+  }
+
+  const query = params.toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
+
+/**
+ * The `page` parameter of a listing URL, at least 1
+ */
+export function parsePage(searchParams: URLSearchParams): number {
+  return Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+}
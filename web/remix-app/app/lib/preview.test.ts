@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createPreviewToken,
+  getExitPath,
+  getPreviewSession,
+  startPreviewSession,
+  verifyPreviewToken,
+} from './preview';
+
+const secret = 'preview-secret';
+
+describe('verifyPreviewToken', () => {
+  it('accepts a token for the post it was created for', () => {
+    expect(verifyPreviewToken(secret, 'post', 12, createPreviewToken(secret, 'post', 12))).toBe(true);
+  });
+
+  it('rejects a token for another post, type or secret', () => {
+    const token = createPreviewToken(secret, 'post', 12);
+
+    expect(verifyPreviewToken(secret, 'post', 13, token)).toBe(false);
+    expect(verifyPreviewToken(secret, 'page', 12, token)).toBe(false);
+    expect(verifyPreviewToken('other', 'post', 12, token)).toBe(false);
+  });
+
+  it('rejects expired, extended and malformed tokens', () => {
+    const token = createPreviewToken(secret, 'post', 12, -1);
+    const [, signature] = createPreviewToken(secret, 'post', 12).split('.');
+
+    expect(verifyPreviewToken(secret, 'post', 12, token)).toBe(false);
+    expect(verifyPreviewToken(secret, 'post', 12, `${Math.floor(Date.now() / 1000) + 3600}.${signature}`))
+      .toBe(false);
+    expect(verifyPreviewToken(secret, 'post', 12, 'garbage')).toBe(false);
+    expect(verifyPreviewToken(secret, 'post', 12, '')).toBe(false);
+  });
+});
+
+describe('getExitPath', () => {
+  const request = new Request('https://app.example.com/preview?type=post&id=12');
+
+  it('keeps paths on the same origin', () => {
+    expect(getExitPath('/posts/hello?page=2#comments', request)).toBe('/posts/hello?page=2#comments');
+    expect(getExitPath('https://app.example.com/about', request)).toBe('/about');
+    expect(getExitPath('about', request)).toBe('/about');
+  });
+
+  it('sends every other target home', () => {
+    expect(getExitPath(null, request)).toBe('/');
+    expect(getExitPath('https://evil.example/', request)).toBe('/');
+    expect(getExitPath('//evil.example/', request)).toBe('/');
+    expect(getExitPath('/\\evil.example/', request)).toBe('/');
+    expect(getExitPath('javascript:alert(1)', request)).toBe('/');
+    expect(getExitPath('http://app.example.com/', request)).toBe('/');
+  });
+
+  it('never returns a protocol-relative path', () => {
+    expect(getExitPath('/.//evil.example/x', request)).toBe('/evil.example/x');
+  });
+});
+
+describe('preview sessions', () => {
+  beforeEach(() => {
+    vi.stubEnv('WORDPRESS_PREVIEW_SECRET', secret);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function requestWithSession() {
+    const setCookie = await startPreviewSession({ type: 'post', id: 12, slug: 'draft-post' });
+    return new Request('https://app.example.com/posts/draft-post', {
+      headers: { Cookie: setCookie.split(';')[0] },
+    });
+  }
+
+  it('previews only the post the session was started for', async () => {
+    const request = await requestWithSession();
+
+    expect(await getPreviewSession(request, 'post', 'draft-post')).toMatchObject({ type: 'post', id: 12 });
+    expect(await getPreviewSession(request, 'post', 'other-post')).toBeNull();
+    expect(await getPreviewSession(request, 'page', 'draft-post')).toBeNull();
+  });
+
+  it('ignores sessions signed with another secret', async () => {
+    const request = await requestWithSession();
+    vi.stubEnv('WORDPRESS_PREVIEW_SECRET', 'rotated');
+
+    expect(await getPreviewSession(request, 'post', 'draft-post')).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Draft and revision previews
+ *
+ * WordPress links editors to `/preview?type=post&id=123&token=...`, where
+ * `token` is `<expires>.<signature>`: the Unix expiry time and the hex
+ * HMAC-SHA256 of `<type>:<id>:<expires>` keyed with
+ * `WORDPRESS_PREVIEW_SECRET`. A valid link starts a preview session,
+ * kept in a signed cookie, for that one post or page.
+ */
+
+import { createCookie } from '@remix-run/node';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export type PreviewType = 'post' | 'page';
+
+export interface PreviewSession {
+  type: PreviewType;
+  id: number;
+  /** Route slug the preview renders at (the ID for drafts without a slug) */
+  slug: string;
+  /** Unix time the session ends */
+  expires: number;
+}
+
+/**
+ * How long a preview session lasts, in seconds
+ */
+const SESSION_TTL = 60 * 60;
+
+/**
+ * Response headers for previews: never cached, never indexed
+ */
+export const PREVIEW_HEADERS = {
+  'Cache-Control': 'private, no-store',
+  'X-Robots-Tag': 'noindex',
+};
+
+export function getPreviewSecret(): string | undefined {
+  return process.env.WORDPRESS_PREVIEW_SECRET || undefined;
+}
+
+function signPreview(secret: string, type: PreviewType, id: number, expires: number): string {
+  return createHmac('sha256', secret).update(`${type}:${id}:${expires}`).digest('hex');
+}
+
+/**
+ * Create a preview token valid for `ttlSeconds`
+ */
+export function createPreviewToken(
+  secret: string,
+  type: PreviewType,
+  id: number,
+  ttlSeconds: number = 600
+): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${expires}.${signPreview(secret, type, id, expires)}`;
+}
+
+/**
+ * Check a preview token's signature and expiry
+ */
+export function verifyPreviewToken(
+  secret: string,
+  type: PreviewType,
+  id: number,
+  token: string
+): boolean {
+  const [expiresPart, signature] = token.split('.');
+  const expires = parseInt(expiresPart);
+
+  if (!signature || !Number.isFinite(expires) || expires < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPreview(secret, type, id, expires));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function previewCookie(secret: string) {
+  return createCookie('wp_preview', {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    secrets: [secret],
+    maxAge: SESSION_TTL,
+  });
+}
+
+/**
+ * `Set-Cookie` header starting a preview session
+ */
+export async function startPreviewSession(
+  session: Omit<PreviewSession, 'expires'>
+): Promise<string> {
+  const secret = getPreviewSecret();
+  if (!secret) {
+    throw new Error('WORDPRESS_PREVIEW_SECRET is not set');
+  }
+
+  return previewCookie(secret).serialize({
+    ...session,
+    expires: Math.floor(Date.now() / 1000) + SESSION_TTL,
+  });
+}
+
+/**
+ * Where to go after ending a preview: `to` resolved against the request,
+ * as a path, when it stays on the request's origin; `/` otherwise.
+ * Resolving catches what a prefix check misses, e.g. `/\evil.com`,
+ * which browsers treat as `//evil.com`.
+ */
+export function getExitPath(to: string | null, request: Request): string {
+  if (!to) {
+    return '/';
+  }
+
+  try {
+    const base = new URL(request.url);
+    const target = new URL(to, base);
+    // `/.//evil.com` resolves to the path `//evil.com`
+    const path = target.pathname.replace(/^\/+/, '/');
+    return target.origin === base.origin ? `${path}${target.search}${target.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * `Set-Cookie` header ending the preview session
+ */
+export async function endPreviewSession(): Promise<string> {
+  return previewCookie(getPreviewSecret() || 'unset').serialize('', { maxAge: 0 });
+}
+
+/**
+ * The request's preview session, if it previews `type` at `slug`
+ */
+export async function getPreviewSession(
+  request: Request,
+  type: PreviewType,
+  slug: string
+): Promise<PreviewSession | null> {
+  const secret = getPreviewSecret();
+  const header = request.headers.get('Cookie');
+
+  if (!secret || !header) {
+    return null;
+  }
+
+  const session = await previewCookie(secret).parse(header) as PreviewSession | null;
+
+  if (
+    !session ||
+    session.type !== type ||
+    session.slug !== slug ||
+    session.expires < Date.now() / 1000
+  ) {
+    return null;
+  }
+
+  return session;
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getClientAddress, hitClientLimit, RateLimiter } from './rate-limit';
+
+describe('RateLimiter', () => {
+  it('allows `limit` attempts per window and says when to retry', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.hit('a', 0)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(limiter.hit('a', 10_000)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(limiter.hit('a', 20_000)).toEqual({ allowed: false, retryAfter: 40 });
+    expect(limiter.hit('b', 20_000)).toEqual({ allowed: true, retryAfter: 0 });
+  });
+
+  it('slides the window rather than resetting it', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60_000 });
+    limiter.hit('a', 0);
+    limiter.hit('a', 30_000);
+
+    expect(limiter.hit('a', 60_000).allowed).toBe(true);
+    expect(limiter.hit('a', 61_000)).toEqual({ allowed: false, retryAfter: 29 });
+    expect(limiter.hit('a', 90_000).allowed).toBe(true);
+  });
+
+  it('does not count rejected attempts', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 60_000 });
+    limiter.hit('a', 0);
+
+    for (let time = 1000; time < 60_000; time += 1000) {
+      limiter.hit('a', time);
+    }
+    expect(limiter.hit('a', 60_000).allowed).toBe(true);
+  });
+
+  it('forgets the least recently active clients past `maxKeys`', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 60_000, maxKeys: 2 });
+    limiter.hit('a', 0);
+    limiter.hit('b', 0);
+    limiter.hit('c', 0);
+
+    expect(limiter.hit('a', 1000).allowed).toBe(true);
+    expect(limiter.hit('c', 1000).allowed).toBe(false);
+  });
+});
+
+describe('getClientAddress', () => {
+  beforeEach(() => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function request(forwardedFor?: string) {
+    return new Request('https://app.example.com/contact', {
+      headers: forwardedFor ? { 'X-Forwarded-For': forwardedFor } : {},
+    });
+  }
+
+  it('ignores the header by default, since no proxy is trusted to set it', () => {
+    expect(getClientAddress(request('1.1.1.1'), { remoteAddress: '198.51.100.7' })).toBe('198.51.100.7');
+    expect(getClientAddress(request('1.1.1.1'))).toBeUndefined();
+  });
+
+  it("takes the address the trusted proxy appended, not the client's own entries", () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+
+    expect(getClientAddress(request('203.0.113.9'))).toBe('203.0.113.9');
+    expect(getClientAddress(request('1.1.1.1, 203.0.113.9'))).toBe('203.0.113.9');
+  });
+
+  it('counts `TRUSTED_PROXY_HOPS` entries from the right', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+
+    expect(getClientAddress(request('1.1.1.1, 203.0.113.9, 10.0.0.2'))).toBe('203.0.113.9');
+    expect(getClientAddress(request('10.0.0.2'), { remoteAddress: '10.0.0.1' })).toBe('10.0.0.1');
+  });
+
+  it('falls back to the socket address, then undefined', () => {
+    expect(getClientAddress(request(), { remoteAddress: '198.51.100.7' })).toBe('198.51.100.7');
+    expect(getClientAddress(request(), { remoteAddress: 42 })).toBeUndefined();
+    expect(getClientAddress(request())).toBeUndefined();
+  });
+});
+
+describe('hitClientLimit', () => {
+  const request = new Request('https://app.example.com/contact', { method: 'POST' });
+
+  beforeEach(() => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('counts submissions by socket address', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(hitClientLimit(limiter, request, { remoteAddress: '198.51.100.7' }).allowed).toBe(true);
+    expect(hitClientLimit(limiter, request, { remoteAddress: '198.51.100.7' }).allowed).toBe(false);
+    expect(hitClientLimit(limiter, request, { remoteAddress: '198.51.100.8' }).allowed).toBe(true);
+  });
+
+  it('lets submissions without an address through rather than sharing one key', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 60_000 });
+    const hit = vi.spyOn(limiter, 'hit');
+
+    expect(hitClientLimit(limiter, request).allowed).toBe(true);
+    expect(hitClientLimit(limiter, request, {}).allowed).toBe(true);
+    expect(hit).not.toHaveBeenCalled();
+  });
+});
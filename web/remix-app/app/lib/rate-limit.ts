@@ -0,0 +1,97 @@
+/**
+ * Rate limiting for form submissions
+ *
+ * A sliding-window limiter kept in memory, so each Watt worker counts
+ * separately; it is meant to slow down floods from one client, not to
+ * enforce an exact quota.
+ */
+
+import { logger } from './logger';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the next attempt is allowed; 0 when allowed */
+  retryAfter: number;
+}
+
+export class RateLimiter {
+  private attempts = new Map<string, number[]>();
+  private limit: number;
+  private windowMs: number;
+  private maxKeys: number;
+
+  constructor(config: { limit: number; windowMs: number; maxKeys?: number }) {
+    this.limit = config.limit;
+    this.windowMs = config.windowMs;
+    this.maxKeys = config.maxKeys ?? 10000;
+  }
+
+  /**
+   * Record an attempt by `key`, unless it is over the limit
+   */
+  hit(key: string, now: number = Date.now()): RateLimitResult {
+    const recent = (this.attempts.get(key) || []).filter(time => now - time < this.windowMs);
+
+    if (recent.length >= this.limit) {
+      this.attempts.set(key, recent);
+      return { allowed: false, retryAfter: Math.ceil((recent[0] + this.windowMs - now) / 1000) };
+    }
+
+    recent.push(now);
+    this.attempts.delete(key);
+    this.attempts.set(key, recent);
+
+    // Forget the least recently active clients
+    while (this.attempts.size > this.maxKeys) {
+      this.attempts.delete(this.attempts.keys().next().value as string);
+    }
+
+    return { allowed: true, retryAfter: 0 };
+  }
+}
+
+/**
+ * The client address: the `X-Forwarded-For` entry appended by the
+ * outermost of `TRUSTED_PROXY_HOPS` (default 0) proxies, counted from the
+ * right. Entries to the left of it are whatever the client sent, so they
+ * are never used. Otherwise the socket address `server.js` puts in the
+ * load context as `remoteAddress`, or undefined without one.
+ */
+export function getClientAddress(request: Request, context?: { remoteAddress?: unknown }): string | undefined {
+  const configured = parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+  const hops = Number.isNaN(configured) ? 0 : Math.max(0, configured);
+  const forwarded = (request.headers.get('X-Forwarded-For') ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+  if (hops > 0 && forwarded.length >= hops) {
+    return forwarded[forwarded.length - hops];
+  }
+
+  return typeof context?.remoteAddress === 'string' && context.remoteAddress
+    ? context.remoteAddress
+    : undefined;
+}
+
+/**
+ * Record a submission by the request's client against `limiter`
+ *
+ * Submissions without a client address are let through and logged:
+ * counted under one shared key, one client could use up the limit for
+ * every other client without an address.
+ */
+export function hitClientLimit(
+  limiter: RateLimiter,
+  request: Request,
+  context?: { remoteAddress?: unknown }
+): RateLimitResult {
+  const address = getClientAddress(request, context);
+
+  if (!address) {
+    logger.forRequest(request).warn('No client address to rate limit by', { path: new URL(request.url).pathname });
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  return limiter.hit(address);
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { getContentBlocks, parseBlocks } from './blocks';
+import {
+  DEFAULT_IFRAME_HOSTS,
+  rewriteWordPressLink,
+  sanitizeHtml,
+  sanitizeRenderedFields,
+  toPlainText,
+  type SanitizePolicy,
+} from './sanitize';
+import type { WordPressBlock } from './wordpress-types';
+
+const policy: SanitizePolicy = {
+  iframeHosts: DEFAULT_IFRAME_HOSTS,
+  embedHosts: [],
+  siteUrls: ['https://cms.example.com'],
+};
+
+describe('sanitizeHtml', () => {
+  it('drops scripts and styles with their content', () => {
+    expect(sanitizeHtml('<p>a<script>alert(1)</script>b<style>p{}</style></p>', policy))
+      .toBe('<p>ab</p>');
+  });
+
+  it('unwraps unknown elements and drops event handlers', () => {
+    expect(sanitizeHtml('<custom-el><p onclick="alert(1)" class="x">text</p></custom-el>', policy))
+      .toBe('<p class="x">text</p>');
+  });
+
+  it('drops URLs with unsafe schemes', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">a</a>', policy)).toBe('<a>a</a>');
+    expect(sanitizeHtml('<a href="java&#x09;script:alert(1)">a</a>', policy)).toBe('<a>a</a>');
+    expect(sanitizeHtml('<a href=" JAVASCRIPT:alert(1)">a</a>', policy)).toBe('<a>a</a>');
+    expect(sanitizeHtml('<img src="data:text/html;base64,PHNjcmlwdD4=">', policy)).toBe('<img>');
+  });
+
+  it('keeps safe URLs and inline image data', () => {
+    expect(sanitizeHtml('<a href="mailto:hi@example.com">a</a>', policy))
+      .toBe('<a href="mailto:hi@example.com">a</a>');
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA" alt="">', policy))
+      .toBe('<img src="data:image/png;base64,AAAA" alt="">');
+  });
+
+  it('drops styles that run script or load resources', () => {
+    expect(sanitizeHtml('<p style="background:url(//evil.example/x)">a</p>', policy)).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p style="width:expression(alert(1))">a</p>', policy)).toBe('<p>a</p>');
+    expect(sanitizeHtml('<p style="color:red">a</p>', policy)).toBe('<p style="color:red">a</p>');
+  });
+
+  it('keeps iframes only from allowed hosts', () => {
+    expect(sanitizeHtml('<iframe src="https://www.youtube.com/embed/x"></iframe>', policy))
+      .toBe('<iframe src="https://www.youtube.com/embed/x"></iframe>');
+    expect(sanitizeHtml('<p>a<iframe src="https://evil.example/">fallback</iframe>b</p>', policy))
+      .toBe('<p>ab</p>');
+  });
+
+  it('adds noopener to links opening new tabs', () => {
+    expect(sanitizeHtml('<a href="https://example.org" target="_blank">a</a>', policy))
+      .toBe('<a href="https://example.org" target="_blank" rel="noopener noreferrer">a</a>');
+  });
+
+  it('balances unclosed elements and escapes stray brackets', () => {
+    expect(sanitizeHtml('<p><strong>a</p>', policy)).toBe('<p><strong>a</strong></p>');
+    expect(sanitizeHtml('1 < 2', policy)).toBe('1 &lt; 2');
+  });
+
+  it('rewrites links to the WordPress site to app routes', () => {
+    expect(sanitizeHtml('<a href="https://cms.example.com/category/news/">a</a>', policy))
+      .toBe('<a href="/category/news">a</a>');
+  });
+});
+
+describe('rewriteWordPressLink', () => {
+  it('maps permalinks and leaves WordPress files alone', () => {
+    const sites = ['https://cms.example.com'];
+
+    expect(rewriteWordPressLink('https://cms.example.com/2024/05/hello/', sites)).toBe('/posts/hello');
+    expect(rewriteWordPressLink('https://cms.example.com/author/jo/', sites)).toBe('/authors/jo');
+    expect(rewriteWordPressLink('https://cms.example.com/wp-content/a.png', sites))
+      .toBe('https://cms.example.com/wp-content/a.png');
+    expect(rewriteWordPressLink('https://other.example/about', sites)).toBe('https://other.example/about');
+  });
+});
+
+describe('toPlainText', () => {
+  it('strips tags and decodes entities', () => {
+    expect(toPlainText('<p>Fish &amp; chips</p><script>x</script><p>&#8220;ok&#8221;</p>'))
+      .toBe('Fish & chips “ok”');
+  });
+});
+
+describe('sanitizeRenderedFields', () => {
+  it('sanitizes rendered fields and leaves other fields alone', () => {
+    const post = {
+      title: { rendered: 'Hi<script>x</script>' },
+      slug: '<script>',
+      _links: { self: [{ href: 'javascript:kept' }] },
+    };
+
+    expect(sanitizeRenderedFields(post, policy)).toEqual({
+      title: { rendered: 'Hi' },
+      slug: '<script>',
+      _links: { self: [{ href: 'javascript:kept' }] },
+    });
+  });
+
+  it('drops javascript: URLs from block attributes in content.raw', () => {
+    const raw = '<!-- wp:embed {"url":"javascript:alert(document.cookie)","providerNameSlug":"x"} /-->';
+    const { content } = sanitizeRenderedFields({ content: { rendered: '', raw } }, policy);
+    const [embed] = getContentBlocks({ content }) ?? [];
+
+    expect(embed.blockName).toBe('core/embed');
+    expect(embed.attrs).toEqual({ providerNameSlug: 'x' });
+    expect(content.raw).not.toContain('javascript:');
+  });
+
+  it('keeps safe block attributes in content.raw, escaped like WordPress', () => {
+    const raw = '<!-- wp:embed {"url":"https://youtu.be/abc","caption":"a -- b <c>"} /-->';
+    const { content } = sanitizeRenderedFields({ content: { raw } }, policy);
+
+    expect(content.raw).toBe(
+      '<!-- wp:embed {"url":"https://youtu.be/abc","caption":"a \\u002d\\u002d b \\u003cc\\u003e"} /-->'
+    );
+    expect(parseBlocks(content.raw)[0].attrs).toEqual({ url: 'https://youtu.be/abc', caption: 'a -- b <c>' });
+  });
+
+  it('drops unsafe URL and style attributes at any depth of a blocks field', () => {
+    const blocks: WordPressBlock[] = [{
+      blockName: 'core/columns',
+      attrs: {},
+      innerHTML: '',
+      innerContent: [null],
+      innerBlocks: [{
+        blockName: 'core/column',
+        attrs: {
+          width: '50%;background:url(x)',
+          style: { color: { background: 'red' }, background: { backgroundImage: { url: 'javascript:x' } } },
+        },
+        innerHTML: '<p onclick="x">a</p>',
+        innerContent: ['<p onclick="x">a</p>'],
+        innerBlocks: [],
+      }, {
+        blockName: 'core/gallery',
+        attrs: { images: [{ url: 'https://example.com/a.jpg', link: 'javascript:x' }] },
+        innerHTML: '',
+        innerContent: [],
+        innerBlocks: [],
+      }],
+    }];
+
+    const [columns] = sanitizeRenderedFields({ blocks }, policy).blocks;
+    const [column, gallery] = columns.innerBlocks;
+
+    expect(column.attrs).toEqual({ style: { color: { background: 'red' }, background: { backgroundImage: {} } } });
+    expect(column.innerHTML).toBe('<p>a</p>');
+    expect(gallery.attrs).toEqual({ images: [{ url: 'https://example.com/a.jpg' }] });
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * HTML sanitization
+ *
+ * WordPress-rendered HTML is filtered through an allowlist before it
+ * reaches the app: unknown elements are unwrapped, scripts and styles are
+ * dropped with their content, attributes are limited per element, and
+ * URLs are limited to safe schemes. Iframes and embedded media are only
+ * kept for allowed hosts. Links to the WordPress site are rewritten to
+ * this app's routes. Block attributes get the same URL and style checks,
+ * since components render some of them directly.
+ *
+ * The module has no server dependencies, so components can use
+ * `toPlainText()` as well.
+ */
+
+import type { WordPressBlock } from './wordpress-types';
+
+export interface SanitizePolicy {
+  /** Hosts iframes may load from; subdomains match too */
+  iframeHosts: string[];
+  /** Hosts `<video>`, `<audio>`, `<source>`, `<track>` and `<embed>` may load from */
+  embedHosts: string[];
+  /** WordPress site URLs whose links are rewritten to app routes */
+  siteUrls: string[];
+}
+
+export const DEFAULT_IFRAME_HOSTS = [
+  'youtube.com',
+  'youtube-nocookie.com',
+  'player.vimeo.com',
+  'open.spotify.com',
+  'w.soundcloud.com',
+  'codepen.io',
+  'www.google.com',
+];
+
+/**
+ * Elements kept, with the attributes each may carry besides the global ones
+ */
+const ALLOWED_ELEMENTS: Record<string, string[]> = {
+  a: ['href', 'target', 'rel', 'name', 'download'],
+  abbr: [],
+  article: [],
+  aside: [],
+  audio: ['src', 'controls', 'loop', 'muted', 'preload'],
+  b: [],
+  blockquote: ['cite'],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  col: ['span'],
+  colgroup: ['span'],
+  dd: [],
+  del: ['cite', 'datetime'],
+  details: ['open'],
+  dfn: [],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  embed: ['src', 'type', 'width', 'height'],
+  figcaption: [],
+  figure: [],
+  footer: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  header: [],
+  hr: [],
+  i: [],
+  iframe: ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen', 'loading', 'frameborder', 'referrerpolicy'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  ins: ['cite', 'datetime'],
+  kbd: [],
+  li: ['value'],
+  mark: [],
+  ol: ['start', 'reversed', 'type'],
+  p: [],
+  picture: [],
+  pre: [],
+  q: ['cite'],
+  s: [],
+  samp: [],
+  section: [],
+  small: [],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['colspan', 'rowspan', 'headers'],
+  tfoot: [],
+  th: ['colspan', 'rowspan', 'headers', 'scope'],
+  thead: [],
+  time: ['datetime'],
+  tr: [],
+  track: ['src', 'kind', 'srclang', 'label', 'default'],
+  u: [],
+  ul: [],
+  var: [],
+  video: ['src', 'poster', 'controls', 'width', 'height', 'loop', 'muted', 'playsinline', 'preload'],
+  wbr: [],
+};
+
+const GLOBAL_ATTRIBUTES = ['class', 'id', 'title', 'lang', 'dir', 'role', 'style'];
+
+/**
+ * Elements removed together with their content
+ */
+const DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'template', 'noscript', 'object', 'applet', 'head',
+  'title', 'textarea', 'select', 'option', 'svg', 'math', 'frameset', 'frame',
+]);
+
+const VOID_ELEMENTS = new Set(['br', 'col', 'embed', 'hr', 'img', 'source', 'track', 'wbr']);
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite', 'poster']);
+
+const EMBED_ELEMENTS = new Set(['video', 'audio', 'source', 'track', 'embed']);
+
+/**
+ * Block attributes holding URLs, at any depth (e.g. legacy gallery images)
+ */
+const URL_BLOCK_ATTRIBUTES = new Set(['url', 'href', 'src', 'link', 'mediaLink', 'mediaUrl', 'textLinkHref']);
+
+/**
+ * Block attributes holding CSS values, including everything nested in them
+ */
+const STYLE_BLOCK_ATTRIBUTES = new Set(['style', 'width', 'height', 'minHeight']);
+
+const BLOCK_DELIMITER = /^<!--\s+(\/?wp:[a-z][a-z0-9_-]*(?:\/[a-z][a-z0-9_-]*)?)\s+(?:(\{[\s\S]*\})\s+)?(\/)?-->$/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  hellip: '…', ndash: '–', mdash: '—', lsquo: '‘',
+  rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”',
+  bdquo: '„', laquo: '«', raquo: '»', bull: '•',
+  middot: '·', copy: '©', reg: '®', trade: '™',
+  deg: '°', times: '×', divide: '÷', euro: '€',
+  pound: '£', yen: '¥', cent: '¢', sect: '§',
+  para: '¶', prime: '′', Prime: '″', frac12: '½',
+  frac14: '¼', frac34: '¾', iexcl: '¡', iquest: '¿',
+  shy: '­', ensp: ' ', emsp: ' ', thinsp: ' ',
+};
+
+const TAG = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/;
+const ATTRIBUTE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name] ?? entity;
+  });
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Plain text from rendered HTML (e.g. excerpts and titles): tags removed,
+ * entities decoded and whitespace collapsed
+ */
+export function toPlainText(html: string | null | undefined): string {
+  if (!html) {
+    return '';
+  }
+
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<\/?(p|div|br|li|h[1-6]|blockquote|tr)\b[^>]*>/gi, ' ')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hostAllowed(url: URL, hosts: string[]): boolean {
+  const host = url.hostname.toLowerCase();
+  return hosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/**
+ * Whether a URL uses a scheme that is safe to follow or load
+ */
+function safeUrl(value: string, allowImageData: boolean): boolean {
+  // Browsers ignore whitespace and control characters inside schemes
+  const normalized = value.replace(/[\u0000- ]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+
+  if (!scheme) {
+    return true;
+  }
+
+  if (scheme === 'data') {
+    return allowImageData && /^data:image\/(png|gif|jpe?g|webp|avif);/.test(normalized);
+  }
+
+  return ['http', 'https', 'mailto', 'tel'].includes(scheme);
+}
+
+/**
+ * Whether an inline style is free of script and external-resource tricks
+ */
+function safeStyle(value: string): boolean {
+  return !/expression\s*\(|javascript:|behavior\s*:|-moz-binding|@import|url\s*\(\s*['"]?\s*(?!https?:|data:image\/)/i.test(value);
+}
+
+/**
+ * Whether a block attribute's CSS value is a single safe value: no
+ * declarations or rules can be smuggled in after it
+ */
+function safeStyleValue(value: string): boolean {
+  return safeStyle(value) && !/[;{}<>]/.test(value);
+}
+
+/**
+ * Block attributes without unsafe URLs or CSS values; nested objects and
+ * arrays are filtered the same way
+ */
+function sanitizeBlockAttributes(attrs: Record<string, unknown>, style = false): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  const sanitizeValue = (name: string, value: unknown, inStyle: boolean): unknown => {
+    if (typeof value === 'string') {
+      if (URL_BLOCK_ATTRIBUTES.has(name) && !safeUrl(value, false)) return undefined;
+      if (inStyle && !safeStyleValue(value)) return undefined;
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map(item => sanitizeValue(name, item, inStyle))
+        .filter(item => item !== undefined);
+    }
+    if (value && typeof value === 'object') {
+      return sanitizeBlockAttributes(value as Record<string, unknown>, inStyle);
+    }
+    return value;
+  };
+
+  for (const [name, value] of Object.entries(attrs)) {
+    const sanitized = sanitizeValue(name, value, style || STYLE_BLOCK_ATTRIBUTES.has(name));
+    if (sanitized !== undefined) {
+      result[name] = sanitized;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A block delimiter comment with its JSON attributes sanitized and escaped
+ * like WordPress's `serialize_block_attributes()`; malformed delimiters
+ * are dropped
+ */
+function sanitizeBlockDelimiter(comment: string): string {
+  const match = comment.match(BLOCK_DELIMITER);
+
+  if (!match) {
+    return '';
+  }
+
+  const [, name, json, selfClosing] = match;
+  let attrs: Record<string, unknown> = {};
+
+  if (json) {
+    try {
+      const parsed: unknown = JSON.parse(json);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        attrs = sanitizeBlockAttributes(parsed as Record<string, unknown>);
+      }
+    } catch {
+      // Unparseable attributes are dropped, as the block parser would
+    }
+  }
+
+  const serialized = Object.keys(attrs).length > 0
+    ? ` ${JSON.stringify(attrs)
+      .replace(/--/g, '\\u002d\\u002d')
+      .replace(/</g, '\\u003c')
+      .replace(/>/g, '\\u003e')
+      .replace(/&/g, '\\u0026')}`
+    : '';
+
+  return `<!-- ${name}${serialized} ${selfClosing ? '/' : ''}-->`;
+}
+
+/**
+ * Map a WordPress permalink path to this app's route
+ */
+function toAppRoute(path: string): string {
+  const trimmed = path.replace(/\/+$/, '') || '/';
+
+  const author = trimmed.match(/^\/author\/([^/]+)$/);
+  if (author) return `/authors/${author[1]}`;
+
+  // Nested category permalinks end in the category's own slug
+  const term = trimmed.match(/^\/(category|tag)\/(?:.+\/)?([^/]+)$/);
+  if (term) return `/${term[1]}/${term[2]}`;
+
+  const dated = trimmed.match(/^\/\d{4}\/\d{2}(?:\/\d{2})?\/([^/]+)$/);
+  if (dated) return `/posts/${dated[1]}`;
+
+  return trimmed;
+}
+
+/**
+ * Rewrite a link to the WordPress site into a path in this app. WordPress
+ * files, the admin and query-string permalinks keep pointing at WordPress.
+ */
+export function rewriteWordPressLink(href: string, siteUrls: string[]): string {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return href;
+  }
+
+  for (const siteUrl of siteUrls) {
+    let site: URL;
+    try {
+      site = new URL(siteUrl);
+    } catch {
+      continue;
+    }
+
+    const basePath = site.pathname.replace(/\/+$/, '');
+    if (
+      url.origin !== site.origin ||
+      (basePath && url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`))
+    ) {
+      continue;
+    }
+
+    const path = url.pathname.slice(basePath.length) || '/';
+    if (
+      /^\/(wp-admin|wp-content|wp-includes|wp-json)(\/|$)|^\/wp-[a-z-]+\.php/.test(path) ||
+      url.searchParams.has('p') ||
+      url.searchParams.has('page_id')
+    ) {
+      return href;
+    }
+
+    return `${toAppRoute(path)}${url.search}${url.hash}`;
+  }
+
+  return href;
+}
+
+interface SanitizeOptions {
+  /** Keep `<!-- wp:... -->` block delimiters (for raw block markup) */
+  blockDelimiters?: boolean;
+  /** Close open elements and drop stray closing tags */
+  balance?: boolean;
+}
+
+function sanitizeAttributes(
+  tag: string,
+  source: string,
+  policy: SanitizePolicy
+): string | null {
+  const allowed = ALLOWED_ELEMENTS[tag];
+  const attributes: Array<[string, string | null]> = [];
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    const rawValue = match[2] ?? match[3] ?? match[4];
+    let value = rawValue === undefined ? null : decodeEntities(rawValue);
+
+    if (
+      !allowed.includes(name) &&
+      !GLOBAL_ATTRIBUTES.includes(name) &&
+      !name.startsWith('aria-') &&
+      !name.startsWith('data-')
+    ) {
+      continue;
+    }
+
+    if (name === 'style' && value !== null && !safeStyle(value)) {
+      continue;
+    }
+
+    if (URL_ATTRIBUTES.has(name) && value !== null) {
+      if (!safeUrl(value, tag === 'img' || tag === 'source')) {
+        continue;
+      }
+
+      if (tag === 'a' && name === 'href') {
+        value = rewriteWordPressLink(value, policy.siteUrls);
+      }
+    }
+
+    if (name === 'srcset' && value !== null) {
+      value = value
+        .split(',')
+        .filter(candidate => safeUrl(candidate.trim().split(/\s+/)[0] || '', true))
+        .join(',');
+    }
+
+    attributes.push([name, value]);
+  }
+
+  const src = attributes.find(([name]) => name === 'src')?.[1];
+
+  // Embedded content only loads from allowed hosts
+  if (tag === 'iframe' || EMBED_ELEMENTS.has(tag)) {
+    const hosts = tag === 'iframe'
+      ? policy.iframeHosts
+      : [...policy.embedHosts, ...policy.siteUrls.map(siteUrl => new URL(siteUrl).hostname)];
+
+    if (src) {
+      let url: URL;
+      try {
+        url = new URL(src);
+      } catch {
+        return null;
+      }
+      if (!/^https?:$/.test(url.protocol) || !hostAllowed(url, hosts)) {
+        return null;
+      }
+    } else if (tag === 'iframe' || tag === 'embed') {
+      return null;
+    }
+  }
+
+  if (tag === 'a' && attributes.some(([name, value]) => name === 'target' && value === '_blank')) {
+    const rel = attributes.find(([name]) => name === 'rel');
+    const values = new Set((rel?.[1] || '').split(/\s+/).filter(Boolean));
+    values.add('noopener');
+    values.add('noreferrer');
+
+    if (rel) {
+      rel[1] = Array.from(values).join(' ');
+    } else {
+      attributes.push(['rel', Array.from(values).join(' ')]);
+    }
+  }
+
+  return attributes
+    .map(([name, value]) => value === null ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`)
+    .join('');
+}
+
+/**
+ * Sanitize an HTML fragment with the allowlist policy
+ */
+export function sanitizeHtml(
+  html: string,
+  policy: SanitizePolicy,
+  options: SanitizeOptions = {}
+): string {
+  const { blockDelimiters = false, balance = true } = options;
+  const open: string[] = [];
+  let output = '';
+  let index = 0;
+
+  while (index < html.length) {
+    const next = html.indexOf('<', index);
+
+    if (next === -1) {
+      output += html.slice(index);
+      break;
+    }
+
+    output += html.slice(index, next);
+    index = next;
+    const rest = html.slice(index);
+
+    if (rest.startsWith('<!--')) {
+      const end = rest.indexOf('-->');
+      const comment = end === -1 ? rest : rest.slice(0, end + 3);
+
+      if (blockDelimiters && /^<!--\s+\/?wp:/.test(comment)) {
+        output += sanitizeBlockDelimiter(comment);
+      }
+      index += comment.length;
+      continue;
+    }
+
+    const match = rest.match(TAG);
+
+    if (!match) {
+      // Doctypes and processing instructions are dropped, stray `<` escaped
+      if (/^<[!?]/.test(rest)) {
+        const end = rest.indexOf('>');
+        index += end === -1 ? rest.length : end + 1;
+      } else {
+        output += '&lt;';
+        index += 1;
+      }
+      continue;
+    }
+
+    const [token, closing, rawTag, attributeSource] = match;
+    const tag = rawTag.toLowerCase();
+    index += token.length;
+
+    if (DROPPED_ELEMENTS.has(tag)) {
+      if (!closing) {
+        const end = html.slice(index).search(new RegExp(`</${tag}\\s*>`, 'i'));
+        index = end === -1 ? html.length : index + html.slice(index).indexOf('>', end) + 1;
+      }
+      continue;
+    }
+
+    if (!ALLOWED_ELEMENTS[tag]) {
+      continue;
+    }
+
+    if (closing) {
+      if (VOID_ELEMENTS.has(tag)) {
+        continue;
+      }
+
+      if (balance) {
+        const openIndex = open.lastIndexOf(tag);
+        if (openIndex === -1) {
+          continue;
+        }
+        // Close anything left open inside this element
+        output += open.splice(openIndex).reverse().map(name => `</${name}>`).join('');
+      } else {
+        output += `</${tag}>`;
+      }
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(tag, attributeSource, policy);
+
+    if (attributes === null) {
+      // A disallowed embed is removed with its fallback content
+      if (!VOID_ELEMENTS.has(tag)) {
+        const end = html.slice(index).search(new RegExp(`</${tag}\\s*>`, 'i'));
+        index = end === -1 ? html.length : index + html.slice(index).indexOf('>', end) + 1;
+      }
+      continue;
+    }
+
+    output += `<${tag}${attributes}>`;
+
+    if (balance && !VOID_ELEMENTS.has(tag)) {
+      open.push(tag);
+    }
+  }
+
+  if (balance) {
+    output += open.reverse().map(name => `</${name}>`).join('');
+  }
+
+  return output;
+}
+
+function sanitizeBlock(block: WordPressBlock, policy: SanitizePolicy): WordPressBlock {
+  return {
+    ...block,
+    attrs: sanitizeBlockAttributes(block.attrs ?? {}),
+    innerBlocks: block.innerBlocks.map(inner => sanitizeBlock(inner, policy)),
+    // Chunks around inner blocks are unbalanced by design
+    innerContent: block.innerContent.map(chunk =>
+      chunk === null ? null : sanitizeHtml(chunk, policy, { balance: false })
+    ),
+    innerHTML: sanitizeHtml(block.innerHTML, policy, { balance: false }),
+    rendered: block.rendered === undefined ? undefined : sanitizeHtml(block.rendered, policy),
+  };
+}
+
+/**
+ * Sanitize every rendered field of a REST response: `*.rendered`, raw
+ * block markup in `content.raw` and a `blocks` field, with their block
+ * attributes. Returns a copy.
+ */
+export function sanitizeRenderedFields<T>(data: T, policy: SanitizePolicy): T {
+  const visit = (value: unknown, key?: string): unknown => {
+    if (Array.isArray(value)) {
+      if (key === 'blocks') {
+        return value.map(block => sanitizeBlock(block as WordPressBlock, policy));
+      }
+      return value.map(item => visit(item));
+    }
+
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+
+    for (const [name, field] of Object.entries(value)) {
+      if (name === '_links') {
+        result[name] = field;
+      } else if (name === 'rendered' && typeof field === 'string') {
+        result[name] = sanitizeHtml(field, policy);
+      } else if (name === 'raw' && key === 'content' && typeof field === 'string') {
+        result[name] = sanitizeHtml(field, policy, { blockDelimiters: true });
+      } else {
+        result[name] = visit(field, name);
+      }
+    }
+
+    return result;
+  };
+
+  return visit(data) as T;
+}
@@ -0,0 +1,306 @@
+/**
+ * SEO metadata
+ *
+ * Builds the `meta` descriptors of every route: title, description,
+ * canonical link, Open Graph, Twitter cards and JSON-LD structured data
+ * (Article, WebPage, BreadcrumbList, WebSite and Person). When Yoast SEO
+ * (or Rank Math's compatible field) provides `yoast_head_json`, its
+ * titles, descriptions, images and robots directives win; URLs always
+ * point at this app rather than the WordPress origin.
+ *
+ * `meta` functions run in the browser too, so this module has no server
+ * dependencies. The site URL comes from the root loader.
+ */
+
+import type { MetaDescriptor } from '@remix-run/node';
+import type { FeaturedImage } from './embedded';
+import { toPlainText } from './sanitize';
+import { absoluteUrl, SITE_NAME } from './site';
+import type { WordPressPage, WordPressPost, WordPressUser, YoastHeadJson } from './wordpress-types';
+
+export type JsonLd = Record<string, unknown>;
+
+export interface SeoImage {
+  url: string;
+  width?: number;
+  height?: number;
+  alt?: string;
+}
+
+export interface SeoInput {
+  siteUrl: string;
+  /** Canonical app path, with the query string when it selects content */
+  path: string;
+  /** Page title without the site name */
+  title: string;
+  description?: string;
+  type?: 'website' | 'article' | 'profile';
+  image?: SeoImage | null;
+  noindex?: boolean;
+  article?: {
+    published: string;
+    modified: string;
+    author?: string;
+    section?: string;
+    tags?: string[];
+  };
+  yoast?: YoastHeadJson | null;
+  jsonLd?: JsonLd[];
+}
+
+/**
+ * The site URL loaded by the root route
+ */
+export function getSiteUrlFromMatches(matches: Array<{ id: string; data?: unknown }>): string {
+  const root = matches.find(match => match.id === 'root')?.data as { siteUrl?: string } | undefined;
+  return root?.siteUrl ?? '';
+}
+
+/**
+ * Canonical path of a listing page: page 1 has no query string
+ */
+export function pagedPath(path: string, page: number): string {
+  return page > 1 ? `${path}?page=${page}` : path;
+}
+
+/**
+ * ISO 8601 date from a WordPress date, preferring the UTC variant
+ */
+export function toIsoDate(local: string, gmt?: string): string {
+  const date = new Date(`${gmt || local}Z`);
+  return Number.isNaN(date.getTime()) ? local : date.toISOString();
+}
+
+export function toSeoImage(image: FeaturedImage | null | undefined): SeoImage | null {
+  return image
+    ? { url: image.url, width: image.width || undefined, height: image.height || undefined, alt: image.alt }
+    : null;
+}
+
+function yoastImage(yoast: YoastHeadJson | null | undefined): SeoImage | null {
+  const image = yoast?.og_image?.[0];
+  return image?.url ? { url: image.url, width: image.width, height: image.height } : null;
+}
+
+/**
+ * Meta descriptors for a page
+ */
+export function buildMeta(input: SeoInput): MetaDescriptor[] {
+  const { siteUrl, yoast } = input;
+  const url = absoluteUrl(siteUrl, input.path);
+  const title = yoast?.title ? toPlainText(yoast.title) : `${input.title} - ${SITE_NAME}`;
+  const description = toPlainText(yoast?.description || input.description);
+  const ogTitle = toPlainText(yoast?.og_title) || input.title;
+  const ogDescription = toPlainText(yoast?.og_description) || description;
+  const image = yoastImage(yoast) ?? input.image ?? null;
+  const robots = input.noindex
+    ? 'noindex, follow'
+    : yoast?.robots && Object.values(yoast.robots).join(', ');
+
+  const meta: MetaDescriptor[] = [
+    { title },
+    ...(description ? [{ name: 'description', content: description }] : []),
+    ...(robots ? [{ name: 'robots', content: robots }] : []),
+    { tagName: 'link', rel: 'canonical', href: url },
+    { property: 'og:site_name', content: SITE_NAME },
+    { property: 'og:type', content: input.type ?? 'website' },
+    { property: 'og:url', content: url },
+    { property: 'og:title', content: ogTitle },
+    ...(ogDescription ? [{ property: 'og:description', content: ogDescription }] : []),
+  ];
+
+  if (image) {
+    meta.push({ property: 'og:image', content: image.url });
+    if (image.width) meta.push({ property: 'og:image:width', content: String(image.width) });
+    if (image.height) meta.push({ property: 'og:image:height', content: String(image.height) });
+    if (image.alt) meta.push({ property: 'og:image:alt', content: image.alt });
+  }
+
+  if (input.article) {
+    meta.push(
+      { property: 'article:published_time', content: input.article.published },
+      { property: 'article:modified_time', content: input.article.modified },
+    );
+    if (input.article.author) meta.push({ property: 'article:author', content: input.article.author });
+    if (input.article.section) meta.push({ property: 'article:section', content: input.article.section });
+    input.article.tags?.forEach(tag => meta.push({ property: 'article:tag', content: tag }));
+  }
+
+  meta.push(
+    { name: 'twitter:card', content: yoast?.twitter_card || (image ? 'summary_large_image' : 'summary') },
+    { name: 'twitter:title', content: toPlainText(yoast?.twitter_title) || ogTitle },
+    ...(ogDescription || yoast?.twitter_description
+      ? [{ name: 'twitter:description', content: toPlainText(yoast?.twitter_description) || ogDescription }]
+      : []),
+    ...(yoast?.twitter_image || image ? [{ name: 'twitter:image', content: yoast?.twitter_image || image?.url }] : []),
+    ...(yoast?.twitter_site ? [{ name: 'twitter:site', content: yoast.twitter_site }] : []),
+    ...(yoast?.twitter_creator ? [{ name: 'twitter:creator', content: yoast.twitter_creator }] : []),
+  );
+
+  if (input.jsonLd?.length) {
+    meta.push({
+      'script:ld+json': {
+        '@context': 'https://schema.org',
+        '@graph': input.jsonLd,
+      },
+    });
+  }
+
+  return meta;
+}
+
+/**
+ * The site, with a search action for sitelinks search boxes
+ */
+export function websiteSchema(siteUrl: string): JsonLd {
+  return {
+    '@type': 'WebSite',
+    '@id': `${absoluteUrl(siteUrl, '/')}#website`,
+    url: absoluteUrl(siteUrl, '/'),
+    name: SITE_NAME,
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${absoluteUrl(siteUrl, '/search')}?q={search_term_string}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
+
+/**
+ * The largest avatar WordPress offers for a user
+ */
+export function largestAvatar(author: Pick<WordPressUser, 'avatar_urls'>): string | undefined {
+  return Object.entries(author.avatar_urls || {})
+    .sort(([a], [b]) => parseInt(b) - parseInt(a))[0]?.[1];
+}
+
+/**
+ * An author, with their profile page as `url`
+ */
+export function personSchema(siteUrl: string, author: WordPressUser): JsonLd {
+  const avatar = largestAvatar(author);
+
+  return {
+    '@type': 'Person',
+    '@id': `${absoluteUrl(siteUrl, `/authors/${author.slug}`)}#person`,
+    name: author.name,
+    url: absoluteUrl(siteUrl, `/authors/${author.slug}`),
+    ...(author.description ? { description: toPlainText(author.description) } : {}),
+    ...(avatar ? { image: avatar } : {}),
+    ...(author.url ? { sameAs: [author.url] } : {}),
+  };
+}
+
+/**
+ * A post as an Article
+ */
+export function articleSchema(params: {
+  siteUrl: string;
+  path: string;
+  post: WordPressPost;
+  image?: SeoImage | null;
+  author?: WordPressUser | null;
+  section?: string;
+  keywords?: string[];
+}): JsonLd {
+  const { siteUrl, post, image, author } = params;
+  const url = absoluteUrl(siteUrl, params.path);
+
+  return {
+    '@type': 'Article',
+    '@id': `${url}#article`,
+    headline: toPlainText(post.title?.rendered),
+    description: toPlainText(post.excerpt?.rendered),
+    url,
+    mainEntityOfPage: url,
+    datePublished: toIsoDate(post.date, post.date_gmt),
+    dateModified: toIsoDate(post.modified, post.modified_gmt),
+    ...(image ? { image: [image.url] } : {}),
+    ...(author ? { author: personSchema(siteUrl, author) } : {}),
+    ...(params.section ? { articleSection: params.section } : {}),
+    ...(params.keywords?.length ? { keywords: params.keywords.join(', ') } : {}),
+    publisher: {
+      '@type': 'Organization',
+      name: SITE_NAME,
+      url: absoluteUrl(siteUrl, '/'),
+    },
+    isPartOf: { '@id': `${absoluteUrl(siteUrl, '/')}#website` },
+  };
+}
+
+/**
+ * A page as a WebPage
+ */
+export function webPageSchema(params: {
+  siteUrl: string;
+  path: string;
+  page: WordPressPage;
+  image?: SeoImage | null;
+}): JsonLd {
+  const { siteUrl, page, image } = params;
+  const url = absoluteUrl(siteUrl, params.path);
+
+  return {
+    '@type': 'WebPage',
+    '@id': url,
+    url,
+    name: toPlainText(page.title?.rendered),
+    description: toPlainText(page.excerpt?.rendered),
+    datePublished: toIsoDate(page.date),
+    dateModified: toIsoDate(page.modified),
+    ...(image ? { primaryImageOfPage: { '@type': 'ImageObject', url: image.url } } : {}),
+    isPartOf: { '@id': `${absoluteUrl(siteUrl, '/')}#website` },
+  };
+}
+
+/**
+ * Meta descriptors for a page at its hierarchical path
+ */
+export function pageMeta(params: {
+  siteUrl: string;
+  path: string;
+  page: WordPressPage;
+  image?: FeaturedImage | null;
+  /** Ancestor pages, root first */
+  breadcrumbs: Array<{ title: string; path: string }>;
+  preview?: boolean;
+}): MetaDescriptor[] {
+  const { siteUrl, path, page } = params;
+  const title = toPlainText(page.title?.rendered) || 'Untitled Page';
+  const image = toSeoImage(params.image);
+
+  return buildMeta({
+    siteUrl,
+    path,
+    title,
+    description: toPlainText(page.excerpt?.rendered) || 'View this page',
+    image,
+    noindex: params.preview,
+    yoast: page.yoast_head_json,
+    jsonLd: [
+      webPageSchema({ siteUrl, path, page, image }),
+      breadcrumbSchema(siteUrl, [
+        ...params.breadcrumbs.map(crumb => ({ name: crumb.title, path: crumb.path })),
+        { name: title, path },
+      ]),
+    ],
+  });
+}
+
+/**
+ * The trail to a page; `items` end with the page itself
+ */
+export function breadcrumbSchema(siteUrl: string, items: Array<{ name: string; path: string }>): JsonLd {
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: [{ name: 'Home', path: '/' }, ...items].map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: absoluteUrl(siteUrl, item.path),
+    })),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Public site address
+ *
+ * Absolute URLs (sitemaps, feeds, canonical links) use `SITE_URL` when it
+ * is set. Otherwise they follow the request, honouring the forwarded host
+ * and protocol set by the Composer or a proxy in front of it.
+ */
+
+export function getSiteUrl(request: Request): string {
+  if (process.env.SITE_URL) {
+    return process.env.SITE_URL.replace(/\/+$/, '');
+  }
+
+  const url = new URL(request.url);
+  const host = request.headers.get('X-Forwarded-Host')?.split(',')[0].trim() || url.host;
+  const protocol = request.headers.get('X-Forwarded-Proto')?.split(',')[0].trim() || url.protocol.replace(/:$/, '');
+
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Absolute URL for an app path
+ */
+export function absoluteUrl(siteUrl: string, path: string): string {
+  return `${siteUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Site name used in titles and feeds
+ */
+export const SITE_NAME = 'WP Remix';
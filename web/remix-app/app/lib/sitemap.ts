@@ -0,0 +1,230 @@
+/**
+ * XML sitemaps
+ *
+ * `/sitemap.xml` is a sitemap index listing paged child sitemaps
+ * (`/sitemaps/posts-1.xml`) for posts, pages, categories and authors.
+ * Child sitemaps are built by walking the paginated REST collections, and
+ * both are cached with the `list:*` tags of the collections they were
+ * built from, so content changes invalidate them.
+ */
+
+import { surrogateKeyHeaders } from './cache-invalidation';
+import { getPageTree } from './page-tree';
+import { absoluteUrl } from './site';
+import { wordpressApi, WordPressApiError } from './wordpress-api';
+import type { WordPressApiResponse } from './wordpress-types';
+
+export const SITEMAP_TYPES = ['posts', 'pages', 'categories', 'authors'] as const;
+
+export type SitemapType = typeof SITEMAP_TYPES[number];
+
+export interface SitemapEntry {
+  /** App path, e.g. `/posts/hello-world` */
+  path: string;
+  /** W3C date of the last modification */
+  lastmod?: string;
+}
+
+/**
+ * URLs per child sitemap (the protocol allows 50,000)
+ */
+export const URLS_PER_SITEMAP = 1000;
+
+/**
+ * Items requested per REST call (the REST maximum)
+ */
+const API_PAGE_SIZE = 100;
+
+/**
+ * Cache tags each sitemap goes stale with
+ */
+const SITEMAP_TAGS: Record<SitemapType, string[]> = {
+  posts: ['list:posts'],
+  pages: ['list:pages'],
+  categories: ['list:categories'],
+  // Authors are listed once they publish a post
+  authors: ['list:users', 'list:posts'],
+};
+
+/**
+ * WordPress dates are site-local without a timezone, so only the day is
+ * reported
+ */
+function toLastmod(modified: string | undefined): string | undefined {
+  return modified?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * One REST page of a sitemap's collection; `perPage: 1` is enough for
+ * the total
+ */
+function fetchCollection(
+  type: SitemapType,
+  page: number,
+  perPage: number
+): Promise<WordPressApiResponse<{ id: number; slug: string; modified?: string }>> {
+  switch (type) {
+    case 'posts':
+      return wordpressApi.getPosts({ page, perPage, fields: ['id', 'slug', 'modified'] });
+    case 'pages':
+      return wordpressApi.getPages({ page, perPage, fields: ['id', 'slug', 'modified'] });
+    case 'categories':
+      return wordpressApi.getCategories({ page, perPage, hide_empty: true });
+    case 'authors':
+      return wordpressApi.getUsers({ page, perPage, has_published_posts: true });
+  }
+}
+
+/**
+ * Parse a child sitemap file name (`posts-2.xml`)
+ */
+export function parseSitemapFile(file: string): { type: SitemapType; page: number } | null {
+  const match = file.match(/^([a-z]+)-([1-9]\d*)\.xml$/);
+
+  if (!match || !SITEMAP_TYPES.includes(match[1] as SitemapType)) {
+    return null;
+  }
+
+  return { type: match[1] as SitemapType, page: parseInt(match[2]) };
+}
+
+/**
+ * Child sitemap file names, one per `URLS_PER_SITEMAP` items of each type
+ */
+export async function getSitemapFiles(): Promise<string[]> {
+  return wordpressApi.cached('sitemap:index', 'posts', sitemapTags(), async () => {
+    const totals = await Promise.all(
+      SITEMAP_TYPES.map(async type => [type, (await fetchCollection(type, 1, 1)).total] as const)
+    );
+
+    return totals.flatMap(([type, total]) =>
+      Array.from(
+        { length: Math.ceil(total / URLS_PER_SITEMAP) },
+        (_, index) => `${type}-${index + 1}.xml`
+      )
+    );
+  });
+}
+
+/**
+ * Entries of one child sitemap; empty past the last page, which the
+ * sitemap index decides so no REST page past the last is requested
+ */
+export async function getSitemapEntries(type: SitemapType, page: number): Promise<SitemapEntry[]> {
+  if (page > 1 && !(await getSitemapFiles()).includes(`${type}-${page}.xml`)) {
+    return [];
+  }
+
+  return wordpressApi.cached(`sitemap:${type}-${page}`, 'posts', SITEMAP_TAGS[type], async () => {
+    const pagesPerSitemap = URLS_PER_SITEMAP / API_PAGE_SIZE;
+    const lastApiPage = page * pagesPerSitemap;
+    const tree = type === 'pages' ? await getPageTree() : null;
+    const entries: SitemapEntry[] = [];
+    let apiPage = (page - 1) * pagesPerSitemap + 1;
+    let totalPages = apiPage;
+
+    while (apiPage <= Math.min(lastApiPage, totalPages)) {
+      const response = await fetchCollection(type, apiPage, API_PAGE_SIZE).catch((error: unknown) => {
+        // Items deleted since the index was built: WordPress rejects the page
+        if (error instanceof WordPressApiError && error.code === 'rest_post_invalid_page_number') {
+          return null;
+        }
+        throw error;
+      });
+      if (!response) break;
+
+      totalPages = response.totalPages;
+      apiPage++;
+
+      for (const item of response.data) {
+        // WordPress stores non-ASCII slugs percent-encoded already
+        const slug = item.slug;
+
+        switch (type) {
+          case 'posts':
+            entries.push({ path: `/posts/${slug}`, lastmod: toLastmod(item.modified) });
+            break;
+          case 'pages': {
+            const node = tree?.byId.get(item.id);
+            if (node) {
+              entries.push({ path: encodeURI(node.path), lastmod: toLastmod(item.modified) });
+            }
+            break;
+          }
+          case 'categories':
+            entries.push({ path: `/category/${slug}` });
+            break;
+          case 'authors':
+            entries.push({ path: `/authors/${slug}` });
+            break;
+        }
+      }
+    }
+
+    return entries;
+  });
+}
+
+/**
+ * Render a sitemap index
+ */
+export function renderSitemapIndex(siteUrl: string, files: string[]): string {
+  const sitemaps = files.map(file =>
+    `  <sitemap>\n    <loc>${escapeXml(absoluteUrl(siteUrl, `/sitemaps/${file}`))}</loc>\n  </sitemap>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a URL set
+ */
+export function renderUrlSet(siteUrl: string, entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => [
+    '  <url>',
+    `    <loc>${escapeXml(absoluteUrl(siteUrl, entry.path))}</loc>`,
+    ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Cache tags of one sitemap type, or of all of them for the index
+ */
+export function sitemapTags(type?: SitemapType): string[] {
+  return type ? SITEMAP_TAGS[type] : Array.from(new Set(Object.values(SITEMAP_TAGS).flat()));
+}
+
+/**
+ * Response headers for a sitemap tagged with `tags`
+ */
+export function sitemapHeaders(tags: string[]): Record<string, string> {
+  return {
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': 'public, max-age=300, s-maxage=3600',
+    ...surrogateKeyHeaders(tags),
+  };
+}
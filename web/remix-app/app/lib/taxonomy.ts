@@ -0,0 +1,168 @@
+/**
+ * Taxonomy helpers
+ *
+ * Resolves category and tag slugs to WordPress terms and loads the
+ * posts assigned to them, with the loader and meta tags shared by the
+ * `category.$slug` and `tag.$slug` archive routes.
+ */
+
+import { json, type MetaDescriptor } from '@remix-run/node';
+import { surrogateKeyHeaders } from './cache-invalidation';
+import { feedLinks } from './feed-links';
+import { logger } from './logger';
+import { parsePage } from './pagination';
+import { toPlainText } from './sanitize';
+import { breadcrumbSchema, buildMeta, pagedPath } from './seo';
+import type { WordPressPost } from './wordpress-types';
+import {
+  wordpressApi,
+  WordPressApiError,
+  type WordPressApiResponse,
+  type WordPressCategory,
+  type WordPressTag,
+} from './wordpress-api';
+
+export type TaxonomyName = 'category' | 'tag';
+
+/**
+ * Labels and paths of each archive route
+ */
+const ARCHIVES: Record<TaxonomyName, { label: string; basePath: string; describe: (name: string) => string }> = {
+  category: { label: 'Category', basePath: '/category', describe: name => `Posts filed under ${name}` },
+  tag: { label: 'Tag', basePath: '/tag', describe: name => `Posts tagged ${name}` },
+};
+
+/**
+ * Posts per archive page
+ */
+const ARCHIVE_PAGE_SIZE = 10;
+
+export interface TermArchive {
+  term: WordPressCategory | WordPressTag;
+  posts: WordPressApiResponse<WordPressPost>;
+}
+
+/**
+ * Resolve a term slug to its WordPress term; with the loader's `request`,
+ * the lookup is cancelled and traced with it
+ */
+export async function getTermBySlug(
+  taxonomy: TaxonomyName,
+  slug: string,
+  request?: Request
+): Promise<WordPressCategory | WordPressTag> {
+  const api = wordpressApi.forRequest(request);
+  const response = taxonomy === 'category'
+    ? await api.getCategories({ slug })
+    : await api.getTags({ slug });
+
+  const term = response.data[0];
+
+  if (!term) {
+    throw new WordPressApiError(
+      `${taxonomy === 'category' ? 'Category' : 'Tag'} not found`,
+      404
+    );
+  }
+
+  return term;
+}
+
+/**
+ * Load a term and a page of the posts assigned to it
+ */
+export async function getTermArchive(
+  taxonomy: TaxonomyName,
+  slug: string,
+  params: { page?: number; perPage?: number; request?: Request } = {}
+): Promise<TermArchive> {
+  const term = await getTermBySlug(taxonomy, slug, params.request);
+  const filter = taxonomy === 'category'
+    ? { categories: term.id.toString() }
+    : { tags: term.id.toString() };
+
+  const posts = await wordpressApi.forRequest(params.request).getPosts({
+    ...filter,
+    page: params.page,
+    perPage: params.perPage,
+    orderby: 'date',
+    order: 'desc',
+    status: 'publish',
+  });
+
+  return { term, posts };
+}
+
+/**
+ * Loader for a term archive route: the term and the page of its posts
+ * in `?page=`. Unknown terms and pages past the last are 404s.
+ */
+export async function loadTermArchive(request: Request, taxonomy: TaxonomyName, slug: string | undefined) {
+  const { label } = ARCHIVES[taxonomy];
+
+  if (!slug) {
+    throw new Response('Not Found', { status: 404 });
+  }
+
+  const page = parsePage(new URL(request.url).searchParams);
+
+  try {
+    const { term, posts } = await getTermArchive(taxonomy, slug, { page, perPage: ARCHIVE_PAGE_SIZE, request });
+
+    return json({
+      term,
+      posts: posts.data,
+      currentPage: page,
+      totalPages: posts.totalPages,
+    }, {
+      headers: surrogateKeyHeaders([`term:${term.id}`, 'list:posts']),
+    });
+  } catch (error) {
+    if (error instanceof WordPressApiError && error.code === 'rest_post_invalid_page_number') {
+      throw new Response('Page Not Found', { status: 404 });
+    }
+
+    logger.forRequest(request).error(`Error loading ${taxonomy} archive`, { slug, err: error });
+
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response(`${label} Not Found`, { status: 404 });
+    }
+
+    throw new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+type TermSummary = Pick<WordPressCategory | WordPressTag, 'name' | 'slug' | 'description' | 'yoast_head_json'>;
+
+/**
+ * Meta tags for a term archive route
+ */
+export function termArchiveMeta(
+  taxonomy: TaxonomyName,
+  data: { term: TermSummary; currentPage: number } | undefined,
+  siteUrl: string
+): MetaDescriptor[] {
+  const { label, basePath, describe } = ARCHIVES[taxonomy];
+
+  if (!data?.term) {
+    return [
+      { title: `${label} Not Found - WP Remix` },
+      { name: 'description', content: `The requested ${taxonomy} could not be found` },
+    ];
+  }
+
+  const name = toPlainText(data.term.name);
+  const path = `${basePath}/${data.term.slug}`;
+
+  return [
+    ...buildMeta({
+      siteUrl,
+      path: pagedPath(path, data.currentPage),
+      title: name,
+      description: data.term.description || describe(name),
+      yoast: data.term.yoast_head_json,
+      jsonLd: [breadcrumbSchema(siteUrl, [{ name, path }])],
+    }),
+    ...feedLinks(path, data.term.name).map(link => ({ tagName: 'link' as const, ...link })),
+  ];
+}
@@ -0,0 +1,318 @@
+/**
+ * Request tracing
+ *
+ * W3C Trace Context propagation with OpenTelemetry-compatible spans:
+ *
+ * - loaders start from the `traceparent` header of the incoming request,
+ *   or a new trace when there is none (see `WordPressApiClient.forRequest`)
+ * - the active trace follows async work through `AsyncLocalStorage`, so
+ *   coalesced requests, batches and cache revalidations keep it
+ * - every HTTP attempt to WordPress is a client span whose `traceparent`
+ *   is sent upstream, through the Composer proxy to WordPress
+ *
+ * Sampled spans are exported as OTLP/HTTP JSON when
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` (or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`)
+ * is set; `OTEL_SERVICE_NAME` names this service (`remix-app`).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { logger } from './logger';
+
+export interface TraceContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** Span new spans are children of; absent at the root of a trace */
+  spanId?: string;
+  sampled: boolean;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Trace context from a `traceparent` header, if it is valid
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | undefined {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT);
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (parseInt(match[3], 16) & 1) === 1,
+  };
+}
+
+const requestTraces = new WeakMap<Request, TraceContext>();
+
+/**
+ * Trace context for a request: its `traceparent`, or a new trace. The
+ * same request always gets the same trace, so its log lines and
+ * WordPress calls can be matched up.
+ */
+export function traceFromRequest(request: Request): TraceContext {
+  let trace = requestTraces.get(request);
+
+  if (!trace) {
+    trace = parseTraceparent(request.headers.get('traceparent')) ?? {
+      traceId: randomBytes(16).toString('hex'),
+      sampled: true,
+    };
+    requestTraces.set(request, trace);
+  }
+
+  return trace;
+}
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+/**
+ * Run `fn` with `context` as the active trace
+ */
+export function runWithTrace<T>(context: TraceContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The trace active in the current async context
+ */
+export function activeTrace(): TraceContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * OTLP numeric span kinds
+ */
+const SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+/**
+ * A timed operation within a trace; `end()` records and exports it
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly parentSpanId?: string;
+  readonly sampled: boolean;
+  private startTime = now();
+  private endTime?: number;
+  private error?: string;
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    private attributes: SpanAttributes,
+    parent?: TraceContext
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+  }
+
+  /**
+   * Context for this span's children
+   */
+  context(): TraceContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: this.sampled };
+  }
+
+  /**
+   * `traceparent` header value naming this span as the parent
+   */
+  traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-${this.sampled ? '01' : '00'}`;
+  }
+
+  setAttribute(name: string, value: string | number | boolean | undefined): this {
+    this.attributes[name] = value;
+    return this;
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  fail(error: unknown): this {
+    this.error = error instanceof Error ? error.message : String(error);
+    return this;
+  }
+
+  end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = now();
+
+    if (this.sampled) {
+      getExporter()?.add(this);
+    }
+  }
+
+  /**
+   * The span in OTLP JSON form
+   */
+  toOtlp(): Record<string, unknown> {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      name: this.name,
+      kind: SPAN_KINDS[this.kind],
+      startTimeUnixNano: toUnixNano(this.startTime),
+      endTimeUnixNano: toUnixNano(this.endTime ?? now()),
+      attributes: toOtlpAttributes(this.attributes),
+      status: this.error === undefined ? { code: 0 } : { code: 2, message: this.error },
+    };
+  }
+}
+
+/**
+ * Start a span, by default a child of the active trace
+ */
+export function startSpan(
+  name: string,
+  options: { kind?: SpanKind; attributes?: SpanAttributes } = {},
+  parent: TraceContext | undefined = activeTrace()
+): Span {
+  return new Span(name, options.kind ?? 'internal', { ...options.attributes }, parent);
+}
+
+/**
+ * Sends finished spans to an OTLP/HTTP collector in batches
+ */
+export class OtlpExporter {
+  private queue: Span[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private config: {
+    /** Traces endpoint, e.g. `http://collector:4318/v1/traces` */
+    url: string;
+    serviceName: string;
+    headers?: Record<string, string>;
+    /** Spans per request */
+    batchSize?: number;
+    /** Longest wait before queued spans are sent (ms) */
+    interval?: number;
+    /** Spans held while the collector is slow; older ones are dropped */
+    maxQueue?: number;
+  }) {}
+
+  add(span: Span): void {
+    if (this.queue.length >= (this.config.maxQueue ?? 2048)) {
+      this.queue.shift();
+    }
+    this.queue.push(span);
+
+    if (this.queue.length >= (this.config.batchSize ?? 100)) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.config.interval ?? 5000);
+      this.timer.unref();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const spans = this.queue.splice(0, this.config.batchSize ?? 100);
+    if (spans.length === 0) return;
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify({
+          resourceSpans: [{
+            resource: { attributes: toOtlpAttributes({ 'service.name': this.config.serviceName }) },
+            scopeSpans: [{ scope: { name: 'wp-remix' }, spans: spans.map(span => span.toOtlp()) }],
+          }],
+        }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        logger.warn('Trace export failed', { status: response.status, spans: spans.length });
+      }
+    } catch (error) {
+      logger.warn('Trace export failed', { err: error, spans: spans.length });
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.config.interval ?? 5000);
+      this.timer.unref();
+    }
+  }
+}
+
+/**
+ * Span exporter from the standard OpenTelemetry environment variables,
+ * or null when no collector is configured
+ *
+ * - `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`: the full traces URL
+ * - `OTEL_EXPORTER_OTLP_ENDPOINT`: the collector, with `/v1/traces` added
+ * - `OTEL_EXPORTER_OTLP_HEADERS`: `key=value` pairs, comma-separated
+ * - `OTEL_SERVICE_NAME`: defaults to `remix-app`
+ */
+export function createExporterFromEnv(): OtlpExporter | null {
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  const url = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    || (base ? `${base.replace(/\/+$/, '')}/v1/traces` : '');
+
+  if (!url) {
+    return null;
+  }
+
+  const headers = Object.fromEntries(
+    (process.env.OTEL_EXPORTER_OTLP_HEADERS || '')
+      .split(',')
+      .map(pair => pair.split('=').map(part => decodeURIComponent(part.trim())))
+      .filter(([key, value]) => key && value)
+  );
+
+  return new OtlpExporter({
+    url,
+    serviceName: process.env.OTEL_SERVICE_NAME || 'remix-app',
+    headers,
+  });
+}
+
+let exporter: OtlpExporter | null | undefined;
+
+function getExporter(): OtlpExporter | null {
+  if (exporter === undefined) {
+    exporter = createExporterFromEnv();
+  }
+  return exporter;
+}
+
+/**
+ * Milliseconds since the epoch, with sub-millisecond precision
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+    }));
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createWordPressClient } from './wordpress-api';
+import { MockTransport } from './wordpress-transport';
+import type { WordPressCategory, WordPressPost } from './wordpress-types';
+
+describe('search', () => {
+  const posts = Array.from({ length: 13 }, (_, index) => ({
+    id: index + 1,
+    slug: `post-${index}`,
+    status: 'publish',
+    title: { rendered: `Match post ${index}` },
+    content: { rendered: '' },
+  })) as unknown as WordPressPost[];
+  const categories = Array.from({ length: 7 }, (_, index) => ({
+    id: 100 + index,
+    slug: `category-${index}`,
+    name: `Match category ${index}`,
+  })) as unknown as WordPressCategory[];
+  const api = createWordPressClient({
+    transport: new MockTransport({ posts, pages: [], categories, tags: [] }),
+    cache: false,
+    circuitBreaker: false,
+    sanitize: false,
+  });
+
+  it('pages content and terms as one list of `perPage` results', async () => {
+    const pages = await Promise.all([1, 2, 3, 4].map(page => api.search('match', { page, perPage: 6 })));
+
+    expect(pages.map(page => page.data.length)).toEqual([6, 6, 6, 2]);
+    expect(pages.every(page => page.total === 20 && page.totalPages === 4)).toBe(true);
+    expect(pages[2].data.map(result => result.title)).toEqual([
+      'Match post 12',
+      'Match category 0',
+      'Match category 1',
+      'Match category 2',
+      'Match category 3',
+      'Match category 4',
+    ]);
+    expect(new Set(pages.flatMap(page => page.data.map(result => result.id))).size).toBe(20);
+  });
+
+  it('returns no results past the last page', async () => {
+    expect(await api.search('match', { page: 5, perPage: 6 })).toMatchObject({ data: [], total: 20, totalPages: 4 });
+  });
+
+  it('pages a single type with its own totals', async () => {
+    expect(await api.search('match', { type: 'category', page: 2, perPage: 5 }))
+      .toMatchObject({ total: 7, totalPages: 2, data: [{ title: 'Match category 5' }, { title: 'Match category 6' }] });
+  });
+});
@@ -3,208 +3,618 @@
  * 
  * This module provides typed functions to interact with the WordPress REST API
  * replacing the mock data with real WordPress content.
+ *
+ * Every request goes through a pluggable transport (see
+ * `wordpress-transport.ts`), so caching and pagination behave the same
+ * whether content comes from the Composer proxy, the WordPress origin,
+ * the in-memory mock or recorded fixtures.
  */
 
-import type { 
-  WordPressPost, 
-  WordPressPage
-} from './wordpress';
+import {
+  FixtureTransport,
+  HttpTransport,
+  MockTransport,
+  RetryPolicy,
+  WordPressApiError,
+  type TransportRequest,
+  type TransportResponse,
+  type WordPressTransport,
+} from './wordpress-transport';
+import {
+  createCacheStoreFromEnv,
+  MemoryCacheStore,
+  WordPressCache,
+  type CachePolicy,
+  type CacheResource,
+  type CacheStats,
+  type CacheStore,
+} from './wordpress-cache';
+import { cacheTagsForResponse } from './cache-invalidation';
+import type { HealthCheck, HealthStatus } from './health';
+import { logger } from './logger';
+import { setCircuitState } from './metrics';
+import { runWithTrace, traceFromRequest, type TraceContext } from './tracing';
+import { BatchLoader, normalizeRequestKey, RequestCoalescer } from './batching';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  createCircuitBreakerFromEnv,
+  type CircuitBreakerOptions,
+  type CircuitSnapshot,
+} from './circuit-breaker';
+import { collectMediaIds, type Block } from './blocks';
+import {
+  DEFAULT_IFRAME_HOSTS,
+  sanitizeRenderedFields,
+  type SanitizePolicy,
+} from './sanitize';
+import {
+  getFeaturedImage,
+  toFeaturedImage,
+  type EmbeddingItem,
+  type FeaturedImage,
+} from './embedded';
+import type {
+  ContactForm7Feedback,
+  WordPressApiResponse,
+  WordPressCategory,
+  WordPressComment,
+  WordPressEntry,
+  WordPressMedia,
+  WordPressMenuItem,
+  WordPressMenuLocation,
+  WordPressNavigation,
+  WordPressPage,
+  WordPressPost,
+  WordPressPostType,
+  WordPressRevision,
+  WordPressSearchResult,
+  WordPressSearchType,
+  WordPressTag,
+  WordPressUser,
+} from './wordpress-types';
 
-// Additional WordPress API types that extend the base types
-export interface WordPressCategory {
-  id: number;
-  count: number;
-  description: string;
-  link: string;
-  name: string;
-  slug: string;
-  taxonomy: string;
-  parent: number;
-  _links: Record<string, any>;
-}
+export type * from './wordpress-types';
+export {
+  FileCacheStore,
+  MemoryCacheStore,
+  WordPressCache,
+  type CacheStats,
+  type CacheStore,
+} from './wordpress-cache';
+export {
+  CircuitBreaker,
+  CircuitOpenError,
+  type CircuitBreakerOptions,
+  type CircuitSnapshot,
+  type CircuitState,
+} from './circuit-breaker';
+export {
+  FixtureTransport,
+  HttpTransport,
+  MockTransport,
+  RetryPolicy,
+  WordPressApiError,
+  type RetryPolicyOptions,
+  type WordPressTransport,
+} from './wordpress-transport';
 
-export interface WordPressTag {
+const log = logger.child({ module: 'wordpress-api' });
+
+interface RawSearchResult {
   id: number;
-  count: number;
-  description: string;
-  link: string;
-  name: string;
-  slug: string;
-  taxonomy: string;
-  _links: Record<string, any>;
+  title: string;
+  url: string;
+  type: 'post' | 'term' | 'post-format';
+  subtype: string;
+  _embedded?: { self?: unknown[] };
 }
 
-export interface WordPressMedia {
-  id: number;
-  date: string;
-  slug: string;
-  type: string;
-  link: string;
-  title: {
-    rendered: string;
-  };
-  author: number;
-  caption: {
-    rendered: string;
-  };
-  alt_text: string;
-  media_type: string;
-  mime_type: string;
-  media_details: {
-    width: number;
-    height: number;
-    file: string;
-    sizes: Record<string, {
-      file: string;
-      width: number;
-      height: number;
-      mime_type: string;
-      source_url: string;
-    }>;
-  };
-  source_url: string;
-  _links: Record<string, any>;
+/**
+ * WordPress object type and subtype for each search result type
+ */
+const SEARCH_SUBTYPES: Record<WordPressSearchType, { type: string; subtype: string }> = {
+  post: { type: 'post', subtype: 'post' },
+  page: { type: 'post', subtype: 'page' },
+  category: { type: 'term', subtype: 'category' },
+  tag: { type: 'term', subtype: 'post_tag' },
+};
+
+/**
+ * What `search` with `type: 'any'` queries for content and for terms
+ */
+const CONTENT_SEARCH = { type: 'post', subtype: 'post,page' };
+const TERM_SEARCH = { type: 'term', subtype: 'category,post_tag' };
+
+function toSearchResult(raw: RawSearchResult): WordPressSearchResult {
+  const embedded = raw._embedded?.self?.[0];
+  const item = embedded && typeof embedded === 'object' && 'id' in embedded ? embedded : null;
+  const base = { id: raw.id, title: raw.title, url: raw.url };
+
+  switch (raw.subtype) {
+    case 'page':
+      return { ...base, type: 'page', item: item as WordPressPage | null };
+    case 'category':
+      return { ...base, type: 'category', item: item as WordPressCategory | null };
+    case 'post_tag':
+      return { ...base, type: 'tag', item: item as WordPressTag | null };
+    default:
+      return { ...base, type: 'post', item: item as WordPressPost | null };
+  }
 }
 
-export interface WordPressUser {
-  id: number;
-  name: string;
-  url: string;
-  description: string;
-  link: string;
-  slug: string;
-  avatar_urls: Record<string, string>;
-  _links: Record<string, any>;
+/**
+ * Cache policy per REST collection
+ */
+const CACHE_RESOURCES: Record<string, CacheResource> = {
+  posts: 'posts',
+  pages: 'pages',
+  categories: 'terms',
+  tags: 'terms',
+  media: 'media',
+  users: 'users',
+  search: 'search',
+  comments: 'comments',
+  types: 'types',
+  'menu-locations': 'menus',
+  'menu-items': 'menus',
+  navigation: 'menus',
+};
+
+/**
+ * Response headers kept alongside cached bodies
+ */
+const CACHED_HEADERS = ['x-wp-total', 'x-wp-totalpages'];
+
+interface CachedResponse<T> {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
 }
 
+/**
+ * Credentials for drafts, private content and previews
+ *
+ * - `application-password`: a WordPress application password (HTTP Basic)
+ * - `jwt`: a bearer token, either given or exchanged for `username` and
+ *   `password` at the JWT Authentication plugin's `/jwt-auth/v1/token`
+ */
+export type WordPressAuth =
+  | { type: 'application-password'; username: string; password: string }
+  | { type: 'jwt'; token: string }
+  | { type: 'jwt'; username: string; password: string };
+
 /**
  * Configuration for WordPress API client
+ *
+ * Either pass a `transport`, or a `baseUrl` for the default HTTP transport.
  */
 interface WordPressConfig {
-  baseUrl: string;
+  baseUrl?: string;
+  transport?: WordPressTransport;
+  auth?: WordPressAuth;
   timeout?: number;
   cache?: boolean;
+  cacheStore?: CacheStore;
+  cachePolicies?: Partial<Record<CacheResource, CachePolicy>>;
+  retries?: number;
+  /** Breaker for failing requests; `false` sends every request */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions | false;
+  /** Allowlist for rendered HTML; `false` passes it through unchanged */
+  sanitize?: SanitizePolicy | false;
+}
+
+interface RequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** REST namespace the endpoint belongs to */
+  namespace?: string;
+  /**
+   * - `private`: send credentials and never cache (drafts, previews)
+   * - `shared`: send credentials when configured and cache as usual, for
+   *   responses that are the same for every visitor (e.g. menus)
+   */
+  credentials?: 'private' | 'shared';
+  /** Override the transport's number of attempts, e.g. 1 for writes */
   retries?: number;
+  /** Core collection whose cache policy and object tags apply */
+  cacheAs?: string;
+  /** Cache tags besides those derived from the response */
+  tags?: string[];
+  /** `false` skips the cache, e.g. for batches cached per item */
+  cache?: boolean;
+}
+
+/**
+ * Collections whose single-item lookups are batched into `include=` queries
+ */
+type BatchedCollection = 'media' | 'users' | 'categories' | 'tags';
+
+/**
+ * Post `_embed` links for posts and pages
+ */
+const POST_EMBEDS = 'author,wp:featuredmedia,wp:term';
+const PAGE_EMBEDS = 'author,wp:featuredmedia';
+
+/**
+ * Post types with their own methods and routes, or internal to the editor
+ */
+const BUILT_IN_POST_TYPES = new Set(['post', 'page', 'attachment', 'nav_menu_item']);
+
+/**
+ * Whether a post type is a custom one, rendered by the generic entry route
+ */
+export function isCustomPostType(type: Pick<WordPressPostType, 'slug'>): boolean {
+  return !BUILT_IN_POST_TYPES.has(type.slug) && !type.slug.startsWith('wp_');
 }
 
 /**
- * WordPress API Response for paginated endpoints
+ * ACF answers `acf: []` for entries without field values
  */
-interface WordPressApiResponse<T> {
-  data: T[];
-  total: number;
-  totalPages: number;
-  page: number;
-  perPage: number;
+function normalizeAcf<T extends WordPressEntry>(entry: T): T {
+  return Array.isArray(entry.acf) ? { ...entry, acf: {} as T['acf'] } : entry;
 }
 
 /**
- * WordPress API Error
+ * Revisions are optional for previews: the user may not be allowed to
+ * read them, and not every transport serves them
  */
-export class WordPressApiError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public code?: string
-  ) {
-    super(message);
-    this.name = 'WordPressApiError';
+function noRevisions(error: unknown): WordPressRevision[] {
+  if (error instanceof WordPressApiError && (error.status === 403 || error.status === 404)) {
+    return [];
+  }
+  throw error;
+}
+
+/**
+ * A failed probe is `degraded` when WordPress answered 4xx (it is up,
+ * but refuses the request) and `down` otherwise
+ */
+function probeStatus(error: unknown): HealthStatus {
+  return error instanceof WordPressApiError && error.status && error.status < 500 ? 'degraded' : 'down';
+}
+
+function probeMessage(error: unknown): string {
+  if (error instanceof CircuitOpenError) {
+    return `Circuit open after repeated failures; WordPress is retried at ${new Date(error.retryAt).toISOString()}`;
+  }
+  if (error instanceof WordPressApiError && error.status) {
+    return `WordPress API returned ${error.status}: ${error.message}`;
+  }
+  return `WordPress API is not accessible: ${error instanceof Error ? error.message : 'Unknown error'}`;
+}
+
+/**
+ * Database status as WordPress reports it
+ */
+function databaseCheck(
+  rootError: unknown,
+  probe: { latencyMs: number; data: { database?: { latency_ms?: number } } | null; error: unknown }
+): HealthCheck {
+  // WordPress answers every request with this while it cannot connect
+  if ([rootError, probe.error].some(error => error instanceof Error && /database connection/i.test(error.message))) {
+    return { status: 'down', latencyMs: null, message: 'WordPress cannot connect to its database' };
+  }
+
+  if (probe.data) {
+    return {
+      status: 'ok',
+      latencyMs: probe.data.database?.latency_ms ?? null,
+      message: 'Database query answered',
+    };
+  }
+
+  if (probe.error instanceof WordPressApiError && probe.error.code === 'database_unavailable') {
+    return { status: 'down', latencyMs: null, message: probe.error.message };
+  }
+
+  if (rootError) {
+    return { status: 'down', latencyMs: null, message: 'Unknown while WordPress is unavailable' };
+  }
+
+  if (probe.error instanceof WordPressApiError && probe.error.code === 'rest_no_route') {
+    return { status: 'ok', latencyMs: null, message: 'WordPress is serving its REST API (health plugin not installed)' };
   }
+
+  return { status: probeStatus(probe.error), latencyMs: probe.latencyMs, message: probeMessage(probe.error) };
 }
 
 /**
  * WordPress API Client Class
  */
 class WordPressApiClient {
-  private config: Required<WordPressConfig>;
-  private cache: Map<string, { data: any; timestamp: number; ttl: number }> = new Map();
+  private config: Required<Pick<WordPressConfig, 'timeout' | 'cache' | 'retries'>>;
+  private transport: WordPressTransport;
+  private cache: WordPressCache;
+  private auth?: WordPressAuth;
+  /** Exchanged JWT, shared with `withSignal()` views */
+  private jwt: { token: Promise<string> | null } = { token: null };
+  private sanitizePolicy: SanitizePolicy | false;
+  private breaker: CircuitBreaker | null;
+  /** Cancels this view's requests; see `withSignal()` */
+  private signal?: AbortSignal;
+  /** Trace this view's requests belong to; see `forRequest()` */
+  private trace?: TraceContext;
+  private coalescer = new RequestCoalescer();
+  private batchers: Record<BatchedCollection, BatchLoader<number, { id: number }>> = {
+    media: this.createBatcher('media'),
+    users: this.createBatcher('users'),
+    categories: this.createBatcher('categories'),
+    tags: this.createBatcher('tags'),
+  };
 
   constructor(config: WordPressConfig) {
     this.config = {
-      timeout: 10000,
-      cache: true,
-      retries: 3,
-      ...config,
+      timeout: config.timeout ?? 10000,
+      cache: config.cache ?? true,
+      retries: config.retries ?? 3,
+    };
+    this.auth = config.auth;
+    this.breaker = config.circuitBreaker === false
+      ? null
+      : config.circuitBreaker instanceof CircuitBreaker
+        ? config.circuitBreaker
+        : new CircuitBreaker(config.circuitBreaker);
+    this.sanitizePolicy = config.sanitize ?? {
+      iframeHosts: DEFAULT_IFRAME_HOSTS,
+      embedHosts: [],
+      siteUrls: config.baseUrl ? [config.baseUrl] : [],
     };
+    this.cache = new WordPressCache(
+      config.cacheStore ?? new MemoryCacheStore(),
+      config.cachePolicies
+    );
+
+    if (config.transport) {
+      this.transport = config.transport;
+    } else if (config.baseUrl) {
+      this.transport = new HttpTransport({
+        baseUrl: config.baseUrl,
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+      });
+    } else {
+      throw new Error('WordPressApiClient needs either a baseUrl or a transport');
+    }
   }
 
   /**
-   * Make authenticated request to WordPress API
+   * Send a request through the transport, serving GETs from cache
+   *
+   * Rendered HTML is sanitized before it is cached or returned, so every
+   * loader sees the same filtered content. Requests go through the circuit
+   * breaker; while it is open they fail at once and the cache serves stale
+   * responses. Identical GETs in flight at the same time share one request.
    */
-  private async request<T>(
+  private async send<T>(
     endpoint: string,
-    options: RequestInit = {},
-    cacheTtl: number = 5 * 60 * 1000 // 5 minutes default
-  ): Promise<T> {
-    const url = `${this.config.baseUrl}/wp-json/wp/v2${endpoint}`;
-    const cacheKey = `${url}:${JSON.stringify(options)}`;
-
-    // Check cache first
-    if (this.config.cache && options.method !== 'POST') {
-      const cached = this.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < cached.ttl) {
-        return cached.data;
+    options: RequestOptions = {}
+  ): Promise<TransportResponse<T>> {
+    const { namespace = '/wp/v2', credentials, cacheAs, tags = [], cache = true, ...request } = options;
+    const path = `${namespace}${endpoint}`;
+    const read = !request.method || request.method === 'GET';
+    const cacheable = this.config.cache && cache && read;
+    const transportSend = async <R>({ signal, ...transportRequest }: TransportRequest): Promise<TransportResponse<R>> => {
+      const sendOnce = async (sendSignal?: AbortSignal): Promise<TransportResponse<R>> => {
+        const response = await this.guard(() => credentials === 'private' || (credentials === 'shared' && this.auth)
+          ? this.sendAuthenticated<R>({ ...transportRequest, signal: sendSignal })
+          : this.transport.send<R>({ ...transportRequest, signal: sendSignal }));
+
+        return this.sanitizePolicy
+          ? { ...response, data: sanitizeRenderedFields(response.data, this.sanitizePolicy) }
+          : response;
+      };
+
+      if (!read || credentials === 'private') {
+        return sendOnce(signal);
       }
+
+      const key = `${this.transport.name}:${credentials ?? 'public'}:${normalizeRequestKey(path)}`;
+      return this.coalescer.run(key, sendOnce, signal);
+    };
+
+    if (!cacheable || credentials === 'private') {
+      return this.traced(() => transportSend<T>({ path, ...request, signal: this.signal }));
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const collection = endpoint.split(/[/?]/)[1] || '';
+    const cached = await this.traced(() => this.cache.fetch<CachedResponse<T>>(
+      `${this.transport.name}:${path}`,
+      CACHE_RESOURCES[cacheAs ?? collection] ?? 'default',
+      async (signal) => {
+        const response = await transportSend<T>({ path, ...request, signal });
+        return {
+          status: response.status,
+          headers: Object.fromEntries(
+            CACHED_HEADERS
+              .filter(name => response.headers.has(name))
+              .map(name => [name, response.headers.get(name) as string])
+          ),
+          data: response.data,
+        };
+      },
+      (response) => [...cacheTagsForResponse(collection, response.data, cacheAs), ...tags],
+      this.signal
+    ));
 
-    let lastError: Error | null = null;
+    return { ...cached, headers: new Headers(cached.headers) };
+  }
 
-    // Retry logic
-    for (let attempt = 0; attempt < this.config.retries; attempt++) {
-      try {
-        const response = await fetch(url, {
-          ...options,
-          signal: controller.signal,
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-            ...options.headers,
-          },
+  /**
+   * A view of this client whose requests are cancelled with `signal`,
+   * such as a loader's `request.signal`, so abandoned navigations stop
+   * their WordPress requests. It shares the cache, circuit breaker and
+   * credentials; background cache revalidations are never cancelled.
+   */
+  withSignal(signal: AbortSignal | undefined): WordPressApiClient {
+    if (!signal) return this;
+
+    const view = Object.create(this) as WordPressApiClient;
+    view.signal = signal;
+    return view;
+  }
+
+  /**
+   * A view of this client for a loader's `request`: cancelled with its
+   * signal like `withSignal()`, and tracing its WordPress requests as
+   * part of the request's trace (its `traceparent` header, or a new one)
+   */
+  forRequest(request: Request | undefined): WordPressApiClient {
+    if (!request) return this;
+
+    const view = Object.create(this) as WordPressApiClient;
+    view.signal = request.signal;
+    view.trace = traceFromRequest(request);
+    return view;
+  }
+
+  /**
+   * Run `request` with this view's trace active, so the upstream requests
+   * it starts, including shared ones and revalidations, join the trace
+   */
+  private traced<T>(request: () => Promise<T>): Promise<T> {
+    return this.trace ? runWithTrace(this.trace, request) : request();
+  }
+
+  /**
+   * Batches `include=` lookups of `collection` made during one tick
+   *
+   * Batches are shared by every caller, so they are not cancelled with
+   * a view's signal.
+   */
+  private createBatcher(collection: BatchedCollection): BatchLoader<number, { id: number }> {
+    return new BatchLoader(
+      async (ids) => {
+        const searchParams = new URLSearchParams({
+          include: ids.join(','),
+          per_page: ids.length.toString(),
         });
+        const items = await this.request<Array<{ id: number }>>(`/${collection}?${searchParams}`, { cache: false });
+        return new Map(items.map(item => [item.id, item]));
+      },
+      () => new WordPressApiError('Invalid ID.', 404, 'rest_invalid_id')
+    );
+  }
 
-        clearTimeout(timeoutId);
+  /**
+   * One item of `collection` by ID, cached like `/{collection}/{id}` but
+   * fetched in a batch with the other IDs requested in the same tick
+   */
+  private async getBatched<T extends { id: number }>(collection: BatchedCollection, id: number): Promise<T> {
+    const load = () => this.traced(async () => await this.batchers[collection].load(id) as T);
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new WordPressApiError(
-            errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-            response.status,
-            errorData.code
-          );
-        }
+    if (!this.config.cache) {
+      return load();
+    }
 
-        const data = await response.json();
+    const cached = await this.cache.fetch<CachedResponse<T>>(
+      `${this.transport.name}:/wp/v2/${collection}/${id}`,
+      CACHE_RESOURCES[collection],
+      async () => ({ status: 200, headers: {}, data: await load() }),
+      (response) => cacheTagsForResponse(collection, response.data)
+    );
 
-        // Cache successful responses
-        if (this.config.cache && options.method !== 'POST') {
-          this.cache.set(cacheKey, {
-            data,
-            timestamp: Date.now(),
-            ttl: cacheTtl,
-          });
-        }
+    return cached.data;
+  }
 
-        return data;
-      } catch (error) {
-        lastError = error as Error;
-        
-        // Don't retry on 4xx errors (client errors)
-        if (error instanceof WordPressApiError && error.status && error.status < 500) {
-          throw error;
-        }
+  /**
+   * Run a transport request through the circuit breaker, when there is one
+   */
+  private guard<T>(request: () => Promise<T>): Promise<T> {
+    return this.breaker ? this.breaker.execute(request) : request();
+  }
 
-        // Wait before retry (exponential backoff)
-        if (attempt < this.config.retries - 1) {
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        }
+  /**
+   * Send a request with the configured credentials, bypassing the cache
+   */
+  private async sendAuthenticated<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const authorization = await this.authorization();
+
+    try {
+      return await this.transport.send<T>({
+        ...request,
+        headers: { ...request.headers, Authorization: authorization },
+      });
+    } catch (error) {
+      // Exchanged JWTs expire; fetch a new one on the next request
+      if (
+        error instanceof WordPressApiError &&
+        this.auth?.type === 'jwt' &&
+        (error.status === 401 || error.code?.startsWith('jwt_auth_'))
+      ) {
+        this.jwt.token = null;
       }
+      throw error;
+    }
+  }
+
+  /**
+   * `Authorization` header value for the configured credentials
+   */
+  private async authorization(): Promise<string> {
+    const auth = this.auth;
+
+    if (!auth) {
+      throw new WordPressApiError('WordPress credentials are not configured', 401, 'rest_not_logged_in');
+    }
+
+    if (auth.type === 'application-password') {
+      const credentials = Buffer.from(`${auth.username}:${auth.password.replace(/\s+/g, '')}`);
+      return `Basic ${credentials.toString('base64')}`;
+    }
+
+    if ('token' in auth) {
+      return `Bearer ${auth.token}`;
+    }
+
+    if (!this.jwt.token) {
+      this.jwt.token = this.transport.send<{ token: string }>({
+        path: '/jwt-auth/v1/token',
+        method: 'POST',
+        body: JSON.stringify({ username: auth.username, password: auth.password }),
+      }).then(response => response.data.token);
+
+      this.jwt.token.catch(() => {
+        this.jwt.token = null;
+      });
     }
 
-    clearTimeout(timeoutId);
-    throw lastError || new WordPressApiError('Request failed after retries');
+    return `Bearer ${await this.jwt.token}`;
+  }
+
+  /**
+   * Make a request to the WordPress API and return its body
+   */
+  private async request<T>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const response = await this.send<T>(endpoint, options);
+    return response.data;
+  }
+
+  /**
+   * Request a collection endpoint and parse its pagination headers
+   */
+  private async requestList<T>(
+    collection: string,
+    searchParams: URLSearchParams,
+    options: RequestOptions = {}
+  ): Promise<WordPressApiResponse<T>> {
+    const queryString = searchParams.toString();
+    const response = await this.send<T[]>(
+      `${collection}${queryString ? `?${queryString}` : ''}`,
+      options
+    );
+
+    return {
+      data: response.data,
+      total: parseInt(response.headers.get('X-WP-Total') || '0'),
+      totalPages: parseInt(response.headers.get('X-WP-TotalPages') || '0'),
+      page: parseInt(searchParams.get('page') || '1'),
+      perPage: parseInt(searchParams.get('per_page') || '10'),
+    };
   }
 
   /**
@@ -215,10 +625,13 @@ class WordPressApiClient {
     perPage?: number;
     categories?: string;
     tags?: string;
+    author?: number;
     search?: string;
     orderby?: 'date' | 'title' | 'menu_order';
     order?: 'asc' | 'desc';
     status?: 'publish' | 'draft' | 'private';
+    /** Only return these fields, without embedded resources */
+    fields?: Array<keyof WordPressPost>;
   } = {}): Promise<WordPressApiResponse<WordPressPost>> {
     const searchParams = new URLSearchParams();
     
@@ -226,44 +639,23 @@ class WordPressApiClient {
     if (params.perPage) searchParams.append('per_page', params.perPage.toString());
     if (params.categories) searchParams.append('categories', params.categories);
     if (params.tags) searchParams.append('tags', params.tags);
+    if (params.author) searchParams.append('author', params.author.toString());
     if (params.search) searchParams.append('search', params.search);
     if (params.orderby) searchParams.append('orderby', params.orderby);
     if (params.order) searchParams.append('order', params.order);
     if (params.status) searchParams.append('status', params.status);
 
-    // Always embed author, featured media, and categories
-    searchParams.append('_embed', 'author,wp:featuredmedia,wp:term');
-
-    const queryString = searchParams.toString();
-    const endpoint = `/posts${queryString ? `?${queryString}` : ''}`;
-
-    const response = await fetch(`${this.config.baseUrl}/wp-json/wp/v2${endpoint}`, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' }
-    });
-
-    if (!response.ok) {
-      throw new WordPressApiError(
-        `Failed to fetch posts: ${response.statusText}`,
-        response.status
-      );
+    // Embed author, featured media, and categories unless fields are picked
+    if (params.fields) {
+      searchParams.append('_fields', params.fields.join(','));
+    } else {
+      searchParams.append('_embed', POST_EMBEDS);
     }
 
-    const posts = await response.json() as WordPressPost[];
-    
-    // Get pagination info from headers
-    const total = parseInt(response.headers.get('X-WP-Total') || '0');
-    const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '0');
-    const currentPage = params.page || 1;
-    const perPage = params.perPage || 10;
-
-    return {
-      data: posts,
-      total,
-      totalPages,
-      page: currentPage,
-      perPage,
-    };
+    // Drafts and private posts are only readable with credentials
+    return this.requestList<WordPressPost>('/posts', searchParams, {
+      credentials: params.status && params.status !== 'publish' ? 'private' : undefined,
+    });
   }
 
   /**
@@ -271,8 +663,8 @@ class WordPressApiClient {
    */
   async getPost(identifier: string | number): Promise<WordPressPost> {
     const endpoint = typeof identifier === 'number' 
-      ? `/posts/${identifier}?_embed=author,wp:featuredmedia,wp:term`
-      : `/posts?slug=${identifier}&_embed=author,wp:featuredmedia,wp:term`;
+      ? `/posts/${identifier}?_embed=${POST_EMBEDS}`
+      : `/posts?slug=${encodeURIComponent(identifier)}&_embed=${POST_EMBEDS}`;
 
     const result = await this.request<WordPressPost | WordPressPost[]>(endpoint);
     
@@ -293,52 +685,34 @@ class WordPressApiClient {
     page?: number;
     perPage?: number;
     search?: string;
+    slug?: string;
     parent?: number;
     orderby?: 'date' | 'title' | 'menu_order';
     order?: 'asc' | 'desc';
     status?: 'publish' | 'draft' | 'private';
+    /** Only return these fields, without embedded resources */
+    fields?: Array<keyof WordPressPage>;
   } = {}): Promise<WordPressApiResponse<WordPressPage>> {
     const searchParams = new URLSearchParams();
     
     if (params.page) searchParams.append('page', params.page.toString());
     if (params.perPage) searchParams.append('per_page', params.perPage.toString());
     if (params.search) searchParams.append('search', params.search);
+    if (params.slug) searchParams.append('slug', params.slug);
     if (params.parent !== undefined) searchParams.append('parent', params.parent.toString());
     if (params.orderby) searchParams.append('orderby', params.orderby);
     if (params.order) searchParams.append('order', params.order);
     if (params.status) searchParams.append('status', params.status);
 
-    searchParams.append('_embed', 'author,wp:featuredmedia');
-
-    const queryString = searchParams.toString();
-    const endpoint = `/pages${queryString ? `?${queryString}` : ''}`;
-
-    const response = await fetch(`${this.config.baseUrl}/wp-json/wp/v2${endpoint}`, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' }
-    });
-
-    if (!response.ok) {
-      throw new WordPressApiError(
-        `Failed to fetch pages: ${response.statusText}`,
-        response.status
-      );
+    if (params.fields) {
+      searchParams.append('_fields', params.fields.join(','));
+    } else {
+      searchParams.append('_embed', PAGE_EMBEDS);
     }
 
-    const pages = await response.json() as WordPressPage[];
-    
-    const total = parseInt(response.headers.get('X-WP-Total') || '0');
-    const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '0');
-    const currentPage = params.page || 1;
-    const perPage = params.perPage || 10;
-
-    return {
-      data: pages,
-      total,
-      totalPages,
-      page: currentPage,
-      perPage,
-    };
+    return this.requestList<WordPressPage>('/pages', searchParams, {
+      credentials: params.status && params.status !== 'publish' ? 'private' : undefined,
+    });
   }
 
   /**
@@ -346,8 +720,8 @@ class WordPressApiClient {
    */
   async getPage(identifier: string | number): Promise<WordPressPage> {
     const endpoint = typeof identifier === 'number' 
-      ? `/pages/${identifier}?_embed=author,wp:featuredmedia`
-      : `/pages?slug=${identifier}&_embed=author,wp:featuredmedia`;
+      ? `/pages/${identifier}?_embed=${PAGE_EMBEDS}`
+      : `/pages?slug=${encodeURIComponent(identifier)}&_embed=${PAGE_EMBEDS}`;
 
     const result = await this.request<WordPressPage | WordPressPage[]>(endpoint);
     
@@ -361,6 +735,155 @@ class WordPressApiClient {
     return result;
   }
 
+  /**
+   * Get the latest version of a post for preview, whatever its status
+   */
+  async getPostPreview(id: number): Promise<WordPressPost> {
+    return this.fetchPreview<WordPressPost>('/posts', id, POST_EMBEDS);
+  }
+
+  /**
+   * Get the latest version of a page for preview, whatever its status
+   */
+  async getPagePreview(id: number): Promise<WordPressPage> {
+    return this.fetchPreview<WordPressPage>('/pages', id, PAGE_EMBEDS);
+  }
+
+  /**
+   * Fetch a post or page with credentials and apply its newest autosave
+   * or revision, if one was saved after the item itself. The edit context
+   * includes the raw block markup for block rendering.
+   */
+  private async fetchPreview<T extends WordPressPost | WordPressPage>(
+    collection: '/posts' | '/pages',
+    id: number,
+    embeds: string
+  ): Promise<T> {
+    const options: RequestOptions = { credentials: 'private' };
+    const [item, autosaves, revisions] = await Promise.all([
+      this.request<T>(`${collection}/${id}?context=edit&_embed=${embeds}`, options),
+      this.request<WordPressRevision[]>(`${collection}/${id}/autosaves?context=edit`, options)
+        .catch(noRevisions),
+      this.request<WordPressRevision[]>(`${collection}/${id}/revisions?context=edit&per_page=1&orderby=date&order=desc`, options)
+        .catch(noRevisions),
+    ]);
+
+    const latest = [...autosaves, ...revisions]
+      .filter(revision => revision.modified > item.modified)
+      .sort((a, b) => b.modified.localeCompare(a.modified))[0];
+
+    if (!latest) {
+      return item;
+    }
+
+    return {
+      ...item,
+      title: latest.title,
+      content: latest.content,
+      excerpt: latest.excerpt,
+      modified: latest.modified,
+    };
+  }
+
+  /**
+   * Get the post types available over REST, keyed by slug
+   */
+  async getTypes(): Promise<Record<string, WordPressPostType>> {
+    return this.request<Record<string, WordPressPostType>>('/types');
+  }
+
+  /**
+   * The post type whose collection is at `restBase`, if WordPress lists one
+   */
+  async getTypeByRestBase(restBase: string): Promise<WordPressPostType | null> {
+    const types = await this.getTypes();
+    return Object.values(types).find(type => type.rest_base === restBase) ?? null;
+  }
+
+  /**
+   * Request options for a post type's collection: its REST namespace,
+   * cache policy, and a `list:<post type>` tag for invalidation events,
+   * which name the type rather than its collection
+   */
+  private async entryOptions(restBase: string, namespace?: string): Promise<RequestOptions> {
+    // Without the type list, the collection is assumed to be under /wp/v2
+    const type = await this.getTypeByRestBase(restBase).catch(() => null);
+
+    return {
+      namespace: namespace ?? (type ? `/${type.rest_namespace}` : undefined),
+      cacheAs: type?.hierarchical ? 'pages' : 'posts',
+      tags: type && type.slug !== type.rest_base ? [`list:${type.slug}`] : [],
+    };
+  }
+
+  /**
+   * Get entries of any post type from its collection, e.g. `events`
+   *
+   * `query` passes other filters through, such as custom taxonomy terms.
+   * ACF fields are returned formatted (`acf_format=standard`).
+   */
+  async getCollection<T extends WordPressEntry = WordPressEntry>(restBase: string, params: {
+    page?: number;
+    perPage?: number;
+    search?: string;
+    slug?: string;
+    parent?: number;
+    include?: number[];
+    orderby?: string;
+    order?: 'asc' | 'desc';
+    status?: 'publish' | 'draft' | 'private';
+    query?: Record<string, string | number>;
+    /** REST namespace, when the post type is not listed in `/types` */
+    namespace?: string;
+  } = {}): Promise<WordPressApiResponse<T>> {
+    const searchParams = new URLSearchParams();
+
+    if (params.page) searchParams.append('page', params.page.toString());
+    if (params.perPage) searchParams.append('per_page', params.perPage.toString());
+    if (params.search) searchParams.append('search', params.search);
+    if (params.slug) searchParams.append('slug', params.slug);
+    if (params.parent !== undefined) searchParams.append('parent', params.parent.toString());
+    if (params.include) searchParams.append('include', params.include.join(','));
+    if (params.orderby) searchParams.append('orderby', params.orderby);
+    if (params.order) searchParams.append('order', params.order);
+    if (params.status) searchParams.append('status', params.status);
+    Object.entries(params.query ?? {}).forEach(([key, value]) => searchParams.append(key, value.toString()));
+    searchParams.append('acf_format', 'standard');
+    searchParams.append('_embed', POST_EMBEDS);
+
+    const response = await this.requestList<T>(`/${restBase}`, searchParams, {
+      ...await this.entryOptions(restBase, params.namespace),
+      credentials: params.status && params.status !== 'publish' ? 'private' : undefined,
+    });
+
+    return { ...response, data: response.data.map(normalizeAcf) };
+  }
+
+  /**
+   * Get a single entry of any post type by ID or slug
+   */
+  async getItem<T extends WordPressEntry = WordPressEntry>(
+    restBase: string,
+    identifier: string | number,
+    params: { namespace?: string } = {}
+  ): Promise<T> {
+    const query = `acf_format=standard&_embed=${POST_EMBEDS}`;
+    const endpoint = typeof identifier === 'number'
+      ? `/${restBase}/${identifier}?${query}`
+      : `/${restBase}?slug=${encodeURIComponent(identifier)}&${query}`;
+
+    const result = await this.request<T | T[]>(endpoint, await this.entryOptions(restBase, params.namespace));
+
+    if (Array.isArray(result)) {
+      if (result.length === 0) {
+        throw new WordPressApiError('Entry not found', 404);
+      }
+      return normalizeAcf(result[0]);
+    }
+
+    return normalizeAcf(result);
+  }
+
   /**
    * Get categories
    */
@@ -368,6 +891,7 @@ class WordPressApiClient {
     page?: number;
     perPage?: number;
     search?: string;
+    slug?: string;
     orderby?: 'name' | 'slug' | 'count';
     order?: 'asc' | 'desc';
     hide_empty?: boolean;
@@ -377,124 +901,589 @@ class WordPressApiClient {
     if (params.page) searchParams.append('page', params.page.toString());
     if (params.perPage) searchParams.append('per_page', params.perPage.toString());
     if (params.search) searchParams.append('search', params.search);
+    if (params.slug) searchParams.append('slug', params.slug);
     if (params.orderby) searchParams.append('orderby', params.orderby);
     if (params.order) searchParams.append('order', params.order);
     if (params.hide_empty !== undefined) searchParams.append('hide_empty', params.hide_empty.toString());
 
-    const queryString = searchParams.toString();
-    const endpoint = `/categories${queryString ? `?${queryString}` : ''}`;
+    return this.requestList<WordPressCategory>('/categories', searchParams);
+  }
 
-    const response = await fetch(`${this.config.baseUrl}/wp-json/wp/v2${endpoint}`, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' }
-    });
+  /**
+   * Get tags
+   */
+  async getTags(params: {
+    page?: number;
+    perPage?: number;
+    search?: string;
+    slug?: string;
+    orderby?: 'name' | 'slug' | 'count';
+    order?: 'asc' | 'desc';
+    hide_empty?: boolean;
+  } = {}): Promise<WordPressApiResponse<WordPressTag>> {
+    const searchParams = new URLSearchParams();
+    
+    if (params.page) searchParams.append('page', params.page.toString());
+    if (params.perPage) searchParams.append('per_page', params.perPage.toString());
+    if (params.search) searchParams.append('search', params.search);
+    if (params.slug) searchParams.append('slug', params.slug);
+    if (params.orderby) searchParams.append('orderby', params.orderby);
+    if (params.order) searchParams.append('order', params.order);
+    if (params.hide_empty !== undefined) searchParams.append('hide_empty', params.hide_empty.toString());
 
-    if (!response.ok) {
-      throw new WordPressApiError(
-        `Failed to fetch categories: ${response.statusText}`,
-        response.status
-      );
+    return this.requestList<WordPressTag>('/tags', searchParams);
+  }
+
+  /**
+   * Get a single category by ID, batched with other lookups
+   */
+  async getCategory(id: number): Promise<WordPressCategory> {
+    return this.getBatched<WordPressCategory>('categories', id);
+  }
+
+  /**
+   * Get a single tag by ID, batched with other lookups
+   */
+  async getTag(id: number): Promise<WordPressTag> {
+    return this.getBatched<WordPressTag>('tags', id);
+  }
+
+  /**
+   * Get a single media item by ID, batched with other lookups
+   */
+  async getMedia(id: number): Promise<WordPressMedia> {
+    return this.getBatched<WordPressMedia>('media', id);
+  }
+
+  /**
+   * Get the featured image of a post or page, fetching the media item
+   * when it was not embedded (e.g. responses without `_embed`)
+   */
+  async resolveFeaturedImage(
+    item: EmbeddingItem & { featured_media?: number }
+  ): Promise<FeaturedImage | null> {
+    const embedded = getFeaturedImage(item);
+
+    if (embedded || !item.featured_media) {
+      return embedded;
     }
 
-    const categories = await response.json() as WordPressCategory[];
-    
-    const total = parseInt(response.headers.get('X-WP-Total') || '0');
-    const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '0');
-    const currentPage = params.page || 1;
-    const perPage = params.perPage || 10;
+    try {
+      return toFeaturedImage(await this.getMedia(item.featured_media));
+    } catch (error) {
+      log.warn('Featured media unavailable', { media: item.featured_media, err: error });
+      return null;
+    }
+  }
 
-    return {
-      data: categories,
-      total,
-      totalPages,
-      page: currentPage,
-      perPage,
-    };
+  /**
+   * Look up the media items used by image and gallery blocks, keyed by ID;
+   * unavailable items are left out and render from the block HTML
+   */
+  async resolveBlockMedia(blocks: Block[]): Promise<Record<number, FeaturedImage>> {
+    const entries = await Promise.all(
+      collectMediaIds(blocks).map(async (id) => {
+        try {
+          const image = toFeaturedImage(await this.getMedia(id));
+          return image ? [id, image] as const : null;
+        } catch (error) {
+          log.warn('Block media unavailable', { media: id, err: error });
+          return null;
+        }
+      })
+    );
+
+    return Object.fromEntries(
+      entries.filter((entry): entry is readonly [number, FeaturedImage] => entry !== null)
+    );
   }
 
   /**
-   * Search across posts and pages
+   * Get users (post authors)
    */
-  async search(query: string, params: {
-    type?: 'post' | 'page' | 'any';
+  async getUsers(params: {
     page?: number;
     perPage?: number;
-  } = {}): Promise<WordPressApiResponse<WordPressPost | WordPressPage>> {
+    search?: string;
+    slug?: string;
+    orderby?: 'id' | 'name' | 'slug';
+    order?: 'asc' | 'desc';
+    has_published_posts?: boolean;
+  } = {}): Promise<WordPressApiResponse<WordPressUser>> {
     const searchParams = new URLSearchParams();
-    searchParams.append('search', query);
     
     if (params.page) searchParams.append('page', params.page.toString());
     if (params.perPage) searchParams.append('per_page', params.perPage.toString());
-    
-    const type = params.type || 'any';
-    const endpoints = type === 'any' ? ['/posts', '/pages'] : [`/${type}s`];
-    
-    // For simplicity, we'll search posts if type is 'any' or specific type
-    const endpoint = type === 'page' ? '/pages' : '/posts';
-    const queryString = searchParams.toString();
-    
-    const response = await fetch(`${this.config.baseUrl}/wp-json/wp/v2${endpoint}?${queryString}&_embed=author,wp:featuredmedia,wp:term`, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' }
+    if (params.search) searchParams.append('search', params.search);
+    if (params.slug) searchParams.append('slug', params.slug);
+    if (params.orderby) searchParams.append('orderby', params.orderby);
+    if (params.order) searchParams.append('order', params.order);
+    if (params.has_published_posts !== undefined) searchParams.append('has_published_posts', params.has_published_posts.toString());
+
+    return this.requestList<WordPressUser>('/users', searchParams);
+  }
+
+  /**
+   * Get a single user by ID (batched with other lookups) or slug
+   */
+  async getUser(identifier: string | number): Promise<WordPressUser> {
+    if (typeof identifier === 'number') {
+      return this.getBatched<WordPressUser>('users', identifier);
+    }
+
+    const result = await this.request<WordPressUser[]>(`/users?slug=${encodeURIComponent(identifier)}`);
+
+    if (result.length === 0) {
+      throw new WordPressApiError('User not found', 404);
+    }
+    return result[0];
+  }
+
+  /**
+   * Get approved comments, oldest first by default
+   *
+   * `parent: 0` lists top-level comments; a list of IDs fetches the
+   * replies to those comments.
+   */
+  async getComments(params: {
+    post: number;
+    page?: number;
+    perPage?: number;
+    parent?: number | number[];
+    order?: 'asc' | 'desc';
+  }): Promise<WordPressApiResponse<WordPressComment>> {
+    const searchParams = new URLSearchParams();
+
+    searchParams.append('post', params.post.toString());
+    if (params.page) searchParams.append('page', params.page.toString());
+    if (params.perPage) searchParams.append('per_page', params.perPage.toString());
+    if (params.parent !== undefined) searchParams.append('parent', [params.parent].flat().join(','));
+    searchParams.append('order', params.order ?? 'asc');
+
+    return this.requestList<WordPressComment>('/comments', searchParams);
+  }
+
+  /**
+   * Submit a comment as an anonymous visitor
+   *
+   * Credentials are never sent, so the comment is not attributed to the
+   * API user. WordPress only accepts this when anonymous REST comments are
+   * allowed (the `rest_allow_anonymous_comments` filter); otherwise it
+   * answers 401 `rest_comment_login_required`. New comments are usually
+   * held for moderation (`status: 'hold'`).
+   */
+  async createComment(comment: {
+    post: number;
+    parent?: number;
+    author_name: string;
+    author_email: string;
+    author_url?: string;
+    content: string;
+    author_user_agent?: string;
+  }): Promise<WordPressComment> {
+    const created = await this.request<WordPressComment>('/comments', {
+      method: 'POST',
+      body: JSON.stringify(comment),
+      // Retrying could post the comment twice
+      retries: 1,
     });
 
-    if (!response.ok) {
-      throw new WordPressApiError(
-        `Search failed: ${response.statusText}`,
-        response.status
-      );
+    // Approved comments show up on the next listing
+    if (created.status === 'approved') {
+      await this.cache.invalidate(['list:comments']);
     }
 
-    const results = await response.json();
-    
-    const total = parseInt(response.headers.get('X-WP-Total') || '0');
-    const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '0');
+    return created;
+  }
+
+  /**
+   * Submit a Contact Form 7 form
+   *
+   * `fields` use the form's field names (e.g. `your-name`). The feedback
+   * endpoint reads them as a regular form post, and since CF7 5.8 it also
+   * needs the `_wpcf7_unit_tag` of a rendered form.
+   */
+  async submitContactForm7(formId: number, fields: Record<string, string>): Promise<ContactForm7Feedback> {
+    const body = new URLSearchParams({ _wpcf7_unit_tag: `wpcf7-f${formId}-o1`, ...fields });
+
+    return this.request<ContactForm7Feedback>(`/contact-forms/${formId}/feedback`, {
+      namespace: '/contact-form-7/v1',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+      // Retrying could send the message twice
+      retries: 1,
+    });
+  }
+
+  /**
+   * Get the classic menus assigned to theme locations, keyed by location
+   *
+   * WordPress only exposes menus to users who can edit them, so the
+   * configured credentials are sent; the response is cached as usual.
+   */
+  async getMenuLocations(): Promise<Record<string, WordPressMenuLocation>> {
+    return this.request<Record<string, WordPressMenuLocation>>('/menu-locations', {
+      credentials: 'shared',
+    });
+  }
+
+  /**
+   * Get the items of a classic menu, in menu order
+   */
+  async getMenuItems(menuId: number): Promise<WordPressMenuItem[]> {
+    const searchParams = new URLSearchParams({
+      menus: menuId.toString(),
+      per_page: '100',
+      orderby: 'menu_order',
+      order: 'asc',
+    });
+
+    const response = await this.requestList<WordPressMenuItem>('/menu-items', searchParams, {
+      credentials: 'shared',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Get published block theme navigation menus, newest first; block markup
+   * is included when credentials are configured
+   */
+  async getNavigations(): Promise<WordPressNavigation[]> {
+    const searchParams = new URLSearchParams({
+      per_page: '100',
+      status: 'publish',
+      orderby: 'date',
+      order: 'desc',
+    });
+
+    if (this.auth) searchParams.append('context', 'edit');
+
+    const response = await this.requestList<WordPressNavigation>('/navigation', searchParams, {
+      credentials: 'shared',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Search across posts, pages, categories and tags via `/wp/v2/search`
+   *
+   * With `type: 'any'`, content (posts and pages) and terms (categories and
+   * tags) are separate WordPress object types that one query cannot
+   * cover, so they are paged as one list: content results first, then
+   * terms, `perPage` at a time.
+   */
+  async search(query: string, params: {
+    type?: WordPressSearchType | 'any';
+    page?: number;
+    perPage?: number;
+  } = {}): Promise<WordPressApiResponse<WordPressSearchResult>> {
+    const type = params.type || 'any';
     const currentPage = params.page || 1;
     const perPage = params.perPage || 10;
 
+    if (type !== 'any') {
+      return this.fetchSearch(query, SEARCH_SUBTYPES[type], currentPage, perPage);
+    }
+
+    const [content, termCount] = await Promise.all([
+      this.fetchSearch(query, CONTENT_SEARCH, currentPage, perPage),
+      this.fetchSearch(query, TERM_SEARCH, 1, 1, false),
+    ]);
+    // A page past the last content result has no content total
+    const contentTotal = content.data.length > 0 || currentPage === 1
+      ? content.total
+      : (await this.fetchSearch(query, CONTENT_SEARCH, 1, 1, false)).total;
+    const total = contentTotal + termCount.total;
+    const start = (currentPage - 1) * perPage;
+    let terms: WordPressSearchResult[] = [];
+
+    // Fill the rest of the page with terms, from the two term pages it spans
+    if (content.data.length < perPage && start + content.data.length < total) {
+      const termOffset = Math.max(0, start - contentTotal);
+      const firstPage = Math.floor(termOffset / perPage) + 1;
+      const termPages = await Promise.all(
+        [firstPage, firstPage + 1]
+          .filter(page => (page - 1) * perPage < termCount.total)
+          .map(page => this.fetchSearch(query, TERM_SEARCH, page, perPage))
+      );
+
+      terms = termPages
+        .flatMap(response => response.data)
+        .slice(termOffset - (firstPage - 1) * perPage)
+        .slice(0, perPage - content.data.length);
+    }
+
     return {
-      data: results,
+      data: [...content.data, ...terms],
       total,
-      totalPages,
+      totalPages: Math.ceil(total / perPage),
       page: currentPage,
       perPage,
     };
   }
 
   /**
-   * Clear cache
+   * Count search matches per result type, for search facets
    */
-  clearCache(): void {
-    this.cache.clear();
+  async searchFacets(query: string): Promise<Record<WordPressSearchType, number>> {
+    const types = Object.keys(SEARCH_SUBTYPES) as WordPressSearchType[];
+    const totals = await Promise.all(
+      types.map(type => this.fetchSearch(query, SEARCH_SUBTYPES[type], 1, 1, false))
+    );
+
+    return Object.fromEntries(
+      types.map((type, index) => [type, totals[index].total])
+    ) as Record<WordPressSearchType, number>;
   }
 
   /**
-   * Health check - verify WordPress API is accessible
+   * Run a single `/wp/v2/search` query and map its results
    */
-  async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; message: string }> {
+  private async fetchSearch(
+    query: string,
+    scope: { type: string; subtype: string },
+    page: number,
+    perPage: number,
+    embed: boolean = true
+  ): Promise<WordPressApiResponse<WordPressSearchResult>> {
+    const searchParams = new URLSearchParams();
+    searchParams.append('search', query);
+    searchParams.append('type', scope.type);
+    searchParams.append('subtype', scope.subtype);
+    searchParams.append('page', page.toString());
+    searchParams.append('per_page', perPage.toString());
+
+    if (embed) searchParams.append('_embed', 'self');
+
     try {
-      const response = await fetch(`${this.config.baseUrl}/wp-json/wp/v2`, {
-        method: 'GET',
-        signal: AbortSignal.timeout(5000), // 5 second timeout for health checks
-      });
+      const response = await this.requestList<RawSearchResult>('/search', searchParams);
+      return { ...response, data: response.data.map(toSearchResult) };
+    } catch (error) {
+      // WordPress answers out-of-range pages with 400 rest_post_invalid_page_number
+      if (error instanceof WordPressApiError && error.status === 400 && page > 1) {
+        return { data: [], total: 0, totalPages: 0, page, perPage };
+      }
+      throw error;
+    }
+  }
 
-      if (response.ok) {
-        return { status: 'healthy', message: 'WordPress API is accessible' };
-      } else {
-        return { 
-          status: 'unhealthy', 
-          message: `WordPress API returned ${response.status}: ${response.statusText}` 
-        };
+  /**
+   * Clear cache
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  /**
+   * Cache a value built from WordPress content (e.g. a sitemap) under
+   * `key`, labelled with `tags` so it is invalidated with that content
+   */
+  async cached<T>(
+    key: string,
+    resource: CacheResource,
+    tags: string[],
+    load: () => Promise<T>
+  ): Promise<T> {
+    if (!this.config.cache) {
+      return load();
+    }
+
+    return this.cache.fetch<T>(`${this.transport.name}:derived:${key}`, resource, load, () => tags);
+  }
+
+  /**
+   * Drop cached responses labelled with any of `tags`
+   */
+  async invalidateCache(tags: string[]): Promise<number> {
+    return this.cache.invalidate(tags);
+  }
+
+  /**
+   * Cache hit, miss and stale counters plus backend details
+   */
+  async getCacheStats(): Promise<CacheStats> {
+    return this.cache.getStats();
+  }
+
+  /**
+   * State of the circuit breaker, for loaders and health checks; without a
+   * breaker the circuit is always closed
+   */
+  getCircuitState(): CircuitSnapshot {
+    return this.breaker?.getSnapshot() ?? {
+      state: 'closed',
+      failures: 0,
+      openedAt: null,
+      retryAt: null,
+      lastError: null,
+    };
+  }
+
+  /**
+   * Readiness of WordPress and its database
+   *
+   * WordPress is probed at the REST root and the database through the
+   * `wp-remix/v1/health` endpoint of the bundled must-use plugin. Without
+   * the plugin, the database counts as reachable when the REST API
+   * answers, since WordPress cannot start without it. Probes go through
+   * the circuit breaker, so an open circuit is reported without
+   * contacting WordPress.
+   */
+  async healthCheck(): Promise<{ wordpress: HealthCheck; database: HealthCheck }> {
+    const probe = async <T>(path: string) => {
+      const started = performance.now();
+      try {
+        // 5 second timeout and a single attempt for health checks
+        const response = await this.guard(() =>
+          this.transport.send<T>({ path, timeout: 5000, retries: 1, signal: this.signal })
+        );
+        return { latencyMs: Math.round(performance.now() - started), data: response.data, error: null };
+      } catch (error) {
+        return { latencyMs: Math.round(performance.now() - started), data: null, error };
       }
+    };
+
+    const [root, database] = await Promise.all([
+      probe('/wp/v2'),
+      probe<{ database?: { status?: string; latency_ms?: number } }>('/wp-remix/v1/health'),
+    ]);
+
+    return {
+      wordpress: root.error
+        ? { status: probeStatus(root.error), latencyMs: root.latencyMs, message: probeMessage(root.error) }
+        : { status: 'ok', latencyMs: root.latencyMs, message: 'WordPress API is accessible' },
+      database: databaseCheck(root.error, database),
+    };
+  }
+
+  /**
+   * Whether the response cache backend can be read; a failing cache
+   * means uncached requests rather than an outage
+   */
+  async checkCache(): Promise<HealthCheck> {
+    if (!this.config.cache) {
+      return { status: 'ok', latencyMs: null, message: 'Caching is disabled' };
+    }
+
+    const started = performance.now();
+    try {
+      const [store, stats] = await Promise.all([this.cache.check(), this.cache.getStats()]);
+      return {
+        status: 'ok',
+        latencyMs: Math.round(performance.now() - started),
+        // Every counter, as /api/health-check has always reported them
+        details: { ...stats, ...store },
+      };
     } catch (error) {
-      return { 
-        status: 'unhealthy', 
-        message: `WordPress API is not accessible: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      return {
+        status: 'down',
+        latencyMs: Math.round(performance.now() - started),
+        message: `Cache backend failed: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
   }
 }
 
+/**
+ * Credentials from the environment, preferring a configured JWT
+ *
+ * - `WORDPRESS_JWT_TOKEN`: a bearer token
+ * - `WORDPRESS_AUTH=jwt`: a token exchanged for `WORDPRESS_USERNAME` and
+ *   `WORDPRESS_PASSWORD`
+ * - `WORDPRESS_USERNAME` and `WORDPRESS_APPLICATION_PASSWORD`: an
+ *   application password
+ */
+export function createAuthFromEnv(): WordPressAuth | undefined {
+  const username = process.env.WORDPRESS_USERNAME;
+
+  if (process.env.WORDPRESS_JWT_TOKEN) {
+    return { type: 'jwt', token: process.env.WORDPRESS_JWT_TOKEN };
+  }
+
+  if (process.env.WORDPRESS_AUTH === 'jwt' && username && process.env.WORDPRESS_PASSWORD) {
+    return { type: 'jwt', username, password: process.env.WORDPRESS_PASSWORD };
+  }
+
+  if (username && process.env.WORDPRESS_APPLICATION_PASSWORD) {
+    return {
+      type: 'application-password',
+      username,
+      password: process.env.WORDPRESS_APPLICATION_PASSWORD,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Sanitization policy from the environment
+ *
+ * - `WORDPRESS_IFRAME_HOSTS`: comma-separated hosts iframes may load from
+ *   (defaults to common video, audio and code embeds)
+ * - `WORDPRESS_EMBED_HOSTS`: hosts for `<video>`, `<audio>` and `<embed>`
+ *   sources besides the WordPress site itself
+ * - `WORDPRESS_SITE_URL`: the WordPress site address its links use
+ *   (defaults to `WORDPRESS_URL`), rewritten to this app's routes
+ */
+export function createSanitizePolicyFromEnv(): SanitizePolicy {
+  const hosts = (value: string | undefined) => (value || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    iframeHosts: process.env.WORDPRESS_IFRAME_HOSTS
+      ? hosts(process.env.WORDPRESS_IFRAME_HOSTS)
+      : DEFAULT_IFRAME_HOSTS,
+    embedHosts: hosts(process.env.WORDPRESS_EMBED_HOSTS),
+    siteUrls: [process.env.WORDPRESS_SITE_URL || process.env.WORDPRESS_URL || 'http://localhost:3042/wp'],
+  };
+}
+
+/**
+ * Build the transport selected by `WORDPRESS_TRANSPORT`, retrying failed
+ * HTTP requests up to `WORDPRESS_API_RETRIES` times with a
+ * `WORDPRESS_API_TIMEOUT` per attempt and a `WORDPRESS_API_DEADLINE` overall
+ *
+ * - `direct` (default): the WordPress origin at `WORDPRESS_URL`
+ * - `composer`: the Composer proxy at `COMPOSER_URL`, under its `/wp` prefix
+ * - `mock`: in-memory sample content
+ * - `fixture`: recorded responses in `WORDPRESS_FIXTURES_DIR`; with
+ *   `WORDPRESS_FIXTURES_RECORD=true`, misses are fetched from `WORDPRESS_URL`
+ */
+export function createTransportFromEnv(): WordPressTransport {
+  const retry = new RetryPolicy({
+    attempts: parseInt(process.env.WORDPRESS_API_RETRIES || '3'),
+    attemptTimeout: parseInt(process.env.WORDPRESS_API_TIMEOUT || '10000'),
+    deadline: parseInt(process.env.WORDPRESS_API_DEADLINE || '30000'),
+  });
+  const wordpressUrl = process.env.WORDPRESS_URL || 'http://localhost:3042/wp';
+
+  switch (process.env.WORDPRESS_TRANSPORT || 'direct') {
+    case 'composer':
+      return new HttpTransport({
+        baseUrl: `${process.env.COMPOSER_URL || 'http://composer.plt.local'}/wp`,
+        retry,
+      });
+    case 'mock':
+      return new MockTransport();
+    case 'fixture':
+      return new FixtureTransport({
+        directory: process.env.WORDPRESS_FIXTURES_DIR || './fixtures/wordpress',
+        upstream: process.env.WORDPRESS_FIXTURES_RECORD === 'true'
+          ? new HttpTransport({ baseUrl: wordpressUrl, retry })
+          : undefined,
+      });
+    case 'direct':
+      return new HttpTransport({ baseUrl: wordpressUrl, retry });
+    default:
+      throw new Error(`Unknown WORDPRESS_TRANSPORT: ${process.env.WORDPRESS_TRANSPORT}`);
+  }
+}
+
 // Default WordPress API client instance
 let defaultClient: WordPressApiClient | null = null;
 
@@ -503,16 +1492,22 @@ let defaultClient: WordPressApiClient | null = null;
  */
 export function getWordPressClient(): WordPressApiClient {
   if (!defaultClient) {
-    const baseUrl = process.env.WORDPRESS_URL || 'http://localhost:3042/wp';
-    const timeout = parseInt(process.env.WORDPRESS_API_TIMEOUT || '10000');
     const cache = process.env.WORDPRESS_API_CACHE_ENABLED !== 'false';
-    const retries = parseInt(process.env.WORDPRESS_API_RETRIES || '3');
     
     defaultClient = new WordPressApiClient({ 
-      baseUrl,
-      timeout,
+      transport: createTransportFromEnv(),
+      auth: createAuthFromEnv(),
+      sanitize: createSanitizePolicyFromEnv(),
+      circuitBreaker: createCircuitBreakerFromEnv()
+        .on('transition', ({ to }) => setCircuitState(to))
+        .on('open', ({ snapshot }) => log.warn('WordPress circuit opened', {
+          failures: snapshot.failures,
+          lastError: snapshot.lastError,
+          retryAt: snapshot.retryAt,
+        }))
+        .on('close', () => log.info('WordPress circuit closed')),
       cache,
-      retries
+      cacheStore: cache ? createCacheStoreFromEnv() : undefined,
     });
   }
   return defaultClient;
@@ -530,27 +1525,118 @@ export { WordPressApiClient };
 
 // Convenience functions using the default client
 export const wordpressApi = {
+  withSignal: (signal: AbortSignal | undefined) => 
+    getWordPressClient().withSignal(signal),
+
+  forRequest: (request: Request | undefined) => 
+    getWordPressClient().forRequest(request),
+  
   getPosts: (params?: Parameters<WordPressApiClient['getPosts']>[0]) => 
     getWordPressClient().getPosts(params),
   
   getPost: (identifier: string | number) => 
     getWordPressClient().getPost(identifier),
   
+  getPostPreview: (id: number) => 
+    getWordPressClient().getPostPreview(id),
+  
   getPages: (params?: Parameters<WordPressApiClient['getPages']>[0]) => 
     getWordPressClient().getPages(params),
   
   getPage: (identifier: string | number) => 
     getWordPressClient().getPage(identifier),
   
+  getPagePreview: (id: number) => 
+    getWordPressClient().getPagePreview(id),
+  
+  getTypes: () => 
+    getWordPressClient().getTypes(),
+  
+  getTypeByRestBase: (restBase: string) => 
+    getWordPressClient().getTypeByRestBase(restBase),
+  
+  getCollection: <T extends WordPressEntry = WordPressEntry>(
+    restBase: string,
+    params?: Parameters<WordPressApiClient['getCollection']>[1]
+  ) => 
+    getWordPressClient().getCollection<T>(restBase, params),
+  
+  getItem: <T extends WordPressEntry = WordPressEntry>(
+    restBase: string,
+    identifier: string | number,
+    params?: Parameters<WordPressApiClient['getItem']>[2]
+  ) => 
+    getWordPressClient().getItem<T>(restBase, identifier, params),
+  
   getCategories: (params?: Parameters<WordPressApiClient['getCategories']>[0]) => 
     getWordPressClient().getCategories(params),
   
+  getTags: (params?: Parameters<WordPressApiClient['getTags']>[0]) => 
+    getWordPressClient().getTags(params),
+  
+  getCategory: (id: number) => 
+    getWordPressClient().getCategory(id),
+  
+  getTag: (id: number) => 
+    getWordPressClient().getTag(id),
+  
+  getMedia: (id: number) => 
+    getWordPressClient().getMedia(id),
+  
+  resolveFeaturedImage: (item: Parameters<WordPressApiClient['resolveFeaturedImage']>[0]) => 
+    getWordPressClient().resolveFeaturedImage(item),
+  
+  resolveBlockMedia: (blocks: Block[]) => 
+    getWordPressClient().resolveBlockMedia(blocks),
+  
+  getUsers: (params?: Parameters<WordPressApiClient['getUsers']>[0]) => 
+    getWordPressClient().getUsers(params),
+  
+  getUser: (identifier: string | number) => 
+    getWordPressClient().getUser(identifier),
+  
+  getComments: (params: Parameters<WordPressApiClient['getComments']>[0]) => 
+    getWordPressClient().getComments(params),
+  
+  createComment: (comment: Parameters<WordPressApiClient['createComment']>[0]) => 
+    getWordPressClient().createComment(comment),
+  
+  submitContactForm7: (formId: number, fields: Record<string, string>) => 
+    getWordPressClient().submitContactForm7(formId, fields),
+  
+  getMenuLocations: () => 
+    getWordPressClient().getMenuLocations(),
+  
+  getMenuItems: (menuId: number) => 
+    getWordPressClient().getMenuItems(menuId),
+  
+  getNavigations: () => 
+    getWordPressClient().getNavigations(),
+  
   search: (query: string, params?: Parameters<WordPressApiClient['search']>[1]) => 
     getWordPressClient().search(query, params),
   
+  searchFacets: (query: string) => 
+    getWordPressClient().searchFacets(query),
+  
   healthCheck: () => 
     getWordPressClient().healthCheck(),
+
+  checkCache: () => 
+    getWordPressClient().checkCache(),
+  
+  getCircuitState: () => 
+    getWordPressClient().getCircuitState(),
   
   clearCache: () => 
     getWordPressClient().clearCache(),
-};
\ No newline at end of file
+  
+  cached: <T>(key: string, resource: CacheResource, tags: string[], load: () => Promise<T>) => 
+    getWordPressClient().cached(key, resource, tags, load),
+  
+  invalidateCache: (tags: string[]) => 
+    getWordPressClient().invalidateCache(tags),
+  
+  getCacheStats: () => 
+    getWordPressClient().getCacheStats(),
+};
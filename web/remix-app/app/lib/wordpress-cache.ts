@@ -0,0 +1,460 @@
+/**
+ * WordPress response cache
+ *
+ * Caches API responses with per-resource freshness policies:
+ *
+ * - fresh entries are served as-is until their TTL expires
+ * - stale entries are served while a background request revalidates them
+ *   (stale-while-revalidate)
+ * - when WordPress is unreachable, stale entries are served for longer
+ *   (stale-if-error) instead of failing the request
+ *
+ * Entries live in a pluggable `CacheStore`: an in-memory LRU per process,
+ * or a filesystem store that every Watt worker can share.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { isUpstreamFailure } from './wordpress-transport';
+import { cacheLookups, cacheStaleIfError } from './metrics';
+import { logger } from './logger';
+
+const log = logger.child({ module: 'wordpress-cache' });
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  /** Served without revalidation until this time */
+  freshUntil: number;
+  /** Served while revalidating until this time */
+  staleUntil: number;
+  /** Served when WordPress fails until this time */
+  errorUntil: number;
+  /** Invalidation tags, e.g. `post:12` or `list:posts` */
+  tags?: string[];
+}
+
+export interface CacheStore {
+  /** Identifies the backend in stats and health output */
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Delete every entry carrying any of `tags`; resolves to the count */
+  deleteTagged(tags: string[]): Promise<number>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+/**
+ * In-memory store bounded to `maxEntries`, evicting the least recently used
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(config: { maxEntries?: number } = {}) {
+    this.maxEntries = config.maxEntries ?? 500;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      // Map iteration order doubles as recency order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteTagged(tags: string[]): Promise<number> {
+    let deleted = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.tags?.some(tag => tags.includes(tag))) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Filesystem store shared by every process pointing at the same directory.
+ * Reads touch the file's mtime so eviction removes the least recently used.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name = 'file';
+  private directory: string;
+  private maxEntries: number;
+  private writes = 0;
+
+  constructor(config: { directory: string; maxEntries?: number }) {
+    this.directory = config.directory;
+    this.maxEntries = config.maxEntries ?? 5000;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const file = this.fileFor(key);
+
+    try {
+      const entry = JSON.parse(await readFile(file, 'utf8')) as CacheEntry;
+      const now = new Date();
+      await utimes(file, now, now).catch(() => {});
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so readers never see partial JSON;
+    // Watt workers are threads of one process, so the name is per write
+    const file = this.fileFor(key);
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temporary, JSON.stringify(entry));
+      await rename(temporary, file);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+
+    // Evicting needs a directory scan, so only do it every few writes
+    if (++this.writes % 50 === 0) {
+      await this.evict();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.fileFor(key), { force: true });
+  }
+
+  async deleteTagged(tags: string[]): Promise<number> {
+    const files = await this.files();
+    const deleted = await Promise.all(files.map(async (file) => {
+      try {
+        const entry = JSON.parse(await readFile(file, 'utf8')) as CacheEntry;
+        if (entry.tags?.some(tag => tags.includes(tag))) {
+          await rm(file, { force: true });
+          return true;
+        }
+      } catch {
+        // Entries removed or rewritten concurrently are skipped
+      }
+      return false;
+    }));
+
+    return deleted.filter(Boolean).length;
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+  }
+
+  async size(): Promise<number> {
+    return (await this.files()).length;
+  }
+
+  private async evict(): Promise<void> {
+    const files = await this.files();
+
+    if (files.length <= this.maxEntries) {
+      return;
+    }
+
+    const withTimes = await Promise.all(
+      files.map(async (file) => ({
+        file,
+        mtime: (await stat(file).catch(() => null))?.mtimeMs ?? 0,
+      }))
+    );
+
+    withTimes.sort((a, b) => a.mtime - b.mtime);
+
+    await Promise.all(
+      withTimes
+        .slice(0, files.length - this.maxEntries)
+        .map(({ file }) => rm(file, { force: true }))
+    );
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      const names = await readdir(this.directory);
+      return names
+        .filter(name => name.endsWith('.json'))
+        .map(name => `${this.directory}/${name}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private fileFor(key: string): string {
+    return `${this.directory}/${createHash('sha1').update(key).digest('hex')}.json`;
+  }
+}
+
+export type CacheResource =
+  | 'posts'
+  | 'pages'
+  | 'terms'
+  | 'media'
+  | 'users'
+  | 'menus'
+  | 'comments'
+  | 'types'
+  | 'search'
+  | 'default';
+
+export interface CachePolicy {
+  /** How long an entry is fresh (ms) */
+  ttl: number;
+  /** How long after `ttl` a stale entry is served while revalidating (ms) */
+  staleWhileRevalidate: number;
+  /** How long after `ttl` a stale entry is served when WordPress fails (ms) */
+  staleIfError: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const DEFAULT_CACHE_POLICIES: Record<CacheResource, CachePolicy> = {
+  posts: { ttl: 5 * MINUTE, staleWhileRevalidate: HOUR, staleIfError: 24 * HOUR },
+  pages: { ttl: 10 * MINUTE, staleWhileRevalidate: HOUR, staleIfError: 24 * HOUR },
+  terms: { ttl: 30 * MINUTE, staleWhileRevalidate: 6 * HOUR, staleIfError: 7 * 24 * HOUR },
+  media: { ttl: HOUR, staleWhileRevalidate: 24 * HOUR, staleIfError: 7 * 24 * HOUR },
+  users: { ttl: HOUR, staleWhileRevalidate: 24 * HOUR, staleIfError: 7 * 24 * HOUR },
+  menus: { ttl: 10 * MINUTE, staleWhileRevalidate: 6 * HOUR, staleIfError: 7 * 24 * HOUR },
+  comments: { ttl: 2 * MINUTE, staleWhileRevalidate: 30 * MINUTE, staleIfError: 24 * HOUR },
+  types: { ttl: HOUR, staleWhileRevalidate: 24 * HOUR, staleIfError: 7 * 24 * HOUR },
+  search: { ttl: MINUTE, staleWhileRevalidate: 5 * MINUTE, staleIfError: HOUR },
+  default: { ttl: 5 * MINUTE, staleWhileRevalidate: HOUR, staleIfError: 24 * HOUR },
+};
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  stale: number;
+  staleIfError: number;
+  revalidations: number;
+  errors: number;
+  hitRatio: number;
+}
+
+/**
+ * Response cache with stale-while-revalidate and stale-if-error
+ */
+export class WordPressCache {
+  private store: CacheStore;
+  private policies: Record<CacheResource, CachePolicy>;
+  private revalidating = new Set<string>();
+  private counters = {
+    hits: 0,
+    misses: 0,
+    stale: 0,
+    staleIfError: 0,
+    revalidations: 0,
+    errors: 0,
+  };
+
+  constructor(store: CacheStore, policies: Partial<Record<CacheResource, CachePolicy>> = {}) {
+    this.store = store;
+    this.policies = { ...DEFAULT_CACHE_POLICIES, ...policies };
+  }
+
+  /**
+   * Return the cached value for `key`, calling `load` on a miss and in
+   * the background once the entry goes stale. `tags` labels the stored
+   * value for `invalidate()`. `signal` is passed to `load` on a miss only:
+   * background revalidations outlive the request that started them.
+   */
+  async fetch<T>(
+    key: string,
+    resource: CacheResource,
+    load: (signal?: AbortSignal) => Promise<T>,
+    tags?: (value: T) => string[],
+    signal?: AbortSignal
+  ): Promise<T> {
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      this.counters.hits++;
+      cacheLookups.inc({ result: 'hit' });
+      return entry.value;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.counters.stale++;
+      cacheLookups.inc({ result: 'stale' });
+      this.revalidate(key, resource, load, tags);
+      return entry.value;
+    }
+
+    this.counters.misses++;
+    cacheLookups.inc({ result: 'miss' });
+
+    try {
+      return await this.load(key, resource, () => load(signal), tags);
+    } catch (error) {
+      // 4xx responses are never masked by the cache
+      if (entry && now < entry.errorUntil && isUpstreamFailure(error)) {
+        this.counters.staleIfError++;
+        cacheStaleIfError.inc();
+        log.warn('Serving stale WordPress response', { key, err: error });
+        return entry.value;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  /**
+   * Delete every entry labelled with any of `tags`
+   */
+  async invalidate(tags: string[]): Promise<number> {
+    return this.store.deleteTagged(tags);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Read from the store and count its entries, failing when the backend
+   * does; unlike `fetch()`, errors are not hidden
+   */
+  async check(): Promise<{ backend: string; entries: number }> {
+    await this.store.get('health-check');
+    return { backend: this.store.name, entries: await this.store.size() };
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const lookups = this.counters.hits + this.counters.misses + this.counters.stale;
+
+    return {
+      backend: this.store.name,
+      entries: await this.store.size().catch(() => -1),
+      ...this.counters,
+      hitRatio: lookups ? (this.counters.hits + this.counters.stale) / lookups : 0,
+    };
+  }
+
+  private async load<T>(
+    key: string,
+    resource: CacheResource,
+    load: () => Promise<T>,
+    tags?: (value: T) => string[]
+  ): Promise<T> {
+    const value = await load();
+    const policy = this.policies[resource];
+    const now = Date.now();
+
+    try {
+      await this.store.set(key, {
+        value,
+        storedAt: now,
+        freshUntil: now + policy.ttl,
+        staleUntil: now + policy.ttl + policy.staleWhileRevalidate,
+        errorUntil: now + policy.ttl + Math.max(policy.staleIfError, policy.staleWhileRevalidate),
+        tags: tags?.(value),
+      });
+    } catch (error) {
+      this.counters.errors++;
+      log.warn('Failed to cache WordPress response', { key, err: error });
+    }
+
+    return value;
+  }
+
+  private revalidate<T>(
+    key: string,
+    resource: CacheResource,
+    load: (signal?: AbortSignal) => Promise<T>,
+    tags?: (value: T) => string[]
+  ): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    this.revalidating.add(key);
+    this.counters.revalidations++;
+
+    this.load(key, resource, () => load(), tags)
+      .catch((error) => log.warn('Failed to revalidate WordPress response', { key, err: error }))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store.get(key) as CacheEntry<T> | undefined;
+    } catch (error) {
+      // A broken backend degrades to uncached requests rather than errors
+      this.counters.errors++;
+      log.warn('Failed to read WordPress cache', { key, err: error });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Build the cache store selected by `WORDPRESS_CACHE_BACKEND`
+ */
+export function createCacheStoreFromEnv(): CacheStore {
+  const maxEntries = process.env.WORDPRESS_CACHE_MAX_ENTRIES
+    ? parseInt(process.env.WORDPRESS_CACHE_MAX_ENTRIES)
+    : undefined;
+
+  switch (process.env.WORDPRESS_CACHE_BACKEND || 'memory') {
+    case 'file':
+      return new FileCacheStore({
+        directory: process.env.WORDPRESS_CACHE_DIR || './.cache/wordpress',
+        maxEntries,
+      });
+    case 'memory':
+      return new MemoryCacheStore({ maxEntries });
+    default:
+      throw new Error(`Unknown WORDPRESS_CACHE_BACKEND: ${process.env.WORDPRESS_CACHE_BACKEND}`);
+  }
+}
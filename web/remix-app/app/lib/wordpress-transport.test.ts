@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseRetryAfter, RetryPolicy, WordPressApiError } from './wordpress-transport';
+
+/**
+ * An attempt that fails until `failures` attempts have been made
+ */
+function failing(failures: number, error: () => unknown = () => new WordPressApiError('Bad gateway', 502)) {
+  return vi.fn(async (_signal: AbortSignal, attemptNumber: number) => {
+    if (attemptNumber <= failures) throw error();
+    return 'ok';
+  });
+}
+
+/**
+ * An attempt that never settles until its signal aborts
+ */
+function hanging(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+}
+
+describe('RetryPolicy', () => {
+  beforeEach(() => {
+    // The shortest backoff: half the exponential delay
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries upstream failures until an attempt succeeds', async () => {
+    const attempt = failing(2);
+
+    await expect(new RetryPolicy({ attempts: 3, baseDelay: 2 }).run(attempt)).resolves.toBe('ok');
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const attempt = failing(5);
+
+    await expect(new RetryPolicy({ attempts: 2, baseDelay: 2 }).run(attempt))
+      .rejects.toMatchObject({ status: 502 });
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries 408 and 429 but no other client errors', async () => {
+    const policy = new RetryPolicy({ attempts: 2, baseDelay: 2 });
+    const notFound = failing(1, () => new WordPressApiError('Not found', 404));
+
+    await expect(policy.run(failing(1, () => new WordPressApiError('Slow down', 429)))).resolves.toBe('ok');
+    await expect(policy.run(failing(1, () => new WordPressApiError('Timeout', 408)))).resolves.toBe('ok');
+    await expect(policy.run(notFound)).rejects.toMatchObject({ status: 404 });
+    expect(notFound).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out each attempt and retries it', async () => {
+    const attempt = vi.fn((signal: AbortSignal, attemptNumber: number) =>
+      attemptNumber === 1 ? hanging(signal) : Promise.resolve('ok')
+    );
+
+    await expect(new RetryPolicy({ attemptTimeout: 20, baseDelay: 2 }).run(attempt)).resolves.toBe('ok');
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry when the wait would end past the deadline', async () => {
+    const attempt = vi.fn(hanging);
+    const policy = new RetryPolicy({ attempts: 3, attemptTimeout: 40, deadline: 50, baseDelay: 30 });
+
+    await expect(policy.run(attempt)).rejects.toMatchObject({ code: 'request_timeout' });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops the current attempt and later ones when the caller aborts', async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn((signal: AbortSignal) => {
+      setTimeout(() => controller.abort(new DOMException('Navigation ended', 'AbortError')), 5);
+      return hanging(signal);
+    });
+
+    await expect(new RetryPolicy({ attemptTimeout: 1000 }).run(attempt, controller.signal))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits as long as a 429 or 503 asks', () => {
+    const policy = new RetryPolicy({ baseDelay: 500, maxDelay: 5000 });
+
+    expect(policy.delayBefore(2, new WordPressApiError('Slow down', 429, undefined, 7000))).toBe(7000);
+    expect(policy.delayBefore(2, new WordPressApiError('Bad gateway', 502, undefined, 7000))).toBe(250);
+  });
+
+  it('doubles the backoff up to the longest delay', () => {
+    const policy = new RetryPolicy({ baseDelay: 500, maxDelay: 1500 });
+
+    expect([2, 3, 4].map((attemptNumber) => policy.delayBefore(attemptNumber))).toEqual([250, 500, 750]);
+  });
+
+  it('replaces only the options given', () => {
+    const policy = new RetryPolicy({ attempts: 3, attemptTimeout: 1000 });
+
+    expect(policy.with({ attempts: undefined })).toBe(policy);
+    expect(policy.with({ attempts: 1 }).options).toMatchObject({ attempts: 1, attemptTimeout: 1000 });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 12:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,634 @@
+/**
+ * WordPress API transports
+ *
+ * A transport moves a single REST request to WordPress and back. The
+ * client layers caching and pagination on top, so every transport gets
+ * the same behaviour:
+ *
+ * - `HttpTransport` talks to a WordPress origin, either through the
+ *   Composer proxy or directly, with timeout and retries; each attempt
+ *   is traced and measured
+ * - `MockTransport` serves the in-memory sample content
+ * - `FixtureTransport` replays (and optionally records) JSON fixtures
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { endpointLabel, upstreamDuration, upstreamRequests, upstreamRetries } from './metrics';
+import { startSpan } from './tracing';
+import {
+  mockCaseStudies,
+  mockComments,
+  mockEvents,
+  mockMenuItems,
+  mockMenuLocations,
+  mockPages,
+  mockPosts,
+  mockTypes,
+} from './mock-wordpress';
+import type {
+  WordPressCategory,
+  WordPressComment,
+  WordPressEntry,
+  WordPressMedia,
+  WordPressMenuItem,
+  WordPressMenuLocation,
+  WordPressPage,
+  WordPressPost,
+  WordPressPostType,
+  WordPressTag,
+  WordPressUser,
+} from './wordpress-types';
+
+/**
+ * WordPress API Error
+ */
+export class WordPressApiError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public code?: string,
+    /** Delay asked for by a `Retry-After` header (ms) */
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'WordPressApiError';
+  }
+}
+
+/**
+ * Whether a failure means WordPress is unavailable (network errors,
+ * timeouts, 5xx), as opposed to the request itself being wrong
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  return !(error instanceof WordPressApiError && error.status && error.status < 500);
+}
+
+/**
+ * Whether the caller cancelled the request (e.g. an abandoned navigation)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export interface TransportRequest {
+  /** Path below the REST root, e.g. `/wp/v2/posts?slug=hello` */
+  path: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Override the transport's timeout for each attempt (ms) */
+  timeout?: number;
+  /** Override the transport's number of attempts */
+  retries?: number;
+  /** Cancels the request, including retries still to come */
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  data: T;
+}
+
+export interface WordPressTransport {
+  /** Identifies the transport in cache keys and diagnostics */
+  readonly name: string;
+  send<T>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+export interface RetryPolicyOptions {
+  /** Attempts, including the first */
+  attempts?: number;
+  /** Timeout for each attempt, including reading the body (ms) */
+  attemptTimeout?: number;
+  /** Time for all attempts and the waits between them (ms) */
+  deadline?: number;
+  /** Backoff before the first retry, doubling for each one after (ms) */
+  baseDelay?: number;
+  /** Longest backoff between attempts (ms) */
+  maxDelay?: number;
+}
+
+/**
+ * Statuses worth another attempt besides 5xx
+ */
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * Statuses whose `Retry-After` header sets the wait before the next attempt
+ */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * Milliseconds to wait from a `Retry-After` header, in seconds or as a date
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * When and how often a request is attempted
+ *
+ * Each attempt gets its own timeout, and every attempt and wait fits in
+ * the deadline. Network errors, timeouts, 408, 429 and 5xx responses are
+ * retried after a jittered exponential backoff, or after the `Retry-After`
+ * delay of a 429 or 503 when there is one. A retry that would end past
+ * the deadline is not made. Aborting the caller's signal stops the
+ * current attempt and any to come.
+ */
+export class RetryPolicy {
+  readonly options: Required<RetryPolicyOptions>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    const attemptTimeout = options.attemptTimeout ?? 10000;
+
+    this.options = {
+      attempts: Math.max(1, options.attempts ?? 3),
+      attemptTimeout,
+      deadline: options.deadline ?? attemptTimeout * 3,
+      baseDelay: options.baseDelay ?? 500,
+      maxDelay: options.maxDelay ?? 5000,
+    };
+  }
+
+  /**
+   * This policy with some options replaced, e.g. a single attempt for writes
+   */
+  with(overrides: RetryPolicyOptions): RetryPolicy {
+    const defined = Object.entries(overrides).filter(([, value]) => value !== undefined);
+    return defined.length > 0 ? new RetryPolicy({ ...this.options, ...Object.fromEntries(defined) }) : this;
+  }
+
+  /**
+   * Run `attempt` until it succeeds, fails for good or runs out of time;
+   * each call gets a signal that aborts when its attempt times out
+   */
+  async run<T>(attempt: (signal: AbortSignal, attemptNumber: number) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const deadline = Date.now() + this.options.deadline;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      signal?.throwIfAborted();
+
+      const timeout = Math.max(1, Math.min(this.options.attemptTimeout, deadline - Date.now()));
+      const timeoutSignal = AbortSignal.timeout(timeout);
+
+      try {
+        return await attempt(signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal, attemptNumber);
+      } catch (caught) {
+        signal?.throwIfAborted();
+
+        const error = timeoutSignal.aborted
+          ? new WordPressApiError(`Request timed out after ${timeout}ms`, undefined, 'request_timeout')
+          : caught;
+
+        if (attemptNumber >= this.options.attempts || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.delayBefore(attemptNumber + 1, error);
+        if (Date.now() + delay >= deadline) {
+          throw error;
+        }
+
+        upstreamRetries.inc({ reason: outcomeLabel(error) });
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  isRetryable(error: unknown): boolean {
+    if (!(error instanceof WordPressApiError) || !error.status) {
+      return !isAbortError(error);
+    }
+    return error.status >= 500 || RETRYABLE_STATUSES.has(error.status);
+  }
+
+  /**
+   * Wait before attempt `attemptNumber` (2 for the first retry): the
+   * server's `Retry-After`, or half the backoff plus a random part of the
+   * other half, so clients that failed together don't retry together
+   */
+  delayBefore(attemptNumber: number, error?: unknown): number {
+    if (
+      error instanceof WordPressApiError &&
+      error.retryAfter !== undefined &&
+      error.status &&
+      RETRY_AFTER_STATUSES.has(error.status)
+    ) {
+      return error.retryAfter;
+    }
+
+    const backoff = Math.min(this.options.maxDelay, this.options.baseDelay * 2 ** (attemptNumber - 2));
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+}
+
+/**
+ * `status` label for a failed attempt: the HTTP status, or what went wrong
+ */
+function outcomeLabel(error: unknown): string {
+  if (error instanceof WordPressApiError) {
+    return error.status?.toString() ?? (error.code === 'request_timeout' ? 'timeout' : 'error');
+  }
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'timeout';
+  }
+  return isAbortError(error) ? 'aborted' : 'error';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * HTTP transport for a WordPress origin or the Composer proxy in front of it
+ */
+export class HttpTransport implements WordPressTransport {
+  readonly name: string;
+  private baseUrl: string;
+  private retry: RetryPolicy;
+
+  constructor(config: { baseUrl: string; timeout?: number; retries?: number; retry?: RetryPolicy }) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.retry = config.retry ?? new RetryPolicy({
+      attempts: config.retries,
+      attemptTimeout: config.timeout,
+    });
+    this.name = `http:${this.baseUrl}`;
+  }
+
+  async send<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const url = `${this.baseUrl}/wp-json${request.path}`;
+    const policy = this.retry.with({ attempts: request.retries, attemptTimeout: request.timeout });
+    const method = request.method || 'GET';
+    const endpoint = endpointLabel(request.path);
+
+    return policy.run(async (signal, attemptNumber) => {
+      const span = startSpan(`${method} ${endpoint}`, {
+        kind: 'client',
+        attributes: {
+          'http.request.method': method,
+          'url.full': url,
+          'http.request.resend_count': attemptNumber > 1 ? attemptNumber - 1 : undefined,
+        },
+      });
+      const started = performance.now();
+      let status = 'error';
+
+      try {
+        const response = await fetch(url, {
+          method,
+          body: request.body,
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            ...request.headers,
+            traceparent: span.traceparent(),
+          },
+        });
+        status = response.status.toString();
+        span.setAttribute('http.response.status_code', response.status);
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new WordPressApiError(
+            errorData.message || `HTTP ${response.status}: ${response.statusText}`,
+            response.status,
+            errorData.code,
+            parseRetryAfter(response.headers.get('Retry-After'))
+          );
+        }
+
+        const data = await response.json() as T;
+
+        return { status: response.status, headers: response.headers, data };
+      } catch (error) {
+        if (!(error instanceof WordPressApiError)) status = outcomeLabel(error);
+        span.fail(error).setAttribute('error.type', status);
+        throw error;
+      } finally {
+        upstreamDuration.observe({ method, endpoint, status }, (performance.now() - started) / 1000);
+        upstreamRequests.inc({ method, endpoint, status });
+        span.end();
+      }
+    }, request.signal);
+  }
+}
+
+/**
+ * Content served by `MockTransport`
+ */
+export interface MockContent {
+  posts: WordPressPost[];
+  pages: WordPressPage[];
+  categories: WordPressCategory[];
+  tags: WordPressTag[];
+  users: WordPressUser[];
+  media: WordPressMedia[];
+  comments: WordPressComment[];
+  'menu-items': WordPressMenuItem[];
+  events: WordPressEntry[];
+  'case-studies': WordPressEntry[];
+  menuLocations: Record<string, WordPressMenuLocation>;
+  types: Record<string, WordPressPostType>;
+}
+
+type MockCollection = Exclude<keyof MockContent, 'menuLocations' | 'types'>;
+
+/**
+ * A field of a mock item, for the filters every collection shares
+ */
+function field(item: object, name: string): unknown {
+  return name in item ? (item as Record<string, unknown>)[name] : undefined;
+}
+
+/**
+ * The `rendered` text of a mock item's field, e.g. its title
+ */
+function renderedField(item: object, name: string): unknown {
+  const value = field(item, name);
+  return value && typeof value === 'object' ? field(value, 'rendered') : undefined;
+}
+
+const MOCK_COLLECTIONS: MockCollection[] = [
+  'posts',
+  'pages',
+  'categories',
+  'tags',
+  'users',
+  'media',
+  'comments',
+  'menu-items',
+  'events',
+  'case-studies',
+];
+
+/**
+ * In-memory transport answering `/wp/v2` requests from sample content,
+ * with the same filtering and pagination headers as WordPress
+ */
+export class MockTransport implements WordPressTransport {
+  readonly name = 'mock';
+  private content: MockContent;
+
+  constructor(content: Partial<MockContent> = {}) {
+    this.content = {
+      posts: mockPosts,
+      pages: mockPages,
+      categories: [],
+      tags: [],
+      users: [],
+      media: [],
+      comments: mockComments,
+      'menu-items': mockMenuItems,
+      events: mockEvents,
+      'case-studies': mockCaseStudies,
+      menuLocations: mockMenuLocations,
+      types: mockTypes,
+      ...content,
+    };
+  }
+
+  async send<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const url = new URL(request.path, 'http://mock.local');
+    const [namespace, version, collection, id, ...subresource] = url.pathname.split('/').filter(Boolean);
+
+    // Sub-resources such as revisions and autosaves are not mocked
+    if (namespace !== 'wp' || version !== 'v2' || subresource.length > 0) {
+      throw new WordPressApiError('No route was found matching the URL and request method.', 404, 'rest_no_route');
+    }
+
+    if (!collection) {
+      return this.respond({ name: 'Mock WordPress', namespace: 'wp/v2' } as T);
+    }
+
+    if (collection === 'menu-locations') {
+      return this.respond(this.content.menuLocations as T);
+    }
+
+    if (collection === 'types') {
+      return this.respond(this.content.types as T);
+    }
+
+    if (collection === 'search') {
+      return this.paginate(this.searchItems(url.searchParams), url.searchParams) as Promise<TransportResponse<T>>;
+    }
+
+    if (!MOCK_COLLECTIONS.includes(collection as MockCollection)) {
+      throw new WordPressApiError('No route was found matching the URL and request method.', 404, 'rest_no_route');
+    }
+
+    // New comments are held for moderation and not stored
+    if (collection === 'comments' && !id && request.method === 'POST') {
+      const body: unknown = JSON.parse(request.body || '{}');
+      return this.respond(this.holdComment(body && typeof body === 'object' ? body : {}) as T);
+    }
+
+    const items: object[] = this.content[collection as MockCollection];
+
+    if (id) {
+      const item = items.find(candidate => field(candidate, 'id') === parseInt(id));
+      if (!item) {
+        throw new WordPressApiError('Invalid ID.', 404, 'rest_invalid_id');
+      }
+      return this.respond(item as T);
+    }
+
+    return this.paginate(this.filter(items, url.searchParams), url.searchParams) as Promise<TransportResponse<T>>;
+  }
+
+  private filter<T extends object>(items: T[], params: URLSearchParams): T[] {
+    const slug = params.get('slug');
+    const search = params.get('search')?.toLowerCase();
+    const parent = params.get('parent')?.split(',').map(Number);
+    const post = params.get('post');
+    const author = params.get('author');
+    const include = params.get('include')?.split(',').map(Number);
+    const menus = params.get('menus');
+
+    return items.filter(item =>
+      (!slug || field(item, 'slug') === slug)
+      && (!parent || parent.includes(Number(field(item, 'parent'))))
+      && (!post || field(item, 'post') === parseInt(post))
+      && (!author || field(item, 'author') === parseInt(author))
+      && (!include || include.includes(Number(field(item, 'id'))))
+      && (!menus || field(item, 'menus') === parseInt(menus))
+      && (!search || [renderedField(item, 'title'), renderedField(item, 'content'), field(item, 'name')]
+        .some(value => typeof value === 'string' && value.toLowerCase().includes(search)))
+    );
+  }
+
+  private searchItems(params: URLSearchParams) {
+    const type = params.get('type') || 'post';
+    const subtypes = (params.get('subtype') || (type === 'term' ? 'category,post_tag' : 'post,page')).split(',');
+    const sources: Array<[string, MockCollection]> = type === 'term'
+      ? [['category', 'categories'], ['post_tag', 'tags']]
+      : [['post', 'posts'], ['page', 'pages']];
+
+    return sources
+      .filter(([subtype]) => subtypes.includes(subtype))
+      .flatMap(([subtype, collection]) =>
+        this.filter<object>(this.content[collection], params).map(item => ({
+          id: field(item, 'id'),
+          title: renderedField(item, 'title') ?? field(item, 'name'),
+          url: field(item, 'link') ?? `http://mock.local/${String(field(item, 'slug'))}/`,
+          type,
+          subtype,
+          _embedded: { self: [item] },
+        }))
+      );
+  }
+
+  private async paginate(items: unknown[], params: URLSearchParams): Promise<TransportResponse<unknown[]>> {
+    const page = parseInt(params.get('page') || '1');
+    const perPage = parseInt(params.get('per_page') || '10');
+    const totalPages = Math.ceil(items.length / perPage);
+
+    if (page > 1 && page > totalPages) {
+      throw new WordPressApiError(
+        'The page number requested is larger than the number of pages available.',
+        400,
+        'rest_post_invalid_page_number'
+      );
+    }
+
+    const response = await this.respond(items.slice((page - 1) * perPage, page * perPage));
+    response.headers.set('X-WP-Total', items.length.toString());
+    response.headers.set('X-WP-TotalPages', totalPages.toString());
+    return response;
+  }
+
+  private holdComment(comment: object): WordPressComment {
+    const number = (name: string) => {
+      const value = field(comment, name);
+      return typeof value === 'number' ? value : 0;
+    };
+    const text = (name: string) => {
+      const value = field(comment, name);
+      return typeof value === 'string' ? value : '';
+    };
+
+    return {
+      id: Math.max(0, ...this.content.comments.map(existing => existing.id)) + 1,
+      post: number('post'),
+      parent: number('parent'),
+      author: 0,
+      author_name: text('author_name'),
+      author_url: text('author_url'),
+      date: new Date().toISOString().slice(0, 19),
+      content: { rendered: `<p>${text('content')}</p>\n` },
+      link: '',
+      status: 'hold',
+      type: 'comment',
+      _links: {},
+    };
+  }
+
+  private async respond<T>(data: T): Promise<TransportResponse<T>> {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 10));
+    return { status: 200, headers: new Headers(), data: structuredClone(data) };
+  }
+}
+
+interface RecordedFixture {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * Headers worth keeping in recorded fixtures
+ */
+const FIXTURE_HEADERS = ['x-wp-total', 'x-wp-totalpages', 'content-type'];
+
+/**
+ * Replays recorded JSON responses from a directory. With an `upstream`
+ * transport, missing fixtures are fetched and written to disk.
+ */
+export class FixtureTransport implements WordPressTransport {
+  readonly name: string;
+  private directory: string;
+  private upstream?: WordPressTransport;
+
+  constructor(config: { directory: string; upstream?: WordPressTransport }) {
+    this.directory = config.directory;
+    this.upstream = config.upstream;
+    this.name = `fixture:${this.directory}`;
+  }
+
+  async send<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const file = `${this.directory}/${fixtureName(request)}`;
+
+    try {
+      const fixture = JSON.parse(await readFile(file, 'utf8')) as RecordedFixture;
+      return {
+        status: fixture.status,
+        headers: new Headers(fixture.headers),
+        data: fixture.data as T,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (!this.upstream) {
+      throw new WordPressApiError(
+        `No recorded fixture for ${request.method || 'GET'} ${request.path}`,
+        404,
+        'fixture_missing'
+      );
+    }
+
+    const response = await this.upstream.send<T>(request);
+    const fixture: RecordedFixture = {
+      status: response.status,
+      headers: Object.fromEntries(
+        FIXTURE_HEADERS
+          .filter(name => response.headers.has(name))
+          .map(name => [name, response.headers.get(name) as string])
+      ),
+      data: response.data,
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(file, JSON.stringify(fixture, null, 2));
+
+    return response;
+  }
+}
+
+/**
+ * Build a stable, filesystem-safe fixture file name for a request
+ */
+function fixtureName(request: TransportRequest): string {
+  const key = `${(request.method || 'GET').toLowerCase()}${request.path}`;
+  const readable = key.replace(/[^a-zA-Z0-9]+/g, '_').replace(/_+$/, '').slice(0, 120);
+
+  // FNV-1a keeps long or similar paths from colliding after truncation
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return `${readable}.${hash.toString(16)}.json`;
+}
@@ -0,0 +1,371 @@
+/**
+ * WordPress REST API types
+ *
+ * Shapes of the `/wp/v2` resources the app reads. Re-exported from
+ * `wordpress-api.ts`, which is the entry point for app code.
+ */
+
+/**
+ * Post content; `raw` block markup is only returned in the edit context
+ */
+export interface WordPressContent {
+  rendered: string;
+  raw?: string;
+}
+
+/**
+ * A parsed block, as returned by WordPress's `parse_blocks()`
+ */
+export interface WordPressBlock {
+  /** Namespaced name, e.g. `core/paragraph`; `null` for freeform HTML */
+  blockName: string | null;
+  attrs: Record<string, unknown>;
+  innerBlocks: WordPressBlock[];
+  /** The block's own HTML, without its inner blocks */
+  innerHTML: string;
+  /** HTML chunks in order, with `null` where each inner block goes */
+  innerContent: Array<string | null>;
+  /** Server-rendered HTML, when the API provides it (dynamic blocks) */
+  rendered?: string;
+}
+
+/**
+ * SEO metadata from Yoast SEO (or Rank Math's compatible field), already
+ * resolved from templates
+ */
+export interface YoastHeadJson {
+  title?: string;
+  description?: string;
+  robots?: Record<string, string>;
+  canonical?: string;
+  og_type?: string;
+  og_title?: string;
+  og_description?: string;
+  og_image?: Array<{ url: string; width?: number; height?: number; type?: string }>;
+  twitter_card?: string;
+  twitter_title?: string;
+  twitter_description?: string;
+  twitter_image?: string;
+  twitter_site?: string;
+  twitter_creator?: string;
+}
+
+/**
+ * ACF fields by post type, as returned in `acf` with `acf_format=standard`
+ *
+ * Empty here; declare a site's field groups by augmenting it, e.g.
+ * `declare module './wordpress-types' { interface AcfFields { event: EventFields } }`.
+ * Post types without an entry get untyped fields.
+ */
+export interface AcfFields {}
+
+/**
+ * The ACF fields of post type `TType`
+ */
+export type AcfFor<TType extends string> = TType extends keyof AcfFields
+  ? AcfFields[TType]
+  : Record<string, unknown>;
+
+export interface WordPressPost {
+  id: number;
+  title: {
+    rendered: string;
+  };
+  content: WordPressContent;
+  excerpt: {
+    rendered: string;
+  };
+  slug: string;
+  /** Permalink on the WordPress site */
+  link?: string;
+  date: string;
+  modified: string;
+  /** UTC variants of `date` and `modified` */
+  date_gmt?: string;
+  modified_gmt?: string;
+  author: number;
+  featured_media: number;
+  status: string;
+  comment_status?: 'open' | 'closed';
+  /** Parsed blocks, from the `wp-remix-blocks` mu-plugin */
+  blocks?: WordPressBlock[];
+  yoast_head_json?: YoastHeadJson;
+  acf?: AcfFor<'post'>;
+  _links: Record<string, any>;
+  _embedded?: WordPressEmbedded;
+}
+
+/**
+ * An entry of any post type, e.g. from a custom post type's collection
+ */
+export interface WordPressEntry<TType extends string = string> extends Omit<WordPressPost, 'acf'> {
+  /** Post type slug */
+  type: TType;
+  /** Set for hierarchical post types */
+  parent?: number;
+  menu_order?: number;
+  acf?: AcfFor<TType>;
+}
+
+/**
+ * A post type (`/wp/v2/types`)
+ */
+export interface WordPressPostType {
+  slug: string;
+  name: string;
+  description: string;
+  hierarchical: boolean;
+  /** Archive slug, or whether the type has an archive */
+  has_archive: string | boolean;
+  /** Taxonomy slugs */
+  taxonomies: string[];
+  /** Collection path under `rest_namespace` */
+  rest_base: string;
+  rest_namespace: string;
+  labels?: Record<string, string>;
+  _links: Record<string, any>;
+}
+
+export interface WordPressPage {
+  id: number;
+  title: {
+    rendered: string;
+  };
+  content: WordPressContent;
+  excerpt: {
+    rendered: string;
+  };
+  slug: string;
+  date: string;
+  modified: string;
+  parent: number;
+  menu_order: number;
+  featured_media: number;
+  status: string;
+  /** Parsed blocks, from the `wp-remix-blocks` mu-plugin */
+  blocks?: WordPressBlock[];
+  yoast_head_json?: YoastHeadJson;
+  acf?: AcfFor<'page'>;
+  _links: Record<string, any>;
+  _embedded?: WordPressEmbedded;
+}
+
+/**
+ * A comment (`/wp/v2/comments`)
+ */
+export interface WordPressComment {
+  id: number;
+  post: number;
+  /** Parent comment ID; 0 for top-level comments */
+  parent: number;
+  author: number;
+  author_name: string;
+  author_url: string;
+  author_avatar_urls?: Record<string, string>;
+  date: string;
+  date_gmt?: string;
+  content: {
+    rendered: string;
+  };
+  link: string;
+  /** `approved`, or `hold` while awaiting moderation */
+  status: string;
+  type: string;
+  _links: Record<string, any>;
+}
+
+/**
+ * A saved revision or autosave of a post or page
+ */
+export interface WordPressRevision {
+  id: number;
+  parent: number;
+  author: number;
+  date: string;
+  modified: string;
+  slug: string;
+  title: {
+    rendered: string;
+  };
+  content: WordPressContent;
+  excerpt: {
+    rendered: string;
+  };
+}
+
+export interface WordPressCategory {
+  id: number;
+  count: number;
+  description: string;
+  link: string;
+  name: string;
+  slug: string;
+  taxonomy: string;
+  parent: number;
+  yoast_head_json?: YoastHeadJson;
+  _links: Record<string, any>;
+}
+
+export interface WordPressTag {
+  id: number;
+  count: number;
+  description: string;
+  link: string;
+  name: string;
+  slug: string;
+  taxonomy: string;
+  yoast_head_json?: YoastHeadJson;
+  _links: Record<string, any>;
+}
+
+export interface WordPressMedia {
+  id: number;
+  date: string;
+  slug: string;
+  type: string;
+  link: string;
+  title: {
+    rendered: string;
+  };
+  author: number;
+  caption: {
+    rendered: string;
+  };
+  alt_text: string;
+  media_type: string;
+  mime_type: string;
+  media_details: {
+    width: number;
+    height: number;
+    file: string;
+    /** Bytes, since WordPress 6.0 */
+    filesize?: number;
+    sizes: Record<string, {
+      file: string;
+      width: number;
+      height: number;
+      mime_type: string;
+      source_url: string;
+    }>;
+  };
+  source_url: string;
+  _links: Record<string, any>;
+}
+
+export interface WordPressUser {
+  id: number;
+  name: string;
+  url: string;
+  description: string;
+  link: string;
+  slug: string;
+  avatar_urls: Record<string, string>;
+  yoast_head_json?: YoastHeadJson;
+  _links: Record<string, any>;
+}
+
+/**
+ * A classic menu assigned to a theme location (`/wp/v2/menu-locations`)
+ */
+export interface WordPressMenuLocation {
+  name: string;
+  description: string;
+  /** Assigned menu term ID, 0 when none */
+  menu: number;
+}
+
+/**
+ * A classic menu entry (`/wp/v2/menu-items`); `object` and `object_id`
+ * name the linked post, page or term
+ */
+export interface WordPressMenuItem {
+  id: number;
+  title: {
+    rendered: string;
+  };
+  url: string;
+  attr_title: string;
+  type: 'post_type' | 'taxonomy' | 'custom' | string;
+  object: string;
+  object_id: number;
+  parent: number;
+  menu_order: number;
+  target: string;
+  classes: string[];
+  menus: number;
+}
+
+/**
+ * A block theme navigation menu (`/wp/v2/navigation`); `content.raw`
+ * holds the block markup and is only returned in the edit context
+ */
+export interface WordPressNavigation {
+  id: number;
+  slug: string;
+  status: string;
+  title: {
+    rendered: string;
+  };
+  content: {
+    rendered: string;
+    raw?: string;
+  };
+}
+
+/**
+ * Error placeholder WordPress embeds when a linked resource is not readable
+ */
+export interface WordPressEmbedError {
+  code: string;
+  message: string;
+  data?: { status: number };
+}
+
+/**
+ * Linked resources returned by `_embed`
+ */
+export interface WordPressEmbedded {
+  author?: Array<WordPressUser | WordPressEmbedError>;
+  'wp:featuredmedia'?: Array<WordPressMedia | WordPressEmbedError>;
+  'wp:term'?: Array<Array<WordPressCategory | WordPressTag>>;
+}
+
+/**
+ * Contact Form 7's answer to a `/contact-form-7/v1/contact-forms/{id}/feedback`
+ * submission
+ */
+export interface ContactForm7Feedback {
+  contact_form_id: number;
+  status: 'mail_sent' | 'mail_failed' | 'validation_failed' | 'acceptance_missing' | 'spam' | 'aborted';
+  message: string;
+  invalid_fields?: Array<{ field: string; message: string }>;
+}
+
+export type WordPressSearchType = 'post' | 'page' | 'category' | 'tag';
+
+interface WordPressSearchResultBase {
+  id: number;
+  title: string;
+  url: string;
+}
+
+/**
+ * A `/wp/v2/search` result, discriminated by `type`. `item` holds the
+ * embedded object when WordPress could embed it.
+ */
+export type WordPressSearchResult =
+  | (WordPressSearchResultBase & { type: 'post'; item: WordPressPost | null })
+  | (WordPressSearchResultBase & { type: 'page'; item: WordPressPage | null })
+  | (WordPressSearchResultBase & { type: 'category'; item: WordPressCategory | null })
+  | (WordPressSearchResultBase & { type: 'tag'; item: WordPressTag | null });
+
+/**
+ * WordPress API Response for paginated endpoints
+ */
+export interface WordPressApiResponse<T> {
+  data: T[];
+  total: number;
+  totalPages: number;
+  page: number;
+  perPage: number;
+}
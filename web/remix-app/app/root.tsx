@@ -4,8 +4,19 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  useLoaderData,
 } from "@remix-run/react";
-import type { LinksFunction } from "@remix-run/node";
+import { json, type LinksFunction, type LoaderFunctionArgs } from "@remix-run/node";
+import { Footer, Navigation } from "~/components/wordpress";
+import { feedLinks } from "~/lib/feed-links";
+import { getSiteUrl, SITE_NAME } from "~/lib/site";
+import {
+  DEFAULT_MENU_ITEMS,
+  FOOTER_MENU_LOCATION,
+  getCategoryMenuItems,
+  getMenu,
+  PRIMARY_MENU_LOCATION,
+} from "~/lib/menus";
 
 import "./tailwind.css";
 
@@ -20,8 +31,20 @@ export const links: LinksFunction = () => [
     rel: "stylesheet",
     href: "https://fonts.googleapis.com/css2?family=Inter:ital,opsz,wght@0,14..32,100..900;1,14..32,100..900&display=swap",
   },
+  ...feedLinks("", SITE_NAME),
 ];
 
+export async function loader({ request }: LoaderFunctionArgs) {
+  // Menus fall back to defaults, so the layout renders even without WordPress
+  const [primary, footer] = await Promise.all([
+    getMenu(PRIMARY_MENU_LOCATION, { title: "Menu", items: () => DEFAULT_MENU_ITEMS }),
+    getMenu(FOOTER_MENU_LOCATION, { title: "Categories", items: () => getCategoryMenuItems() }),
+  ]);
+
+  // Canonical and social URLs in every route's meta are absolute
+  return json({ menus: { primary, footer }, siteUrl: getSiteUrl(request) });
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
@@ -41,5 +64,13 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
-  return <Outlet />;
+  const { menus } = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <Navigation items={menus.primary.items} />
+      <Outlet />
+      <Footer quickLinks={menus.primary.items} menu={menus.footer} />
+    </>
+  );
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import type { HeadersFunction, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { useLoaderData, useLocation } from "@remix-run/react";
+import { loadPage } from "~/lib/page-route";
+import { getSiteUrlFromMatches, pageMeta } from "~/lib/seo";
+import { pickHeaders } from "~/lib/cache-invalidation";
+import { HierarchicalPage } from "~/components/wordpress";
+
+export const headers: HeadersFunction = ({ loaderHeaders }) =>
+  pickHeaders(loaderHeaders, ["Cache-Control", "X-Robots-Tag", "Surrogate-Key", "Cache-Tag"]);
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches, location }) => {
+  if (!data?.page) {
+    return [
+      { title: "Page Not Found - WP Remix" },
+      { name: "description", content: "The requested page could not be found" },
+    ];
+  }
+
+  return pageMeta({
+    siteUrl: getSiteUrlFromMatches(matches),
+    path: location.pathname,
+    page: data.page,
+    image: data.image,
+    breadcrumbs: data.breadcrumbs,
+    preview: data.preview,
+  });
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  return loadPage(request, (params["*"] || "").split("/").filter(Boolean));
+}
+
+export default function PagePage() {
+  const { page, image, blocks, media, breadcrumbs, children, preview } = useLoaderData<typeof loader>();
+  const location = useLocation();
+
+  return (
+    <HierarchicalPage
+      page={page}
+      image={image}
+      blocks={blocks}
+      media={media}
+      breadcrumbs={breadcrumbs}
+      childPages={children}
+      preview={preview}
+      path={location.pathname}
+    />
+  );
+}
+
+export function ErrorBoundary() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          Page not found
+        </h1>
+        <p className="text-gray-600 mb-6">
+          The page you're looking for doesn't exist or has been removed.
+        </p>
+        <div className="space-x-4">
+          <a
+            href="/"
+            className="btn"
+          >
+            Go Home
+          </a>
+          <a
+            href="/posts"
+            className="btn btn-secondary"
+          >
+            Browse Posts
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
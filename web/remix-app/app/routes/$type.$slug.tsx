@@ -0,0 +1,177 @@
+import { json, type HeadersFunction, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, useLocation } from "@remix-run/react";
+import { isCustomPostType, wordpressApi, WordPressApiError } from "~/lib/wordpress-api";
+import { pickHeaders, surrogateKeyHeaders } from "~/lib/cache-invalidation";
+import { getContentBlocks } from "~/lib/blocks";
+import { loadPage } from "~/lib/page-route";
+import { toPlainText } from "~/lib/sanitize";
+import {
+  articleSchema,
+  breadcrumbSchema,
+  buildMeta,
+  getSiteUrlFromMatches,
+  pageMeta,
+  toIsoDate,
+  toSeoImage,
+} from "~/lib/seo";
+import { logger } from "~/lib/logger";
+import { HierarchicalPage } from "~/components/wordpress";
+import { EntryContent } from "~/components/entry-templates";
+
+export const headers: HeadersFunction = ({ loaderHeaders }) =>
+  pickHeaders(loaderHeaders, ["Cache-Control", "X-Robots-Tag", "Surrogate-Key", "Cache-Tag"]);
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches, location }) => {
+  const siteUrl = getSiteUrlFromMatches(matches);
+
+  if (data?.kind === "page") {
+    return pageMeta({
+      siteUrl,
+      path: location.pathname,
+      page: data.page,
+      image: data.image,
+      breadcrumbs: data.breadcrumbs,
+      preview: data.preview,
+    });
+  }
+
+  if (!data?.entry) {
+    return [
+      { title: "Page Not Found - WP Remix" },
+      { name: "description", content: "The requested page could not be found" },
+    ];
+  }
+
+  const { entry } = data;
+  const path = `/${data.type.rest_base}/${entry.slug}`;
+  const title = toPlainText(entry.title?.rendered) || "Untitled";
+  const image = toSeoImage(data.image);
+
+  return buildMeta({
+    siteUrl,
+    path,
+    title,
+    description: toPlainText(entry.excerpt?.rendered) || `View this ${data.type.name.toLowerCase()}`,
+    type: "article",
+    image,
+    article: {
+      published: toIsoDate(entry.date, entry.date_gmt),
+      modified: toIsoDate(entry.modified, entry.modified_gmt),
+    },
+    yoast: entry.yoast_head_json,
+    jsonLd: [
+      articleSchema({ siteUrl, path, post: entry, image }),
+      breadcrumbSchema(siteUrl, [{ name: title, path }]),
+    ],
+  });
+};
+
+/**
+ * Custom post type entries at /{rest_base}/{slug}; any other two-segment
+ * path is a child page
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const { type: restBase = "", slug = "" } = params;
+  const api = wordpressApi.forRequest(request);
+
+  // Without the type list, the path can still be a page
+  const type = await api.getTypeByRestBase(restBase).catch(() => null);
+  if (!type || !isCustomPostType(type)) {
+    return loadPage(request, [restBase, slug]);
+  }
+
+  try {
+    const entry = await api.getItem(type.rest_base, slug);
+
+    const blocks = getContentBlocks(entry);
+    const [image, media] = await Promise.all([
+      api.resolveFeaturedImage(entry),
+      blocks ? api.resolveBlockMedia(blocks) : {},
+    ]);
+
+    return json({
+      kind: "entry" as const,
+      entry,
+      type: { slug: type.slug, name: type.name, rest_base: type.rest_base },
+      image,
+      blocks,
+      media,
+    }, {
+      headers: surrogateKeyHeaders([
+        `post:${entry.id}`,
+        `list:${type.rest_base}`,
+        ...(type.slug !== type.rest_base ? [`list:${type.slug}`] : []),
+      ]),
+    });
+  } catch (error) {
+    logger.forRequest(request).error("Error loading entry", { type: type.slug, slug: params.slug, err: error });
+
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response("Not Found", { status: 404 });
+    }
+
+    throw new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export default function EntryPage() {
+  const data = useLoaderData<typeof loader>();
+  const location = useLocation();
+
+  if (data.kind === "page") {
+    return (
+      <HierarchicalPage
+        page={data.page}
+        image={data.image}
+        blocks={data.blocks}
+        media={data.media}
+        breadcrumbs={data.breadcrumbs}
+        childPages={data.children}
+        preview={data.preview}
+        path={location.pathname}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container py-16">
+        <div className="max-w-4xl mx-auto">
+          <p className="text-sm font-medium uppercase tracking-wide text-blue-600 mb-4">
+            {data.type.name}
+          </p>
+          <EntryContent entry={data.entry} image={data.image} blocks={data.blocks} media={data.media} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          Page not found
+        </h1>
+        <p className="text-gray-600 mb-6">
+          The page you're looking for doesn't exist or has been removed.
+        </p>
+        <div className="space-x-4">
+          <a
+            href="/"
+            className="btn"
+          >
+            Go Home
+          </a>
+          <a
+            href="/posts"
+            className="btn btn-secondary"
+          >
+            Browse Posts
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
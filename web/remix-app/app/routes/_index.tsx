@@ -1,58 +1,64 @@
-import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { json, type HeadersFunction, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
 import { useLoaderData } from "@remix-run/react";
-import { type WordPressPost } from "~/lib/wordpress";
+import { type WordPressPost } from "~/lib/wordpress-api";
 import { wordpressApi, WordPressApiError } from "~/lib/wordpress-api";
-import { getMockPosts } from "~/lib/mock-wordpress";
+import { pickHeaders, surrogateKeyHeaders } from "~/lib/cache-invalidation";
+import { buildMeta, getSiteUrlFromMatches, websiteSchema } from "~/lib/seo";
+import { logger } from "~/lib/logger";
 import { PostGrid } from "~/components/wordpress";
 
-export const meta: MetaFunction = () => {
-  return [
-    { title: "WP Remix - WordPress + Remix App" },
-    { name: "description", content: "A modern WordPress and Remix application powered by Platformatic Watt" },
-  ];
+export const headers: HeadersFunction = ({ loaderHeaders }) =>
+  pickHeaders(loaderHeaders, ["Surrogate-Key", "Cache-Tag"]);
+
+export const meta: MetaFunction = ({ matches }) => {
+  const siteUrl = getSiteUrlFromMatches(matches);
+
+  return buildMeta({
+    siteUrl,
+    path: "/",
+    title: "WordPress + Remix App",
+    description: "A modern WordPress and Remix application powered by Platformatic Watt",
+    jsonLd: [websiteSchema(siteUrl)],
+  });
 };
 
 export async function loader({ request }: LoaderFunctionArgs) {
+  const api = wordpressApi.forRequest(request);
   try {
-    // Try to get real WordPress posts first
     let posts: WordPressPost[] = [];
     let success = true;
     let error: string | null = null;
 
     try {
-      // Check if WordPress API is healthy
-      const healthStatus = await wordpressApi.healthCheck();
-      
-      if (healthStatus.status === 'healthy') {
-        const response = await wordpressApi.getPosts({ 
-          perPage: 6, 
-          orderby: 'date', 
-          order: 'desc',
-          status: 'publish' 
-        });
-        posts = response.data;
-      } else {
-        throw new Error(healthStatus.message);
-      }
+      // Stale cached posts are served when WordPress is unreachable
+      const response = await api.getPosts({ 
+        perPage: 6, 
+        orderby: 'date', 
+        order: 'desc',
+        status: 'publish' 
+      });
+      posts = response.data;
     } catch (wpError) {
-      console.warn("WordPress API unavailable, falling back to mock data:", wpError);
+      logger.forRequest(request).warn("WordPress API unavailable", { err: wpError });
       
-      // Fall back to mock data
-      const mockPosts = await getMockPosts();
-      posts = mockPosts.slice(0, 6);
       success = false;
-      error = wpError instanceof WordPressApiError 
-        ? `WordPress API Error: ${wpError.message}`
-        : "WordPress is temporarily unavailable, showing sample content";
+      // An open circuit means WordPress has been failing for a while
+      error = wordpressApi.getCircuitState().state !== "closed"
+        ? "WordPress is temporarily unavailable"
+        : wpError instanceof WordPressApiError
+          ? `WordPress API Error: ${wpError.message}`
+          : "WordPress is temporarily unavailable";
     }
 
     return json({
       posts,
       success,
       error,
+    }, {
+      headers: surrogateKeyHeaders(['list:posts']),
     });
   } catch (error) {
-    console.error("Critical error loading homepage:", error);
+    logger.forRequest(request).error("Critical error loading homepage", { err: error });
     
     return json({
       posts: [],
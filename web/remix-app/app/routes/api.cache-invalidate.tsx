@@ -0,0 +1,51 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { wordpressApi } from "~/lib/wordpress-api";
+import {
+  cacheTagsForEvent,
+  parseInvalidationEvent,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from "~/lib/cache-invalidation";
+
+/**
+ * Cache invalidation endpoint, called by the Composer `/invalidate` webhook
+ * POST /api/cache-invalidate
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method Not Allowed' }, { status: 405, headers: { 'Allow': 'POST' } });
+  }
+
+  const secret = process.env.WP_WEBHOOK_SECRET;
+  if (!secret) {
+    return json({ error: 'Cache invalidation is not configured' }, { status: 503 });
+  }
+
+  const body = await request.text();
+  const verified = verifyWebhookSignature({
+    secret,
+    body,
+    signature: request.headers.get(SIGNATURE_HEADER),
+    timestamp: request.headers.get(TIMESTAMP_HEADER),
+  });
+
+  if (!verified) {
+    return json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let event;
+  try {
+    event = parseInvalidationEvent(JSON.parse(body));
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : 'Invalid payload' },
+      { status: 400 }
+    );
+  }
+
+  const tags = cacheTagsForEvent(event);
+  const purged = await wordpressApi.invalidateCache(tags);
+
+  return json({ event, tags, purged });
+}
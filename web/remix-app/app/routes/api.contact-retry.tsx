@@ -0,0 +1,26 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { timingSafeEqual } from "node:crypto";
+import { retryFailedContactDeliveries } from "~/lib/contact";
+
+/**
+ * Retry failed contact form deliveries, for a cron job or scheduler
+ * POST /api/contact-retry with `Authorization: Bearer <CONTACT_RETRY_TOKEN>`
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method Not Allowed' }, { status: 405, headers: { 'Allow': 'POST' } });
+  }
+
+  const token = process.env.CONTACT_RETRY_TOKEN;
+  if (!token) {
+    return json({ error: 'Contact retries are not configured' }, { status: 503 });
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(request.headers.get('Authorization') || '');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return json(await retryFailedContactDeliveries());
+}
@@ -0,0 +1,10 @@
+import { getLiveness, healthResponse } from "~/lib/health";
+
+/**
+ * Liveness: answers while the process can serve requests, without
+ * contacting any dependency
+ * GET /api/health/live
+ */
+export async function loader() {
+  return healthResponse(getLiveness());
+}
@@ -0,0 +1,10 @@
+import { getReadiness, healthResponse } from "~/lib/health";
+
+/**
+ * Readiness: WordPress, its database, the response cache and the circuit
+ * breaker, with each check's latency; 503 when WordPress is unavailable
+ * GET /api/health/ready
+ */
+export async function loader() {
+  return healthResponse(await getReadiness());
+}
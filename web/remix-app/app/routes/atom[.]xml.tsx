@@ -0,0 +1,10 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { feedLoader } from "~/lib/feeds";
+
+/**
+ * Atom feed of the latest posts
+ * GET /atom.xml
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  return feedLoader(request, "atom.xml");
+}
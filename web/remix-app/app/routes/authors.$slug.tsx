@@ -0,0 +1,207 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { wordpressApi, WordPressApiError, type WordPressUser } from "~/lib/wordpress-api";
+import { feedLinks } from "~/lib/feed-links";
+import {
+  breadcrumbSchema,
+  buildMeta,
+  getSiteUrlFromMatches,
+  largestAvatar,
+  pagedPath,
+  personSchema,
+} from "~/lib/seo";
+import { parsePage } from "~/lib/pagination";
+import { logger } from "~/lib/logger";
+import { Pagination, PostGrid } from "~/components/wordpress";
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) => {
+  if (!data?.author) {
+    return [
+      { title: "Author Not Found - WP Remix" },
+      { name: "description", content: "The requested author could not be found" },
+    ];
+  }
+
+  const { author } = data;
+  const siteUrl = getSiteUrlFromMatches(matches);
+  const path = `/authors/${author.slug}`;
+  const avatar = largestAvatar(author);
+
+  return [
+    ...buildMeta({
+      siteUrl,
+      path: pagedPath(path, data.currentPage),
+      title: author.name,
+      description: author.description || `Posts written by ${author.name}`,
+      type: "profile",
+      image: avatar ? { url: avatar, alt: author.name } : null,
+      yoast: author.yoast_head_json,
+      jsonLd: [
+        {
+          "@type": "ProfilePage",
+          url: `${siteUrl}${path}`,
+          mainEntity: personSchema(siteUrl, author),
+        },
+        breadcrumbSchema(siteUrl, [{ name: author.name, path }]),
+      ],
+    }),
+    ...feedLinks(`/authors/${data.author.slug}`, data.author.name).map(link => ({ tagName: "link" as const, ...link })),
+  ];
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const { slug } = params;
+
+  if (!slug) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const page = parsePage(url.searchParams);
+  const perPage = 10;
+
+  try {
+    const api = wordpressApi.forRequest(request);
+    const author = await api.getUser(slug);
+    const posts = await api.getPosts({
+      author: author.id,
+      page,
+      perPage,
+      orderby: 'date',
+      order: 'desc',
+      status: 'publish'
+    });
+
+    return json({
+      author,
+      posts: posts.data,
+      total: posts.total,
+      currentPage: page,
+      totalPages: posts.totalPages,
+    });
+  } catch (error) {
+    logger.forRequest(request).error("Error loading author archive", { slug: params.slug, err: error });
+
+    if (error instanceof Response) {
+      throw error;
+    }
+
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response("Author Not Found", { status: 404 });
+    }
+
+    throw new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export default function AuthorPage() {
+  const { author, posts, total, currentPage, totalPages } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container py-16">
+        <div className="max-w-4xl mx-auto">
+          {/* Back Navigation */}
+          <div className="mb-8">
+            <a
+              href="/posts"
+              className="inline-flex items-center text-blue-600 hover:text-blue-800 font-medium"
+            >
+              ← Back to Posts
+            </a>
+          </div>
+
+          <AuthorProfile author={author} total={total} />
+
+          <div className="mb-12">
+            <PostGrid posts={posts} />
+          </div>
+
+          {posts.length > 0 && (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AuthorProfile({ author, total }: { author: WordPressUser; total: number }) {
+  // WordPress keys avatar renditions by pixel size; use the largest one
+  const avatarSize = Object.keys(author.avatar_urls || {})
+    .sort((a, b) => parseInt(b) - parseInt(a))[0];
+  const avatarUrl = avatarSize ? author.avatar_urls[avatarSize] : null;
+
+  return (
+    <header className="bg-white rounded-lg shadow-md p-8 mb-12 flex flex-col sm:flex-row items-center sm:items-start gap-6">
+      {avatarUrl && (
+        <img
+          src={avatarUrl}
+          alt={author.name}
+          width={96}
+          height={96}
+          className="w-24 h-24 rounded-full"
+        />
+      )}
+
+      <div className="text-center sm:text-left">
+        <p className="text-sm font-semibold uppercase tracking-wide text-blue-600 mb-2">
+          Author
+        </p>
+        <h1 className="text-4xl font-bold text-gray-900 mb-4">
+          {author.name}
+        </h1>
+        {author.description && (
+          <p className="text-lg text-gray-600 mb-4">
+            {author.description}
+          </p>
+        )}
+        <div className="flex justify-center sm:justify-start items-center text-sm text-gray-500 space-x-4">
+          <span>{total === 1 ? '1 post' : `${total} posts`}</span>
+          {author.url && (
+            <a
+              href={author.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Website
+            </a>
+          )}
+        </div>
+      </div>
+    </header>
+  );
+}
+
+export function ErrorBoundary() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          Author not found
+        </h1>
+        <p className="text-gray-600 mb-6">
+          The author you're looking for doesn't exist or has no published posts.
+        </p>
+        <div className="space-x-4">
+          <a
+            href="/posts"
+            className="btn"
+          >
+            Browse Posts
+          </a>
+          <a
+            href="/"
+            className="btn btn-secondary"
+          >
+            Go Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { feedLoader } from "~/lib/feeds";
+
+/**
+ * Feeds of a author's posts
+ * GET /authors/{slug}/feed.xml, /authors/{slug}/atom.xml, /authors/{slug}/feed.json
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  if (!params.slug) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return feedLoader(request, params.feed || "", { type: "author", slug: params.slug });
+}
@@ -0,0 +1,14 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { feedLoader } from "~/lib/feeds";
+
+/**
+ * Feeds of a category's posts
+ * GET /category/{slug}/feed.xml, /category/{slug}/atom.xml, /category/{slug}/feed.json
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  if (!params.slug) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return feedLoader(request, params.feed || "", { type: "category", slug: params.slug });
+}
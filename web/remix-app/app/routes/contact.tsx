@@ -0,0 +1,253 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type HeadersFunction,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { wordpressApi, WordPressApiError } from "~/lib/wordpress-api";
+import { getContentBlocks } from "~/lib/blocks";
+import { getClientAddress, hitClientLimit } from "~/lib/rate-limit";
+import { issueCsrfToken, verifyCsrfToken } from "~/lib/csrf";
+import {
+  contactRateLimiter,
+  createContactMessage,
+  deliverContactMessage,
+  looksLikeSpam,
+} from "~/lib/contact";
+import {
+  CONTACT_HONEYPOT_FIELD,
+  CONTACT_SCHEMA,
+  CSRF_FIELD,
+  validateContactForm,
+  type ContactActionResult,
+  type ContactField,
+  type ContactFieldRule,
+} from "~/lib/contact-form";
+import { toPlainText } from "~/lib/sanitize";
+import { breadcrumbSchema, buildMeta, getSiteUrlFromMatches, toSeoImage, webPageSchema } from "~/lib/seo";
+import { logger } from "~/lib/logger";
+import { pickHeaders } from "~/lib/cache-invalidation";
+import { PageContent } from "~/components/wordpress";
+
+/**
+ * Forms submitted faster than this are from bots, in seconds
+ */
+const MIN_FILL_TIME = 3;
+
+export const headers: HeadersFunction = ({ loaderHeaders, actionHeaders }) => ({
+  ...pickHeaders(loaderHeaders, ["Cache-Control"]),
+  ...pickHeaders(actionHeaders, ["Retry-After"]),
+});
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) => {
+  const siteUrl = getSiteUrlFromMatches(matches);
+  const page = data?.page;
+  const title = toPlainText(page?.title?.rendered) || "Contact";
+  const image = toSeoImage(data?.image);
+
+  return buildMeta({
+    siteUrl,
+    path: "/contact",
+    title,
+    description: toPlainText(page?.excerpt?.rendered) || "Send us a message",
+    image,
+    yoast: page?.yoast_head_json,
+    jsonLd: [
+      ...(page ? [webPageSchema({ siteUrl, path: "/contact", page, image })] : []),
+      breadcrumbSchema(siteUrl, [{ name: title, path: "/contact" }]),
+    ],
+  });
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const api = wordpressApi.forRequest(request);
+  // The WordPress "contact" page, when there is one, introduces the form
+  const page = await api.getPage("contact").catch(error => {
+    if (!(error instanceof WordPressApiError && error.status === 404)) {
+      logger.forRequest(request).error("Error loading contact page", { err: error });
+    }
+    return null;
+  });
+
+  const blocks = page ? getContentBlocks(page) : null;
+  const [image, media] = page
+    ? await Promise.all([
+      api.resolveFeaturedImage(page),
+      blocks ? api.resolveBlockMedia(blocks) : {},
+    ])
+    : [null, {}];
+
+  const csrf = await issueCsrfToken(request);
+
+  return json({
+    page,
+    image,
+    blocks,
+    media,
+    csrfToken: csrf.token,
+  }, {
+    headers: {
+      // The form token is per visitor
+      "Cache-Control": "private, no-store",
+      ...(csrf.setCookie ? { "Set-Cookie": csrf.setCookie } : {}),
+    },
+  });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const { values, errors } = validateContactForm(formData);
+
+  const csrf = await verifyCsrfToken(request, formData.get(CSRF_FIELD) as string | null);
+  if (!csrf.valid) {
+    return json<ContactActionResult>(
+      { ok: false, errors: { form: "This form has expired. Please try again." }, values },
+      { status: 403 }
+    );
+  }
+
+  // Bots get the same answer as a delivered message
+  if (formData.get(CONTACT_HONEYPOT_FIELD) || csrf.age < MIN_FILL_TIME || looksLikeSpam(values)) {
+    logger.forRequest(request).warn("Contact form spam", { ip: getClientAddress(request, context) });
+    return json<ContactActionResult>({ ok: true, status: "sent" });
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return json<ContactActionResult>({ ok: false, errors, values }, { status: 400 });
+  }
+
+  const limit = hitClientLimit(contactRateLimiter, request, context);
+  if (!limit.allowed) {
+    return json<ContactActionResult>(
+      { ok: false, errors: { form: "You have sent several messages already. Please try again later." }, values },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+    );
+  }
+
+  try {
+    const message = createContactMessage(values, {
+      ip: getClientAddress(request, context),
+      userAgent: request.headers.get("User-Agent") ?? undefined,
+    });
+    const status = await deliverContactMessage(message);
+
+    return json<ContactActionResult>({ ok: true, status });
+  } catch (error) {
+    // Neither delivered nor kept for a retry
+    logger.forRequest(request).error("Error handling contact message", { err: error });
+
+    return json<ContactActionResult>(
+      { ok: false, errors: { form: "Your message could not be sent. Please try again later." }, values },
+      { status: 500 }
+    );
+  }
+}
+
+const FIELDS: ContactField[] = ["name", "email", "subject", "message"];
+
+export default function ContactPage() {
+  const { page, image, blocks, media, csrfToken } = useLoaderData<typeof loader>();
+  const result = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submitting = navigation.state === "submitting";
+  const errors = result && !result.ok ? result.errors : undefined;
+  const values = result && !result.ok ? result.values : undefined;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container py-16">
+        <div className="max-w-4xl mx-auto space-y-8">
+          {page ? (
+            <PageContent page={page} image={image} blocks={blocks} media={media} />
+          ) : (
+            <h1 className="text-4xl font-bold text-gray-900">Contact</h1>
+          )}
+
+          <section className="bg-white rounded-lg shadow-lg p-8">
+            {result?.ok ? (
+              <div role="status" className="text-center py-8">
+                <h2 className="text-2xl font-semibold text-gray-900 mb-2">Thank you!</h2>
+                <p className="text-gray-600 mb-6">
+                  Your message has been received. We'll get back to you as soon as we can.
+                </p>
+                <a href="/contact" className="btn btn-secondary">
+                  Send another message
+                </a>
+              </div>
+            ) : (
+              <>
+                <h2 className="text-2xl font-semibold text-gray-900 mb-6">Send us a message</h2>
+
+                {errors?.form && (
+                  <div role="alert" className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+                    {errors.form}
+                  </div>
+                )}
+
+                <Form method="post" className="space-y-4">
+                  <input type="hidden" name={CSRF_FIELD} value={csrfToken} />
+
+                  {/* Left empty by people; bots that fill it in are ignored */}
+                  <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+                    <label htmlFor={`contact-${CONTACT_HONEYPOT_FIELD}`}>Leave this field empty</label>
+                    <input
+                      type="text"
+                      id={`contact-${CONTACT_HONEYPOT_FIELD}`}
+                      name={CONTACT_HONEYPOT_FIELD}
+                      tabIndex={-1}
+                      autoComplete="off"
+                    />
+                  </div>
+
+                  {FIELDS.map(field => {
+                    const rule: ContactFieldRule = CONTACT_SCHEMA[field];
+                    const props = {
+                      id: `contact-${field}`,
+                      name: field,
+                      required: rule.required,
+                      minLength: rule.minLength,
+                      maxLength: rule.maxLength,
+                      defaultValue: values?.[field],
+                      "aria-invalid": errors?.[field] ? true : undefined,
+                      "aria-describedby": errors?.[field] ? `contact-${field}-error` : undefined,
+                      className: "w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent",
+                    };
+
+                    return (
+                      <div key={field}>
+                        <label htmlFor={props.id} className="block text-sm font-medium text-gray-700 mb-1">
+                          {rule.label}
+                          {!rule.required && <span className="font-normal text-gray-500"> (optional)</span>}
+                        </label>
+                        {rule.multiline ? (
+                          <textarea rows={8} {...props} />
+                        ) : (
+                          <input
+                            type={rule.type ?? "text"}
+                            autoComplete={field === "name" || field === "email" ? field : "off"}
+                            {...props}
+                          />
+                        )}
+                        {errors?.[field] && (
+                          <p id={`contact-${field}-error`} className="mt-1 text-sm text-red-600">
+                            {errors[field]}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  <button type="submit" className="btn" disabled={submitting}>
+                    {submitting ? "Sending..." : "Send Message"}
+                  </button>
+                </Form>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { feedLoader } from "~/lib/feeds";
+
+/**
+ * JSON Feed of the latest posts
+ * GET /feed.json
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  return feedLoader(request, "feed.json");
+}
@@ -0,0 +1,10 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { feedLoader } from "~/lib/feeds";
+
+/**
+ * RSS 2.0 feed of the latest posts
+ * GET /feed.xml
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  return feedLoader(request, "feed.xml");
+}
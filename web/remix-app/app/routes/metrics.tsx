@@ -0,0 +1,32 @@
+import { timingSafeEqual } from "node:crypto";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { metrics, METRICS_CONTENT_TYPE } from "~/lib/metrics";
+
+/**
+ * Prometheus metrics for this worker
+ * GET /metrics
+ *
+ * With `METRICS_TOKEN` set, scrapers must send it as a bearer token.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const token = process.env.METRICS_TOKEN;
+
+  if (token) {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const received = Buffer.from(request.headers.get("Authorization") ?? "");
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return new Response("Unauthorized", {
+        status: 401,
+        headers: { "WWW-Authenticate": "Bearer" },
+      });
+    }
+  }
+
+  return new Response(await metrics.render(), {
+    headers: {
+      "Content-Type": METRICS_CONTENT_TYPE,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,10 +1,33 @@
-import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import {
+  json,
+  type ActionFunctionArgs,
+  type HeadersFunction,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from "@remix-run/node";
 import { useLoaderData } from "@remix-run/react";
-import { type WordPressPost } from "~/lib/wordpress";
 import { wordpressApi, WordPressApiError } from "~/lib/wordpress-api";
-import { getMockPost } from "~/lib/mock-wordpress";
+import { pickHeaders, surrogateKeyHeaders } from "~/lib/cache-invalidation";
+import { getPreviewSession, PREVIEW_HEADERS } from "~/lib/preview";
+import { getEmbeddedAuthor, getEmbeddedTerms } from "~/lib/embedded";
+import { getContentBlocks } from "~/lib/blocks";
+import { toPlainText } from "~/lib/sanitize";
+import { commentRateLimiter, getCommentThreads, submitComment } from "~/lib/comments";
+import { parseCommentForm, type CommentActionResult } from "~/lib/comment-form";
+import { hitClientLimit } from "~/lib/rate-limit";
+import { articleSchema, breadcrumbSchema, buildMeta, getSiteUrlFromMatches, toIsoDate, toSeoImage } from "~/lib/seo";
+import { logger } from "~/lib/logger";
+import { PreviewBanner, TermChips } from "~/components/wordpress";
+import { WpImage } from "~/components/wp-image";
+import { BlockContent } from "~/components/blocks";
+import { Comments } from "~/components/comments";
 
-export const meta: MetaFunction<typeof loader> = ({ data }) => {
+export const headers: HeadersFunction = ({ loaderHeaders, actionHeaders }) => ({
+  ...pickHeaders(loaderHeaders, ["Cache-Control", "X-Robots-Tag", "Surrogate-Key", "Cache-Tag"]),
+  ...pickHeaders(actionHeaders, ["Retry-After"]),
+});
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) => {
   if (!data?.post) {
     return [
       { title: "Post Not Found - WP Remix" },
@@ -12,22 +35,46 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
     ];
   }
 
-  const title = data.post.title?.rendered || "Untitled Post";
-  const excerpt = data.post.excerpt?.rendered?.replace(/<[^>]*>/g, '') || '';
+  const { post } = data;
+  const siteUrl = getSiteUrlFromMatches(matches);
+  const path = `/posts/${post.slug}`;
+  const title = toPlainText(post.title?.rendered) || "Untitled Post";
+  const author = getEmbeddedAuthor(post);
+  const { categories, tags } = getEmbeddedTerms(post);
+  const image = toSeoImage(data.image);
+  const section = categories[0] ? toPlainText(categories[0].name) : undefined;
+  const keywords = tags.map(tag => toPlainText(tag.name));
 
   return [
-    { title: `${title} - WP Remix` },
-    { name: "description", content: excerpt || "Read this blog post" },
-    { name: "author", content: data.post.author_name || "WP Remix" },
-    { property: "og:title", content: title },
-    { property: "og:description", content: excerpt },
-    { property: "og:type", content: "article" },
-    { property: "article:published_time", content: data.post.date },
-    { property: "article:modified_time", content: data.post.modified },
+    ...buildMeta({
+      siteUrl,
+      path,
+      title,
+      description: toPlainText(post.excerpt?.rendered) || "Read this blog post",
+      type: "article",
+      image,
+      noindex: data.preview,
+      article: {
+        published: toIsoDate(post.date, post.date_gmt),
+        modified: toIsoDate(post.modified, post.modified_gmt),
+        author: author?.name,
+        section,
+        tags: keywords,
+      },
+      yoast: post.yoast_head_json,
+      jsonLd: [
+        articleSchema({ siteUrl, path, post, image, author, section, keywords }),
+        breadcrumbSchema(siteUrl, [
+          { name: "Blog", path: "/posts" },
+          { name: title, path },
+        ]),
+      ],
+    }),
+    { name: "author", content: author?.name || "WP Remix" },
   ];
 };
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ params, request }: LoaderFunctionArgs) {
   const { slug } = params;
   
   if (!slug) {
@@ -35,36 +82,60 @@ export async function loader({ params }: LoaderFunctionArgs) {
   }
 
   try {
-    let post: WordPressPost | null = null;
-    let success = true;
-
-    try {
-      // Try WordPress API first
-      const healthStatus = await wordpressApi.healthCheck();
-      
-      if (healthStatus.status === 'healthy') {
-        post = await wordpressApi.getPost(slug);
-      } else {
-        throw new Error(healthStatus.message);
-      }
-    } catch (wpError) {
-      console.warn(`WordPress API unavailable for post ${slug}, falling back to mock data:`, wpError);
-      
-      // Fall back to mock data
-      post = await getMockPost(slug);
-      success = false;
-    }
-    
-    if (!post) {
-      throw new Response("Post Not Found", { status: 404 });
+    const api = wordpressApi.forRequest(request);
+
+    // Previews read the latest draft, autosave or revision, uncached
+    const preview = await getPreviewSession(request, "post", slug);
+    if (preview) {
+      const post = await api.getPostPreview(preview.id);
+      const blocks = getContentBlocks(post);
+      const [image, media] = await Promise.all([
+        api.resolveFeaturedImage(post),
+        blocks ? api.resolveBlockMedia(blocks) : {},
+      ]);
+
+      return json({
+        post,
+        image,
+        blocks,
+        media,
+        comments: null,
+        replyTo: 0,
+        preview: true,
+      }, {
+        headers: PREVIEW_HEADERS,
+      });
     }
 
+    // Stale cached content is served when WordPress is unreachable
+    const post = await api.getPost(slug);
+
+    const url = new URL(request.url);
+    const commentPage = Math.max(1, parseInt(url.searchParams.get("cpage") || "1") || 1);
+    const blocks = getContentBlocks(post);
+    const [image, media, comments] = await Promise.all([
+      api.resolveFeaturedImage(post),
+      blocks ? api.resolveBlockMedia(blocks) : {},
+      // The post still renders when comments fail to load
+      getCommentThreads(post.id, commentPage).catch(error => {
+        logger.forRequest(request).error("Error loading comments", { postId: post.id, err: error });
+        return null;
+      }),
+    ]);
+
     return json({
       post,
-      success,
+      image,
+      blocks,
+      media,
+      comments,
+      replyTo: parseInt(url.searchParams.get("replytocom") || "0") || 0,
+      preview: false,
+    }, {
+      headers: surrogateKeyHeaders([`post:${post.id}`, 'list:posts', 'list:comments']),
     });
   } catch (error) {
-    console.error("Error loading post:", error);
+    logger.forRequest(request).error("Error loading post", { slug: params.slug, err: error });
     
     if (error instanceof Response) {
       throw error;
@@ -78,12 +149,63 @@ export async function loader({ params }: LoaderFunctionArgs) {
   }
 }
 
+/**
+ * Comment submission, from the comment form with or without JavaScript
+ */
+export async function action({ params, request, context }: ActionFunctionArgs) {
+  const { values, errors, spam } = parseCommentForm(await request.formData());
+
+  try {
+    const post = await wordpressApi.getPost(params.slug ?? "");
+
+    if (post.comment_status === "closed") {
+      return json<CommentActionResult>(
+        { ok: false, errors: { form: "Comments are closed for this post." }, values },
+        { status: 403 }
+      );
+    }
+
+    // Bots get the same answer as a held comment
+    if (spam) {
+      return json<CommentActionResult>({ ok: true, status: "hold" });
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return json<CommentActionResult>({ ok: false, errors, values }, { status: 400 });
+    }
+
+    const limit = hitClientLimit(commentRateLimiter, request, context);
+    if (!limit.allowed) {
+      return json<CommentActionResult>(
+        { ok: false, errors: { form: "You are posting comments too quickly. Please try again later." }, values },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const result = await submitComment(post.id, values, request.headers.get("User-Agent") ?? undefined);
+    return json<CommentActionResult>(result, { status: result.ok ? 200 : 422 });
+  } catch (error) {
+    logger.forRequest(request).error("Error submitting comment", { slug: params.slug, err: error });
+
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response("Post Not Found", { status: 404 });
+    }
+
+    return json<CommentActionResult>(
+      { ok: false, errors: { form: "Your comment could not be submitted. Please try again later." }, values },
+      { status: 502 }
+    );
+  }
+}
+
 export default function PostPage() {
-  const { post } = useLoaderData<typeof loader>();
+  const { post, image, blocks, media, comments, replyTo, preview } = useLoaderData<typeof loader>();
 
-  const title = post.title?.rendered || 'Untitled';
+  const title = toPlainText(post.title?.rendered) || 'Untitled';
   const content = post.content?.rendered || '';
   const excerpt = post.excerpt?.rendered || '';
+  const author = getEmbeddedAuthor(post);
+  const { categories, tags } = getEmbeddedTerms(post);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -99,10 +221,40 @@ export default function PostPage() {
             </a>
           </div>
 
+          {preview && (
+            <PreviewBanner
+              status={post.status}
+              modified={post.modified}
+              exitTo={post.status === 'publish' ? `/posts/${post.slug}` : "/"}
+            />
+          )}
+
           {/* Article */}
           <article className="bg-white rounded-lg shadow-lg overflow-hidden">
+            {/* Featured Image */}
+            {image && (
+              <figure>
+                <WpImage
+                  image={image}
+                  sizes="(min-width: 896px) 896px, 100vw"
+                  priority
+                  className="w-full max-h-[32rem] object-cover"
+                />
+                {image.caption && (
+                  <figcaption
+                    className="px-8 pt-2 text-sm text-gray-500"
+                    dangerouslySetInnerHTML={{ __html: image.caption }}
+                  />
+                )}
+              </figure>
+            )}
+
             {/* Header */}
             <header className="p-8 border-b border-gray-200">
+              {categories.length > 0 && (
+                <TermChips terms={categories} basePath="/category" className="mb-4" />
+              )}
+
               <h1 className="text-4xl font-bold text-gray-900 mb-4">
                 {title}
               </h1>
@@ -123,9 +275,15 @@ export default function PostPage() {
                   })}
                 </time>
                 
-                {post.author_name && (
+                {author && (
                   <span>
-                    by <strong>{post.author_name}</strong>
+                    by{' '}
+                    <a
+                      href={`/authors/${author.slug}`}
+                      className="font-semibold text-gray-700 hover:text-blue-600"
+                    >
+                      {author.name}
+                    </a>
                   </span>
                 )}
                 
@@ -143,10 +301,12 @@ export default function PostPage() {
 
             {/* Content */}
             <div className="p-8">
-              {content ? (
-                <div 
+              {content || blocks ? (
+                <BlockContent
+                  blocks={blocks}
+                  html={content}
+                  media={media}
                   className="prose prose-lg max-w-none"
-                  dangerouslySetInnerHTML={{ __html: content }}
                 />
               ) : (
                 <div className="text-center py-12">
@@ -157,6 +317,10 @@ export default function PostPage() {
 
             {/* Footer */}
             <footer className="p-8 bg-gray-50 border-t border-gray-200">
+              {tags.length > 0 && (
+                <TermChips terms={tags} basePath="/tag" className="mb-6" />
+              )}
+
               <div className="flex justify-between items-center">
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-2">
@@ -199,6 +363,14 @@ export default function PostPage() {
               </div>
             </footer>
           </article>
+
+          {comments && (
+            <Comments
+              threads={comments}
+              open={post.comment_status !== "closed"}
+              replyTo={replyTo}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -1,20 +1,45 @@
-import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
-import { useLoaderData, useSearchParams } from "@remix-run/react";
-import { type WordPressPost } from "~/lib/wordpress";
+import { json, redirect, type HeadersFunction, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { type WordPressPost } from "~/lib/wordpress-api";
 import { wordpressApi, WordPressApiError } from "~/lib/wordpress-api";
-import { getMockPosts } from "~/lib/mock-wordpress";
-import { PostGrid } from "~/components/wordpress";
-
-export const meta: MetaFunction = () => {
-  return [
-    { title: "Blog Posts - WP Remix" },
-    { name: "description", content: "Browse all blog posts" },
-  ];
+import { pickHeaders, surrogateKeyHeaders } from "~/lib/cache-invalidation";
+import { breadcrumbSchema, buildMeta, getSiteUrlFromMatches, pagedPath } from "~/lib/seo";
+import { parsePage } from "~/lib/pagination";
+import { logger } from "~/lib/logger";
+import { PostFeed } from "~/components/post-feed";
+
+export const headers: HeadersFunction = ({ loaderHeaders }) =>
+  pickHeaders(loaderHeaders, ["Surrogate-Key", "Cache-Tag"]);
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) => {
+  const siteUrl = getSiteUrlFromMatches(matches);
+
+  return buildMeta({
+    siteUrl,
+    path: pagedPath("/posts", data?.currentPage ?? 1),
+    title: "Blog Posts",
+    description: "Browse all blog posts",
+    // Filtered listings duplicate search results
+    noindex: Boolean(data?.search),
+    jsonLd: [breadcrumbSchema(siteUrl, [{ name: "Blog", path: "/posts" }])],
+  });
 };
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
-  const page = parseInt(url.searchParams.get("page") || "1");
+  const api = wordpressApi.forRequest(request);
+
+  // Legacy taxonomy filters now live on their own archive routes
+  const category = url.searchParams.get("category");
+  const tag = url.searchParams.get("tag");
+  if (category) {
+    throw redirect(`/category/${encodeURIComponent(category)}`, 301);
+  }
+  if (tag) {
+    throw redirect(`/tag/${encodeURIComponent(tag)}`, 301);
+  }
+
+  const page = parsePage(url.searchParams);
   const search = url.searchParams.get("search") || undefined;
   const perPage = 10;
 
@@ -23,61 +48,30 @@ export async function loader({ request }: LoaderFunctionArgs) {
     let success = true;
     let error: string | null = null;
     let totalPages = 1;
-    let hasNextPage = false;
 
     try {
-      // Try WordPress API first
-      const healthStatus = await wordpressApi.healthCheck();
-      
-      if (healthStatus.status === 'healthy') {
-        if (search) {
-          // Use WordPress search endpoint
-          const response = await wordpressApi.search(search, {
-            type: 'post',
-            page,
-            perPage
-          });
-          posts = response.data as WordPressPost[];
-          totalPages = response.totalPages;
-          hasNextPage = page < totalPages;
-        } else {
-          // Get regular posts
-          const response = await wordpressApi.getPosts({
-            page,
-            perPage,
-            orderby: 'date',
-            order: 'desc',
-            status: 'publish'
-          });
-          posts = response.data;
-          totalPages = response.totalPages;
-          hasNextPage = page < totalPages;
-        }
-      } else {
-        throw new Error(healthStatus.message);
-      }
+      // Post listings filter with the posts endpoint's own search so
+      // results keep their embedded data; /search covers other types
+      const response = await api.getPosts({
+        page,
+        perPage,
+        search,
+        orderby: 'date',
+        order: 'desc',
+        status: 'publish'
+      });
+      posts = response.data;
+      totalPages = response.totalPages;
     } catch (wpError) {
-      console.warn("WordPress API unavailable, falling back to mock data:", wpError);
-      
-      // Fall back to mock data with simulated pagination and search
-      const allPosts = await getMockPosts();
-      let filteredPosts = allPosts;
+      logger.forRequest(request).warn("WordPress API unavailable", { err: wpError });
       
-      if (search) {
-        filteredPosts = allPosts.filter(post => 
-          post.title.rendered.toLowerCase().includes(search.toLowerCase()) ||
-          post.content.rendered.toLowerCase().includes(search.toLowerCase())
-        );
-      }
-      
-      const startIndex = (page - 1) * perPage;
-      posts = filteredPosts.slice(startIndex, startIndex + perPage);
-      totalPages = Math.ceil(filteredPosts.length / perPage);
-      hasNextPage = page < totalPages;
       success = false;
-      error = wpError instanceof WordPressApiError 
-        ? `WordPress API Error: ${wpError.message}`
-        : "WordPress is temporarily unavailable, showing sample content";
+      // An open circuit means WordPress has been failing for a while
+      error = wordpressApi.getCircuitState().state !== "closed"
+        ? "WordPress is temporarily unavailable"
+        : wpError instanceof WordPressApiError
+          ? `WordPress API Error: ${wpError.message}`
+          : "WordPress is temporarily unavailable";
     }
 
     return json({
@@ -86,11 +80,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
       search: search || "",
       success,
       error,
-      hasNextPage,
       totalPages,
+    }, {
+      headers: surrogateKeyHeaders(['list:posts']),
     });
   } catch (error) {
-    console.error("Critical error loading posts:", error);
+    logger.forRequest(request).error("Critical error loading posts", { err: error });
     
     return json({
       posts: [],
@@ -98,15 +93,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
       search: search || "",
       success: false,
       error: error instanceof Error ? error.message : "Failed to load posts",
-      hasNextPage: false,
       totalPages: 1,
     });
   }
 }
 
 export default function PostsPage() {
-  const { posts, currentPage, search, success, error, hasNextPage } = useLoaderData<typeof loader>();
-  const [searchParams] = useSearchParams();
+  const { posts, currentPage, totalPages, search, success, error } = useLoaderData<typeof loader>();
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -174,12 +167,13 @@ export default function PostsPage() {
             </div>
           ) : (
             <>
-              <div className="mb-12">
-                <PostGrid posts={posts} />
-              </div>
-
-              {/* Pagination */}
-              <Pagination currentPage={currentPage} hasNextPage={hasNextPage} />
+              {/* Posts with "load more" and page links; a new search or page starts over */}
+              <PostFeed
+                key={`${search}:${currentPage}`}
+                posts={posts}
+                currentPage={currentPage}
+                totalPages={totalPages}
+              />
             </>
           )}
         </div>
@@ -188,47 +182,6 @@ export default function PostsPage() {
   );
 }
 
-
-
-function Pagination({ currentPage, hasNextPage }: { currentPage: number; hasNextPage: boolean }) {
-  const prevPage = currentPage > 1 ? currentPage - 1 : null;
-  const nextPage = hasNextPage ? currentPage + 1 : null;
-
-  return (
-    <div className="flex justify-center items-center space-x-4">
-      {prevPage ? (
-        <a
-          href={`/posts?page=${prevPage}`}
-          className="btn btn-secondary"
-        >
-          ← Previous
-        </a>
-      ) : (
-        <span className="btn btn-secondary opacity-50 cursor-not-allowed">
-          ← Previous
-        </span>
-      )}
-      
-      <span className="text-gray-600">
-        Page {currentPage}
-      </span>
-      
-      {nextPage ? (
-        <a
-          href={`/posts?page=${nextPage}`}
-          className="btn btn-secondary"
-        >
-          Next →
-        </a>
-      ) : (
-        <span className="btn btn-secondary opacity-50 cursor-not-allowed">
-          Next →
-        </span>
-      )}
-    </div>
-  );
-}
-
 export function ErrorBoundary() {
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center">
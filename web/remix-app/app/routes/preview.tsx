@@ -0,0 +1,78 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { wordpressApi, WordPressApiError } from "~/lib/wordpress-api";
+import { getPagePath } from "~/lib/page-tree";
+import {
+  endPreviewSession,
+  getExitPath,
+  getPreviewSecret,
+  startPreviewSession,
+  verifyPreviewToken,
+} from "~/lib/preview";
+import { logger } from "~/lib/logger";
+
+/**
+ * Start a preview session from a signed WordPress preview link, or end
+ * it with `?exit=1` (returning to the local path in `to`)
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const api = wordpressApi.forRequest(request);
+  const url = new URL(request.url);
+
+  if (url.searchParams.has("exit")) {
+    return redirect(getExitPath(url.searchParams.get("to"), request), {
+      headers: {
+        "Set-Cookie": await endPreviewSession(),
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  const secret = getPreviewSecret();
+  if (!secret) {
+    throw new Response("Preview is not configured", { status: 503 });
+  }
+
+  const type = url.searchParams.get("type") || "post";
+  const id = parseInt(url.searchParams.get("id") || "");
+  const token = url.searchParams.get("token") || "";
+
+  if ((type !== "post" && type !== "page") || !Number.isFinite(id) || !token) {
+    throw new Response("Bad Request", { status: 400 });
+  }
+
+  if (!verifyPreviewToken(secret, type, id, token)) {
+    throw new Response("Invalid or expired preview link", { status: 401 });
+  }
+
+  try {
+    const item = type === "post"
+      ? await api.getPostPreview(id)
+      : await api.getPagePreview(id);
+    const path = "parent" in item
+      ? await getPagePath(item)
+      : `/posts/${item.slug || item.id}`;
+
+    return redirect(encodeURI(path), {
+      headers: {
+        "Set-Cookie": await startPreviewSession({
+          type,
+          id: item.id,
+          slug: item.slug || String(item.id),
+        }),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logger.forRequest(request).error("Error starting preview", { type, id, err: error });
+
+    if (error instanceof WordPressApiError && error.status === 404) {
+      throw new Response("Not Found", { status: 404 });
+    }
+
+    if (error instanceof WordPressApiError && (error.status === 401 || error.status === 403)) {
+      throw new Response("WordPress rejected the preview credentials", { status: 502 });
+    }
+
+    throw new Response("Internal Server Error", { status: 500 });
+  }
+}
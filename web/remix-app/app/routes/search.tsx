@@ -0,0 +1,304 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import {
+  wordpressApi,
+  WordPressApiError,
+  type WordPressSearchResult,
+  type WordPressSearchType,
+} from "~/lib/wordpress-api";
+import { toPlainText } from "~/lib/sanitize";
+import { buildMeta, getSiteUrlFromMatches } from "~/lib/seo";
+import { parsePage } from "~/lib/pagination";
+import { logger } from "~/lib/logger";
+import { Pagination } from "~/components/wordpress";
+
+const SEARCH_TYPES: Array<{ type: WordPressSearchType; label: string }> = [
+  { type: 'post', label: 'Posts' },
+  { type: 'page', label: 'Pages' },
+  { type: 'category', label: 'Categories' },
+  { type: 'tag', label: 'Tags' },
+];
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) => {
+  return buildMeta({
+    siteUrl: getSiteUrlFromMatches(matches),
+    path: "/search",
+    title: data?.query ? `Search: ${data.query}` : "Search",
+    description: "Search posts, pages, categories and tags",
+    noindex: true,
+  });
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const query = (url.searchParams.get("q") || "").trim();
+  const typeParam = url.searchParams.get("type");
+  const type = SEARCH_TYPES.some(({ type }) => type === typeParam)
+    ? typeParam as WordPressSearchType
+    : 'any';
+  const page = parsePage(url.searchParams);
+  const perPage = 10;
+
+  if (!query) {
+    return json({
+      query,
+      type,
+      results: [] as WordPressSearchResult[],
+      facets: null,
+      total: 0,
+      currentPage: 1,
+      totalPages: 0,
+      error: null,
+    });
+  }
+
+  try {
+    const api = wordpressApi.forRequest(request);
+    const [response, facets] = await Promise.all([
+      api.search(query, { type, page, perPage }),
+      api.searchFacets(query),
+    ]);
+
+    return json({
+      query,
+      type,
+      results: response.data,
+      facets,
+      total: response.total,
+      currentPage: page,
+      totalPages: response.totalPages,
+      error: null,
+    });
+  } catch (error) {
+    logger.forRequest(request).error("Search failed", { err: error });
+
+    return json({
+      query,
+      type,
+      results: [] as WordPressSearchResult[],
+      facets: null,
+      total: 0,
+      currentPage: page,
+      totalPages: 0,
+      error: error instanceof WordPressApiError
+        ? `WordPress API Error: ${error.message}`
+        : "Search is temporarily unavailable",
+    });
+  }
+}
+
+export default function SearchPage() {
+  const { query, type, results, facets, total, currentPage, totalPages, error } = useLoaderData<typeof loader>();
+  const facetTotal = facets
+    ? Object.values(facets).reduce((sum, count) => sum + count, 0)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container py-16">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">
+              Search
+            </h1>
+            <form method="get" className="flex gap-4">
+              <input
+                type="search"
+                name="q"
+                placeholder="Search posts, pages, categories and tags..."
+                defaultValue={query}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {type !== 'any' && <input type="hidden" name="type" value={type} />}
+              <button
+                type="submit"
+                className="btn"
+              >
+                Search
+              </button>
+            </form>
+          </div>
+
+          {/* Facets */}
+          {query && facets && (
+            <nav className="flex flex-wrap gap-2 mb-8" aria-label="Result types">
+              <FacetLink query={query} label="All" count={facetTotal} active={type === 'any'} />
+              {SEARCH_TYPES.map((facet) => (
+                <FacetLink
+                  key={facet.type}
+                  query={query}
+                  type={facet.type}
+                  label={facet.label}
+                  count={facets[facet.type]}
+                  active={type === facet.type}
+                />
+              ))}
+            </nav>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-8">
+              <strong>Error searching:</strong> {error}
+            </div>
+          )}
+
+          {query && !error && (
+            results.length === 0 ? (
+              <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded text-center py-12">
+                <h3 className="text-lg font-semibold mb-2">No results found</h3>
+                <p>Nothing matches your search for "{query}".</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 mb-4">
+                  {total === 1 ? '1 result' : `${total} results`} for <strong>"{query}"</strong>
+                </p>
+
+                <ul className="space-y-4 mb-12">
+                  {results.map((result) => (
+                    <SearchResultItem key={`${result.type}-${result.id}`} result={result} query={query} />
+                  ))}
+                </ul>
+
+                <Pagination
+                  currentPage={currentPage}
+                  totalPages={totalPages}
+                />
+              </>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FacetLink({ query, type, label, count, active }: {
+  query: string;
+  type?: WordPressSearchType;
+  label: string;
+  count: number;
+  active: boolean;
+}) {
+  const params = new URLSearchParams(type ? { q: query, type } : { q: query });
+
+  return (
+    <a
+      href={`/search?${params}`}
+      aria-current={active ? 'page' : undefined}
+      className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+        active ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      {label} <span className={active ? 'text-blue-100' : 'text-gray-400'}>({count})</span>
+    </a>
+  );
+}
+
+const RESULT_LABELS: Record<WordPressSearchType, string> = {
+  post: 'Post',
+  page: 'Page',
+  category: 'Category',
+  tag: 'Tag',
+};
+
+function SearchResultItem({ result, query }: { result: WordPressSearchResult; query: string }) {
+  return (
+    <li className="bg-white rounded-lg shadow-md p-6">
+      <span className="inline-block px-2 py-0.5 mb-2 text-xs font-medium uppercase tracking-wide rounded bg-gray-100 text-gray-600">
+        {RESULT_LABELS[result.type]}
+      </span>
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">
+        <a href={searchResultHref(result)} className="hover:text-blue-600 transition-colors">
+          <Highlight text={toPlainText(result.title)} query={query} />
+        </a>
+      </h2>
+      {searchResultSummary(result) && (
+        <p className="text-gray-600 line-clamp-2">
+          <Highlight text={searchResultSummary(result)} query={query} />
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Wrap case-insensitive occurrences of the query's words in <mark>
+ */
+function Highlight({ text, query }: { text: string; query: string }) {
+  const words = query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (words.length === 0) {
+    return <>{text}</>;
+  }
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
+
+/**
+ * Map a search result to its route in this app
+ */
+function searchResultHref(result: WordPressSearchResult): string {
+  const slug = result.item?.slug
+    || new URL(result.url).pathname.split('/').filter(Boolean).pop()
+    || '';
+
+  switch (result.type) {
+    case 'page':
+      return `/pages/${slug}`;
+    case 'category':
+      return `/category/${slug}`;
+    case 'tag':
+      return `/tag/${slug}`;
+    default:
+      return `/posts/${slug}`;
+  }
+}
+
+function searchResultSummary(result: WordPressSearchResult): string {
+  if (!result.item) {
+    return '';
+  }
+
+  if (result.type === 'post' || result.type === 'page') {
+    return toPlainText(result.item.excerpt?.rendered);
+  }
+
+  return result.item.description || '';
+}
+
+export function ErrorBoundary() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          Search unavailable
+        </h1>
+        <p className="text-gray-600 mb-6">
+          We're having trouble running your search. Please try again.
+        </p>
+        <a
+          href="/search"
+          className="btn"
+        >
+          Try Again
+        </a>
+      </div>
+    </div>
+  );
+}
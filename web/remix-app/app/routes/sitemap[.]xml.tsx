@@ -0,0 +1,21 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { getSiteUrl } from "~/lib/site";
+import { getSitemapFiles, renderSitemapIndex, sitemapHeaders, sitemapTags } from "~/lib/sitemap";
+import { logger } from "~/lib/logger";
+
+/**
+ * Sitemap index listing the child sitemaps
+ * GET /sitemap.xml
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const files = await getSitemapFiles();
+
+    return new Response(renderSitemapIndex(getSiteUrl(request), files), {
+      headers: sitemapHeaders(sitemapTags()),
+    });
+  } catch (error) {
+    logger.forRequest(request).error("Error building sitemap index", { err: error });
+    throw new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { getSiteUrl } from "~/lib/site";
+import {
+  getSitemapEntries,
+  parseSitemapFile,
+  renderUrlSet,
+  sitemapHeaders,
+  sitemapTags,
+} from "~/lib/sitemap";
+import { logger } from "~/lib/logger";
+
+/**
+ * Paged child sitemap, e.g. GET /sitemaps/posts-1.xml
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const sitemap = parseSitemapFile(params.file || "");
+
+  if (!sitemap) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  let entries;
+  try {
+    entries = await getSitemapEntries(sitemap.type, sitemap.page);
+  } catch (error) {
+    logger.forRequest(request).error("Error building sitemap", { file: params.file, err: error });
+    throw new Response("Internal Server Error", { status: 500 });
+  }
+
+  // Only the first sitemap of a type exists while it is empty
+  if (entries.length === 0 && sitemap.page > 1) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return new Response(renderUrlSet(getSiteUrl(request), entries), {
+    headers: sitemapHeaders(sitemapTags(sitemap.type)),
+  });
+}
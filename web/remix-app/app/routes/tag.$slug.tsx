@@ -0,0 +1,85 @@
+import type { HeadersFunction, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { loadTermArchive, termArchiveMeta } from "~/lib/taxonomy";
+import { pickHeaders } from "~/lib/cache-invalidation";
+import { getSiteUrlFromMatches } from "~/lib/seo";
+import { Pagination, PostGrid, TermHeader } from "~/components/wordpress";
+
+export const headers: HeadersFunction = ({ loaderHeaders }) =>
+  pickHeaders(loaderHeaders, ["Surrogate-Key", "Cache-Tag"]);
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) =>
+  termArchiveMeta("tag", data, getSiteUrlFromMatches(matches));
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  return loadTermArchive(request, "tag", params.slug);
+}
+
+export default function TagPage() {
+  const { term, posts, currentPage, totalPages } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container py-16">
+        <div className="max-w-4xl mx-auto">
+          {/* Back Navigation */}
+          <div className="mb-8">
+            <a
+              href="/posts"
+              className="inline-flex items-center text-blue-600 hover:text-blue-800 font-medium"
+            >
+              ← Back to Posts
+            </a>
+          </div>
+
+          <TermHeader
+            label="Tag"
+            name={term.name}
+            description={term.description}
+            count={term.count}
+          />
+
+          <div className="mb-12">
+            <PostGrid posts={posts} />
+          </div>
+
+          {posts.length > 0 && (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          Tag not found
+        </h1>
+        <p className="text-gray-600 mb-6">
+          The tag you're looking for doesn't exist or has no posts.
+        </p>
+        <div className="space-x-4">
+          <a
+            href="/posts"
+            className="btn"
+          >
+            Browse Posts
+          </a>
+          <a
+            href="/"
+            className="btn btn-secondary"
+          >
+            Go Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
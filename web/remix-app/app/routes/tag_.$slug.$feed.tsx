@@ -0,0 +1,14 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { feedLoader } from "~/lib/feeds";
+
+/**
+ * Feeds of a tag's posts
+ * GET /tag/{slug}/feed.xml, /tag/{slug}/atom.xml, /tag/{slug}/feed.json
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  if (!params.slug) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return feedLoader(request, params.feed || "", { type: "tag", slug: params.slug });
+}
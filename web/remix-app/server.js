@@ -0,0 +1,41 @@
+/**
+ * HTTP server for the Remix app
+ *
+ * Watt runs this for `wattpm dev` (`--dev`: Vite middleware and hot
+ * reload) and `wattpm start` (the built app), in place of the Remix
+ * capability's own server, so the load context can carry the socket
+ * address as `remoteAddress` for client rate limits.
+ */
+
+import { createRequestHandler } from "@remix-run/express";
+import express from "express";
+
+const dev = process.argv.includes("--dev");
+
+const viteDevServer = dev
+  ? await import("vite").then((vite) => vite.createServer({ server: { middlewareMode: true } }))
+  : undefined;
+
+const app = express();
+app.disable("x-powered-by");
+
+if (viteDevServer) {
+  app.use(viteDevServer.middlewares);
+} else {
+  // Fingerprinted by Vite, so they never change
+  app.use("/assets", express.static("build/client/assets", { immutable: true, maxAge: "1y" }));
+  app.use(express.static("build/client", { maxAge: "1h" }));
+}
+
+app.all(
+  "*",
+  createRequestHandler({
+    build: viteDevServer
+      ? () => viteDevServer.ssrLoadModule("virtual:remix/server-build")
+      : await import("./build/server/index.js"),
+    getLoadContext: (req) => ({ remoteAddress: req.socket.remoteAddress }),
+  })
+);
+
+// Watt replaces the port with its own when it runs the app
+app.listen(Number(process.env.PORT) || 3000);
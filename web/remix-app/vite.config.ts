@@ -4,7 +4,8 @@ import tsconfigPaths from "vite-tsconfig-paths";
 
 export default defineConfig({
   plugins: [
-    remix({
+    // The Remix plugin builds the app; tests only need path aliases
+    !process.env.VITEST && remix({
       future: {
         v3_fetcherPersist: true,
         v3_relativeSplatPath: true,
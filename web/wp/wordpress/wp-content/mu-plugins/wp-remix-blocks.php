@@ -0,0 +1,61 @@
+<?php
+/**
+ * Plugin Name: WP Remix Blocks
+ * Description: Adds parsed blocks to REST responses for the Remix app's block renderer.
+ *
+ * `content.raw` is only returned with `context=edit`, which needs
+ * credentials, so public pages would otherwise only get rendered HTML.
+ * The `blocks` field is the parse_blocks() tree of the content, for every
+ * post type in the REST API that uses the editor. It is null for content
+ * written without the block editor and, like `content.rendered`, for
+ * password-protected posts.
+ */
+
+/**
+ * A parse_blocks() tree as the app expects it: attributes always an
+ * object, and no whitespace-only freeform blocks between blocks
+ */
+function wp_remix_blocks_for_rest( array $blocks ): array {
+	$result = [];
+
+	foreach ( $blocks as $block ) {
+		if ( null === $block['blockName'] && '' === trim( $block['innerHTML'] ) ) {
+			continue;
+		}
+
+		$result[] = [
+			'blockName'    => $block['blockName'],
+			'attrs'        => (object) $block['attrs'],
+			'innerBlocks'  => wp_remix_blocks_for_rest( $block['innerBlocks'] ),
+			'innerHTML'    => $block['innerHTML'],
+			'innerContent' => $block['innerContent'],
+		];
+	}
+
+	return $result;
+}
+
+add_action( 'rest_api_init', function () {
+	$post_types = array_filter(
+		get_post_types( [ 'show_in_rest' => true ] ),
+		fn ( $post_type ) => post_type_supports( $post_type, 'editor' )
+	);
+
+	register_rest_field( array_values( $post_types ), 'blocks', [
+		'get_callback' => function ( array $data ) {
+			$post = get_post( $data['id'] );
+
+			if ( ! $post || post_password_required( $post ) || ! has_blocks( $post ) ) {
+				return null;
+			}
+
+			return wp_remix_blocks_for_rest( parse_blocks( $post->post_content ) );
+		},
+		'schema'       => [
+			'description' => 'Parsed blocks of the content.',
+			'type'        => [ 'array', 'null' ],
+			'context'     => [ 'view', 'edit' ],
+			'readonly'    => true,
+		],
+	] );
+} );
@@ -0,0 +1,42 @@
+<?php
+/**
+ * Plugin Name: WP Remix Health
+ * Description: Reports database reachability for the Remix app and Composer readiness checks.
+ *
+ * GET /wp-json/wp-remix/v1/health answers with the time a trivial query
+ * takes. WordPress cannot start without its database, so when the
+ * connection fails this endpoint, like the rest of the REST API, answers
+ * 500 "Error establishing a database connection".
+ */
+
+add_action( 'rest_api_init', function () {
+	register_rest_route( 'wp-remix/v1', '/health', [
+		'methods'             => 'GET',
+		'permission_callback' => '__return_true',
+		'callback'            => function () {
+			global $wpdb;
+
+			$started = microtime( true );
+			$result  = $wpdb->get_var( 'SELECT 1' );
+			$latency = round( ( microtime( true ) - $started ) * 1000, 2 );
+
+			if ( '1' !== (string) $result ) {
+				return new WP_Error(
+					'database_unavailable',
+					'The database did not answer',
+					[ 'status' => 503, 'latency_ms' => $latency ]
+				);
+			}
+
+			$response = rest_ensure_response( [
+				'database' => [
+					'status'     => 'ok',
+					'latency_ms' => $latency,
+				],
+			] );
+			$response->header( 'Cache-Control', 'no-store' );
+
+			return $response;
+		},
+	] );
+} );